@@ -3,10 +3,25 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState, useCallback, useEffect, useRef } from 'react';
-import { generateCompositeImage, editImageWithChat } from './services/geminiService';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { generateCompositeImage, editImageWithChat, removeProductBackground, estimateFloorPlane, buildPlacementPrompts, buildChatEditPrompt, ProductPlacement } from './services/geminiService';
 // Fix: Corrected import path for Product type.
-import { Product, StagedProduct } from './components/types';
+import { Product, ProductDimensions, StagedProduct, ChatMessage, SceneOperation, SceneVersion, VariantSet } from './components/types';
+import { createSceneVersion, findVersion, getRedoTarget } from './services/versionTree';
+import { buildChatContext } from './services/chatContext';
+import {
+  createProjectId,
+  deleteProject,
+  getLastProjectId,
+  listProjects,
+  loadProject,
+  ProjectRecord,
+  ProjectSummary,
+  saveProject,
+  setLastProjectId,
+  StoredProduct,
+} from './services/projectStore';
+import { deleteLibraryProduct, listLibraryProducts, saveLibraryProduct, toLibraryProduct, toStoredProduct } from './services/productLibrary';
 import Header from './components/Header';
 import ImageUploader from './components/ImageUploader';
 import ObjectCard from './components/ObjectCard';
@@ -15,62 +30,145 @@ import DebugModal from './components/DebugModal';
 import TouchGhost from './components/TouchGhost';
 import Chat from './components/Chat';
 import PlacementGizmo from './components/PlacementGizmo';
+import HistoryPanel from './components/HistoryPanel';
+import ProductSelector from './components/ProductSelector';
+import AddProductModal from './components/AddProductModal';
+import MaskEditor from './components/MaskEditor';
+import ProjectPicker from './components/ProjectPicker';
+import ProjectBar, { SaveStatus } from './components/ProjectBar';
+import VariantPicker from './components/VariantPicker';
+import VariantCountSelector from './components/VariantCountSelector';
+import PlacementCheckSelector from './components/PlacementCheckSelector';
+import ExportPanel from './components/ExportPanel';
+import CompareView from './components/CompareView';
+import PipelineProgressView from './components/PipelineProgressView';
+import { applyProgressEvent, createPipelineProgress, PipelineProgress, PipelineProgressEvent } from './services/pipelineProgress';
+import { isAbortError } from './services/abort';
+import { MODEL_ERROR_DETAILS, ModelError } from './services/modelErrors';
+import { setBudgetCheck } from './services/providers';
+import ErrorBanner, { AppError } from './components/ErrorBanner';
+import { DEFAULT_FLOOR_QUAD, FloorQuad, getDepthScale, getFootprintPolygon, PlanePoint } from './services/floorPlane';
+import { getWidthPercentForLength, SceneScale } from './services/sceneScale';
+import { loadImageFromUrl, opaqueWidthFraction } from './services/maskUtils';
+import DimensionsFields from './components/DimensionsFields';
+import { loadPlacementCheckSettings, PlacementCheckSettings, PlacementReport, savePlacementCheckSettings } from './services/placementVerification';
+import { loadUserPromptSettings, PromptTemplateOverrides, resolvePromptTemplates, saveUserPromptSettings, UserPromptSettings } from './services/promptTemplates';
+import PromptTemplateEditor from './components/PromptTemplateEditor';
+import PromptReviewModal, { PromptReview } from './components/PromptReviewModal';
+import CachedResultNotice, { CachedResult } from './components/CachedResultNotice';
+import { clearResponseCache } from './services/responseCache';
+import UsagePanel from './components/UsagePanel';
+import {
+  createUsageRecord,
+  describeBudgetStop,
+  formatCost,
+  isOverBudget,
+  loadUsageLedger,
+  loadUsageSettings,
+  saveUsageLedger,
+  saveUsageSettings,
+  summarizeUsage,
+  UsageListener,
+  UsageOperation,
+  UsageRecord,
+  UsageSettings,
+} from './services/usage';
+
+// Model failures keep their kind so the error banner can explain them; anything else is shown as-is
+const toAppError = (message: string, err?: unknown): AppError => ({
+  kind: err instanceof ModelError ? err.kind : 'unknown',
+  message,
+});
+
+// Rendered area of an 'object-contain' image inside its own box, relative to that box
+const getRenderedImageRect = (img: HTMLImageElement) => {
+  const { naturalWidth, naturalHeight } = img;
+  const { width: boxWidth, height: boxHeight } = img.getBoundingClientRect();
+  if (!naturalWidth || !naturalHeight || !boxWidth || !boxHeight) return null;
+  const imageAspectRatio = naturalWidth / naturalHeight;
+  const width = imageAspectRatio > boxWidth / boxHeight ? boxWidth : boxHeight * imageAspectRatio;
+  const height = width / imageAspectRatio;
+  return { offsetX: (boxWidth - width) / 2, offsetY: (boxHeight - height) / 2, width, height };
+};
 
 // Pre-load a transparent image to use for hiding the default drag ghost.
 // This prevents a race condition on the first drag.
 const transparentDragImage = new Image();
 transparentDragImage.src = 'data:image/gif;base64,R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7';
 
-interface ChatMessage {
-    role: 'user' | 'model';
-    text: string;
-    imageUrl?: string;
-}
-
-// Helper to convert a data URL string to a File object
-const dataURLtoFile = (dataurl: string, filename: string): File => {
-    const arr = dataurl.split(',');
-    if (arr.length < 2) throw new Error("Invalid data URL");
-    const mimeMatch = arr[0].match(/:(.*?);/);
-    if (!mimeMatch || !mimeMatch[1]) throw new Error("Could not parse MIME type from data URL");
-
-    const mime = mimeMatch[1];
-    const bstr = atob(arr[1]);
-    let n = bstr.length;
-    const u8arr = new Uint8Array(n);
-    while(n--){
-        u8arr[n] = bstr.charCodeAt(n);
-    }
-    return new File([u8arr], filename, {type:mime});
-}
+// Results are PNG when they keep original pixels (see blendIntoScene in imagePipeline.ts), JPEG otherwise
+const getImageExtension = (image: Blob): string => image.type === 'image/png' ? 'png' : 'jpeg';
 
-const loadingMessages = [
-    "Analyzing your product...",
-    "Surveying the scene...",
-    "Describing placement location with AI...",
-    "Crafting the perfect composition prompt...",
-    "Generating photorealistic options...",
-    "Assembling the final scene..."
-];
+// Debounce for writing the open project to IndexedDB after a change
+const AUTOSAVE_DELAY_MS = 1000;
 
 
 const App: React.FC = () => {
-  const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
-  const [productImageFile, setProductImageFile] = useState<File | null>(null);
+  // The product library, shared by all projects, and the product currently picked for placement
+  const [products, setProducts] = useState<Product[]>([]);
+  const [selectedProductId, setSelectedProductId] = useState<number | null>(null);
+  const [isAddProductModalOpen, setIsAddProductModalOpen] = useState(false);
+  const [preparingProductIds, setPreparingProductIds] = useState<number[]>([]);
+  const [maskEditorProductId, setMaskEditorProductId] = useState<number | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
-  const [loadingMessageIndex, setLoadingMessageIndex] = useState(0);
-  const [persistedOrbPosition, setPersistedOrbPosition] = useState<{x: number, y: number} | null>(null);
+  const [error, setError] = useState<AppError | null>(null);
+  // Set when the last generation was answered from the response cache
+  const [cachedResult, setCachedResult] = useState<CachedResult | null>(null);
+  // Live progress of the running placement or chat edit, fed by the service's progress events
+  const [pipelineProgress, setPipelineProgress] = useState<PipelineProgress | null>(null);
+  // Controller for the running placement or chat edit, so it can be cancelled
+  const generationAbortRef = useRef<AbortController | null>(null);
+  const [persistedOrbPositions, setPersistedOrbPositions] = useState<{x: number, y: number}[]>([]);
   const [debugImageUrl, setDebugImageUrl] = useState<string | null>(null);
   const [debugPrompt, setDebugPrompt] = useState<string | null>(null);
+  const [debugPlacementReports, setDebugPlacementReports] = useState<(PlacementReport | null)[]>([]);
   const [isDebugModalOpen, setIsDebugModalOpen] = useState(false);
   const [isChatLoading, setIsChatLoading] = useState<boolean>(false);
 
-  // History state for Scene Undo/Redo
-  const [sceneHistory, setSceneHistory] = useState<File[]>([]);
-  const [currentSceneIndex, setCurrentSceneIndex] = useState(-1);
+  // Branching history state for the scene. Undo walks to the parent version,
+  // redo follows the branch leading to `branchTipId`.
+  const [sceneVersions, setSceneVersions] = useState<SceneVersion[]>([]);
+  const [currentVersionId, setCurrentVersionId] = useState<string | null>(null);
+  const [branchTipId, setBranchTipId] = useState<string | null>(null);
   // Simplified state for Chat
   const [chatHistory, setChatHistory] = useState<ChatMessage[]>([]);
+  // Region painted over the scene to restrict chat edits; null edits the whole image
+  const [regionMask, setRegionMask] = useState<Blob | null>(null);
+  const [isMaskMode, setIsMaskMode] = useState<boolean>(false);
+  // Floor drawn on the scene for perspective-aware placement; null places by marker only
+  const [floorPlane, setFloorPlane] = useState<FloorQuad | null>(null);
+  const [isFloorPlaneMode, setIsFloorPlaneMode] = useState<boolean>(false);
+  const [isEstimatingFloorPlane, setIsEstimatingFloorPlane] = useState<boolean>(false);
+  // Line over an object of known length that gives the scene a real-world scale
+  const [sceneScale, setSceneScale] = useState<SceneScale | null>(null);
+  const [isScaleMode, setIsScaleMode] = useState<boolean>(false);
+
+  // Batch variants. Sets live for the session only, newest first.
+  const [variantCount, setVariantCount] = useState<number>(1);
+  const [placementCheckSettings, setPlacementCheckSettings] = useState<PlacementCheckSettings>(loadPlacementCheckSettings);
+  const [variantSets, setVariantSets] = useState<VariantSet[]>([]);
+  const [isVariantPickerOpen, setIsVariantPickerOpen] = useState(false);
+  const [isExportPanelOpen, setIsExportPanelOpen] = useState(false);
+  const [isCompareOpen, setIsCompareOpen] = useState(false);
+
+  // Prompt templates: the user's edits apply everywhere, the project's edits on top of them
+  const [promptSettings, setPromptSettings] = useState<UserPromptSettings>(loadUserPromptSettings);
+  const [projectPromptOverrides, setProjectPromptOverrides] = useState<PromptTemplateOverrides>({});
+  const [isPromptEditorOpen, setIsPromptEditorOpen] = useState(false);
+  // Model usage since the page was loaded, in this browser since the last reset (kept across reloads,
+  // and what the budget is checked against), and for the open project
+  const [sessionUsage, setSessionUsage] = useState<UsageRecord[]>([]);
+  const [usageLedger, setUsageLedger] = useState<UsageRecord[]>(loadUsageLedger);
+  const [projectUsage, setProjectUsage] = useState<UsageRecord[]>([]);
+  const [usageSettings, setUsageSettings] = useState<UsageSettings>(loadUsageSettings);
+  const [isUsagePanelOpen, setIsUsagePanelOpen] = useState(false);
+  const [promptReview, setPromptReview] = useState<PromptReview | null>(null);
+  // Settles the pending review's promise with whether to send
+  const promptReviewResolveRef = useRef<((send: boolean) => void) | null>(null);
+  const promptTemplates = useMemo(
+    () => resolvePromptTemplates(promptSettings.overrides, projectPromptOverrides),
+    [promptSettings.overrides, projectPromptOverrides]
+  );
   
   // State for touch drag & drop
   const [isTouchDragging, setIsTouchDragging] = useState<boolean>(false);
@@ -80,67 +178,297 @@ const App: React.FC = () => {
   const sceneImgRef = useRef<HTMLImageElement>(null);
   const sceneContainerRef = useRef<HTMLDivElement>(null);
   
-  // State for interactive product placement
-  const [stagedProduct, setStagedProduct] = useState<StagedProduct | null>(null);
+  // State for interactive product placement. Several products can be staged and composed together.
+  const [stagedProducts, setStagedProducts] = useState<StagedProduct[]>([]);
+  const hasStagedProducts = stagedProducts.length > 0;
+  // Width of the visible product within each staged cut-out image, keyed by image URL
+  const [imageContentWidths, setImageContentWidths] = useState<Record<string, number>>({});
+
+  // Project persistence state
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [projectName, setProjectName] = useState('');
+  const [projectCreatedAt, setProjectCreatedAt] = useState(0);
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>('idle');
   
   // Derived state from history
-  const sceneImage = sceneHistory[currentSceneIndex] ?? null;
-  const previousSceneImage = sceneHistory[currentSceneIndex - 1] ?? null;
+  const currentVersion = findVersion(sceneVersions, currentVersionId);
+  const parentVersion = findVersion(sceneVersions, currentVersion?.parentId ?? null);
+  const redoVersion = getRedoTarget(sceneVersions, currentVersionId, branchTipId);
+  const sceneImage = currentVersion?.image ?? null;
+  const previousSceneImage = parentVersion?.image ?? null;
   
   const sceneImageUrl = sceneImage ? URL.createObjectURL(sceneImage) : null;
+  const selectedProduct = products.find(p => p.id === selectedProductId) ?? null;
+  const productImageFile = selectedProduct?.file ?? null;
   const productImageUrl = selectedProduct ? selectedProduct.imageUrl : null;
 
   // Undo/Redo capabilities for the scene
-  const canSceneUndo = currentSceneIndex > 0;
-  const canSceneRedo = currentSceneIndex < sceneHistory.length - 1;
+  const canSceneUndo = !!parentVersion;
+  const canSceneRedo = !!redoVersion;
   
   const handleSceneUndo = useCallback(() => {
-    if (canSceneUndo) {
-      setCurrentSceneIndex(prev => prev - 1);
+    if (parentVersion) {
+      setCurrentVersionId(parentVersion.id);
     }
-  }, [canSceneUndo]);
+  }, [parentVersion]);
 
   const handleSceneRedo = useCallback(() => {
-    if (canSceneRedo) {
-      setCurrentSceneIndex(prev => prev + 1);
+    if (redoVersion) {
+      setCurrentVersionId(redoVersion.id);
     }
-  }, [canSceneRedo]);
+  }, [redoVersion]);
+
+  // Jumping to a version from the history panel also makes it the redo branch tip
+  const handleSelectVersion = useCallback((id: string) => {
+    setCurrentVersionId(id);
+    setBranchTipId(id);
+  }, []);
   
-  const updateSceneImage = (newImageFile: File) => {
-    const newHistory = sceneHistory.slice(0, currentSceneIndex + 1);
-    setSceneHistory([...newHistory, newImageFile]);
-    setCurrentSceneIndex(newHistory.length);
+  // Adds a new version as a child of `parentId`, forking a new branch if the parent already has children.
+  const updateSceneImage = (
+    newImageFile: File,
+    parentId: string | null,
+    details: { operation: SceneOperation; prompt?: string | null; label: string; products?: string[] }
+  ) => {
+    const version = createSceneVersion(newImageFile, parentId, details);
+    setSceneVersions(prev => [...prev, version]);
+    setCurrentVersionId(version.id);
+    setBranchTipId(version.id);
+    return version;
   };
   
   const updateChatHistory = (newMessages: ChatMessage[]) => {
       setChatHistory(prev => [...prev, ...newMessages]);
   };
 
-  const setSceneFile = (file: File) => {
-    // This function now starts or replaces the history
-    setSceneHistory([file]);
-    setCurrentSceneIndex(0);
+  // A single result goes straight into the history; several are offered in the variant picker.
+  // Returns the new version, or null while the user still has to pick a variant.
+  const addGeneratedImages = (
+    files: File[],
+    baseVersionId: string,
+    details: { operation: SceneOperation; prompt?: string | null; label: string; products?: string[] }
+  ): SceneVersion | null => {
+    if (files.length === 1) {
+      return updateSceneImage(files[0], baseVersionId, details);
+    }
+    const set: VariantSet = {
+      id: `variants-${Date.now()}`,
+      baseVersionId,
+      operation: details.operation,
+      prompt: details.prompt ?? null,
+      label: details.label,
+      products: details.products ?? [],
+      variants: files.map(file => ({ file, imageUrl: URL.createObjectURL(file) })),
+      pickedIndexes: [],
+      createdAt: Date.now(),
+    };
+    setVariantSets(prev => [set, ...prev]);
+    setIsVariantPickerOpen(true);
+    return null;
   };
 
-  const handleProductImageUpload = useCallback((file: File) => {
-    // useEffect will handle cleaning up the previous blob URL
+  // Picking a variant adds it as a child of the version it was generated from, so
+  // picking a second one from the same set simply creates a sibling branch.
+  const handleVariantPick = (setId: string, index: number) => {
+    const set = variantSets.find(s => s.id === setId);
+    const variant = set?.variants[index];
+    if (!set || !variant) return;
+    if (!findVersion(sceneVersions, set.baseVersionId)) {
+      setError(toAppError('The version these variants were generated from is no longer available.'));
+      return;
+    }
+    updateSceneImage(variant.file, set.baseVersionId, {
+      operation: set.operation,
+      prompt: set.prompt,
+      label: `${set.label} (variant ${index + 1})`,
+      products: set.products,
+    });
+    setVariantSets(prev => prev.map(s => s.id === setId && !s.pickedIndexes.includes(index)
+      ? { ...s, pickedIndexes: [...s.pickedIndexes, index] }
+      : s));
+    setIsVariantPickerOpen(false);
+  };
+
+  const clearVariantSets = useCallback(() => {
+    setVariantSets(prev => {
+      prev.forEach(set => set.variants.forEach(variant => URL.revokeObjectURL(variant.imageUrl)));
+      return [];
+    });
+    setIsVariantPickerOpen(false);
+  }, []);
+
+  const handleProgressEvent = useCallback((event: PipelineProgressEvent) => {
+    setPipelineProgress(prev => prev ? applyProgressEvent(prev, event) : prev);
+  }, []);
+
+  // Returns a listener that records each model call against the operation and the version it started from
+  const recordUsage = useCallback((operation: UsageOperation, versionId: string | null): UsageListener => (call, usage) => {
+    const record = createUsageRecord(usage, call, operation, versionId);
+    setSessionUsage(prev => [...prev, record]);
+    setUsageLedger(prev => [...prev, record]);
+    setProjectUsage(prev => [...prev, record]);
+  }, []);
+
+  const usageLedgerTotals = useMemo(() => summarizeUsage(usageLedger), [usageLedger]);
+
+  // Shows an error and returns false once the budget is used up, before an operation starts
+  const checkBudget = (): boolean => {
+    const { budgetUsd } = usageSettings;
+    if (budgetUsd === null || !isOverBudget(usageLedgerTotals, usageSettings)) {
+      return true;
+    }
+    setError({ kind: 'quota', message: describeBudgetStop(usageLedgerTotals, budgetUsd) });
+    return false;
+  };
+
+  // The provider also checks the budget before every single model call (retries, cut-outs and
+  // floor estimates included), reading the latest totals through a ref
+  const budgetStateRef = useRef({ totals: usageLedgerTotals, settings: usageSettings });
+  useEffect(() => {
+    budgetStateRef.current = { totals: usageLedgerTotals, settings: usageSettings };
+  }, [usageLedgerTotals, usageSettings]);
+
+  useEffect(() => {
+    setBudgetCheck(() => {
+      const { totals, settings } = budgetStateRef.current;
+      if (settings.budgetUsd !== null && isOverBudget(totals, settings)) {
+        throw new ModelError('quota', describeBudgetStop(totals, settings.budgetUsd));
+      }
+    });
+    return () => setBudgetCheck(null);
+  }, []);
+
+  // Starts a new cancellable generation, superseding any that is still running
+  const beginGeneration = useCallback(() => {
+    generationAbortRef.current?.abort('superseded');
+    setCachedResult(null);
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
+    return controller;
+  }, []);
+
+  // 'user' when the Cancel button was pressed; 'superseded' when the scene or project changed underneath
+  const cancelGeneration = useCallback((reason: 'user' | 'superseded' = 'user') => {
+    generationAbortRef.current?.abort(reason);
+    generationAbortRef.current = null;
+    // A stored result for a scene that is being replaced can't be regenerated
+    if (reason === 'superseded') setCachedResult(null);
+  }, []);
+
+  const setSceneFile = useCallback((file: File) => {
+    // This function now starts or replaces the history
+    const root = createSceneVersion(file, null, { operation: 'upload', label: 'Original scene' });
+    setSceneVersions([root]);
+    setCurrentVersionId(root.id);
+    setBranchTipId(root.id);
+    setRegionMask(null);
+    setIsMaskMode(false);
+    setFloorPlane(null);
+    setIsFloorPlaneMode(false);
+    setSceneScale(null);
+    setIsScaleMode(false);
+    clearVariantSets();
+    cancelGeneration('superseded');
+    // A new scene without an open project starts a new one
+    if (!projectId) {
+      const id = createProjectId();
+      setProjectId(id);
+      setProjectName(`Untitled project ${new Date().toLocaleDateString()}`);
+      setProjectCreatedAt(Date.now());
+      setLastProjectId(id);
+    }
+  }, [projectId, clearVariantSets, cancelGeneration]);
+
+  const refreshProjects = useCallback(async () => {
+    try {
+      setProjects(await listProjects());
+    } catch (err) {
+      console.error('Could not list saved projects:', err);
+    }
+  }, []);
+
+  // Replaces a product's cut-out and persists the change to the library
+  const updateProductCutout = useCallback((product: Product, cutoutFile: File) => {
+    const cutoutUrl = URL.createObjectURL(cutoutFile);
+    setProducts(prev => prev.map(p => p.id === product.id ? { ...p, cutoutFile, cutoutUrl } : p));
+    // Products already staged keep using the same product, so refresh their image too
+    setStagedProducts(prev => prev.map(staged => staged.productId === product.id ? { ...staged, file: cutoutFile, imageUrl: cutoutUrl } : staged));
+    if (product.cutoutUrl) URL.revokeObjectURL(product.cutoutUrl);
+    saveLibraryProduct(toStoredProduct({ ...product, cutoutFile, cutoutUrl }))
+      .catch(err => console.error('Could not save product cut-out:', err));
+  }, []);
+
+  // Removes the background of a newly added product in the background; the original photo is used until it's ready
+  const prepareProductCutout = useCallback(async (product: Product) => {
+    setPreparingProductIds(prev => [...prev, product.id]);
+    try {
+      const cutoutFile = await removeProductBackground(product.file, undefined, recordUsage('cutout', null));
+      updateProductCutout(product, cutoutFile);
+    } catch (err) {
+      console.error('Could not remove the product background:', err);
+    } finally {
+      setPreparingProductIds(prev => prev.filter(id => id !== product.id));
+    }
+  }, [updateProductCutout, recordUsage]);
+
+  // Adds a product to the library (or re-selects an identical one) and selects it
+  const addProductToLibrary = useCallback((details: { file: File; name: string; tags: string[]; dimensions?: ProductDimensions | null }) => {
     setError(null);
     try {
-        const imageUrl = URL.createObjectURL(file);
+        const existing = products.find(p => p.name === details.name && p.file.size === details.file.size);
+        if (existing) {
+            setSelectedProductId(existing.id);
+            return;
+        }
         const product: Product = {
             id: Date.now(),
-            name: file.name,
-            imageUrl: imageUrl,
+            name: details.name,
+            tags: details.tags,
+            file: details.file,
+            imageUrl: URL.createObjectURL(details.file),
+            cutoutFile: null,
+            cutoutUrl: null,
+            dimensions: details.dimensions ?? null,
         };
-        setProductImageFile(file);
-        setSelectedProduct(product);
+        setProducts(prev => [...prev, product]);
+        setSelectedProductId(product.id);
+        saveLibraryProduct(toStoredProduct(product))
+          .catch(err => console.error('Could not save product to the library:', err));
+        prepareProductCutout(product);
     } catch(err) {
       const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-      setError(`Could not load the product image. Details: ${errorMessage}`);
+      setError(toAppError(`Could not load the product image. Details: ${errorMessage}`, err));
       console.error(err);
     }
+  }, [products, prepareProductCutout]);
+
+  const handleProductImageUpload = useCallback((file: File) => {
+    addProductToLibrary({ file, name: file.name, tags: [] });
+  }, [addProductToLibrary]);
+
+  const handleAddProduct = useCallback((details: { file: File; name: string; tags: string[]; dimensions: ProductDimensions | null }) => {
+    addProductToLibrary(details);
+    setIsAddProductModalOpen(false);
+  }, [addProductToLibrary]);
+
+  const handleProductDimensionsChange = useCallback((product: Product, dimensions: ProductDimensions | null) => {
+    setProducts(prev => prev.map(p => p.id === product.id ? { ...p, dimensions } : p));
+    saveLibraryProduct(toStoredProduct({ ...product, dimensions }))
+      .catch(err => console.error('Could not save product dimensions:', err));
   }, []);
 
+  const handleRemoveProduct = useCallback((product: Product) => {
+    setProducts(prev => prev.filter(p => p.id !== product.id));
+    setStagedProducts(prev => prev.filter(p => p.productId !== product.id));
+    if (selectedProductId === product.id) {
+      setSelectedProductId(null);
+    }
+    URL.revokeObjectURL(product.imageUrl);
+    if (product.cutoutUrl) URL.revokeObjectURL(product.cutoutUrl);
+    deleteLibraryProduct(product.id).catch(err => console.error('Could not remove product from the library:', err));
+  }, [selectedProductId]);
+
   const handleInstantStart = useCallback(async () => {
     setError(null);
     try {
@@ -168,74 +496,345 @@ const App: React.FC = () => {
       handleProductImageUpload(objectFile);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-      setError(`Could not load default images. Details: ${errorMessage}`);
+      setError(toAppError(`Could not load default images. Details: ${errorMessage}`, err));
       console.error(err);
     }
-  }, [handleProductImageUpload]);
+  }, [setSceneFile, handleProductImageUpload]);
   
   const handleProductDrop = useCallback((position: {x: number, y: number}, relativePosition: { xPercent: number; yPercent: number; }) => {
     if (!productImageFile || !selectedProduct) return;
-    setStagedProduct({
-      file: productImageFile,
-      imageUrl: selectedProduct.imageUrl,
+    setStagedProducts(prev => [...prev, {
+      id: Date.now(),
+      productId: selectedProduct.id,
+      name: selectedProduct.name,
+      // Prefer the cut-out so the compositor never sees the original background
+      file: selectedProduct.cutoutFile ?? productImageFile,
+      imageUrl: selectedProduct.cutoutUrl ?? selectedProduct.imageUrl,
       x: position.x,
       y: position.y,
       xPercent: relativePosition.xPercent,
       yPercent: relativePosition.yPercent,
       scale: 1,
+      rotation: 0,
+      flipHorizontal: false,
       width: 150, // Initial width, can be adjusted
-    });
+    }]);
   }, [productImageFile, selectedProduct]);
   
-  const handlePlacementUpdate = (updates: Partial<StagedProduct>) => {
-    setStagedProduct(prev => prev ? { ...prev, ...updates } : null);
+  const handlePlacementUpdate = (id: number, updates: Partial<StagedProduct>) => {
+    // Keep the image-relative position in step with the gizmo as it is dragged
+    const img = sceneImgRef.current;
+    const rect = img ? getRenderedImageRect(img) : null;
+    setStagedProducts(prev => prev.map(p => {
+      if (p.id !== id) return p;
+      const next = { ...p, ...updates };
+      if (rect && (updates.x !== undefined || updates.y !== undefined)) {
+        next.xPercent = Math.min(100, Math.max(0, ((next.x - rect.offsetX) / rect.width) * 100));
+        next.yPercent = Math.min(100, Math.max(0, ((next.y - rect.offsetY) / rect.height) * 100));
+      }
+      return next;
+    }));
   };
-  
-  const handlePlacementCancel = () => {
-    setStagedProduct(null);
+
+  // Real-world width of a staged product in percent of the scene width at its position,
+  // before the user's own scale. Needs product dimensions and a calibrated scene.
+  const getTrueWidthPercent = (staged: StagedProduct): number | null => {
+    const dimensions = products.find(p => p.id === staged.productId)?.dimensions;
+    const img = sceneImgRef.current;
+    const rect = img ? getRenderedImageRect(img) : null;
+    if (!dimensions || !sceneScale || !rect) return null;
+    return getWidthPercentForLength(sceneScale, dimensions.width, staged.yPercent, rect.width / rect.height, floorPlane);
   };
 
-  const handlePlacementConfirm = useCallback(async () => {
-    if (!stagedProduct || !sceneImage || !selectedProduct) {
-      setError('An unexpected error occurred during placement. Please try again.');
-      return;
+  // Size multiplier for the gizmo on top of the user's scale: true to size when possible, else by floor depth
+  const getStagedBaseScale = (staged: StagedProduct): number => {
+    const trueWidthPercent = getTrueWidthPercent(staged);
+    const img = sceneImgRef.current;
+    const rect = img ? getRenderedImageRect(img) : null;
+    if (trueWidthPercent !== null && rect) {
+      // The gizmo shows the whole cut-out, so account for its transparent padding
+      const contentFraction = imageContentWidths[staged.imageUrl] ?? 1;
+      return ((trueWidthPercent / 100) * rect.width) / contentFraction / staged.width;
     }
-    
-    // Persist orb at the final confirmed position
-    setPersistedOrbPosition({ x: stagedProduct.x, y: stagedProduct.y });
+    return floorPlane ? getDepthScale(floorPlane, staged.yPercent) : 1;
+  };
+
+  // On-image size sent to the model when the product can be shown true to size
+  const getStagedTargetSize = (staged: StagedProduct) => {
+    const dimensions = products.find(p => p.id === staged.productId)?.dimensions;
+    const trueWidthPercent = getTrueWidthPercent(staged);
+    const img = sceneImgRef.current;
+    const rect = img ? getRenderedImageRect(img) : null;
+    if (!dimensions || trueWidthPercent === null || !rect) return null;
+    const widthPercent = trueWidthPercent * staged.scale;
+    return { widthPercent, heightPercent: widthPercent * (dimensions.height / dimensions.width) * (rect.width / rect.height) };
+  };
+
+  // Width of the product itself (without the cut-out's padding) as staged, in percent of the scene width
+  const getStagedWidthPercent = (staged: StagedProduct): number | null => {
+    const img = sceneImgRef.current;
+    const rect = img ? getRenderedImageRect(img) : null;
+    if (!rect) return null;
+    const contentFraction = imageContentWidths[staged.imageUrl] ?? 1;
+    const onScreenWidth = staged.width * staged.scale * getStagedBaseScale(staged) * contentFraction;
+    return (onScreenWidth / rect.width) * 100;
+  };
+
+  // Footprint of a staged product on the floor plane, in percent of the scene
+  const getStagedFootprint = (staged: StagedProduct): PlanePoint[] | null => {
+    const img = sceneImgRef.current;
+    const rect = img ? getRenderedImageRect(img) : null;
+    const widthPercent = getStagedWidthPercent(staged);
+    if (!floorPlane || !rect || widthPercent === null) return null;
+    const dimensions = products.find(p => p.id === staged.productId)?.dimensions;
+    return getFootprintPolygon(
+      floorPlane,
+      { x: staged.xPercent, y: staged.yPercent },
+      widthPercent,
+      staged.rotation,
+      rect.width / rect.height,
+      dimensions ? dimensions.depth / dimensions.width : undefined
+    );
+  };
+
+  const handleEstimateFloorPlane = async () => {
+    if (!sceneImage || !checkBudget()) return;
+    setIsEstimatingFloorPlane(true);
+    try {
+      const quad = await estimateFloorPlane(sceneImage, undefined, recordUsage('floor-plane', currentVersionId));
+      if (quad) {
+        setFloorPlane(quad);
+      } else {
+        setError(toAppError('No floor could be detected in this scene. Drag the corners onto the floor instead.'));
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setError(toAppError(`Could not detect the floor. ${errorMessage}`, err));
+      console.error(err);
+    } finally {
+      setIsEstimatingFloorPlane(false);
+    }
+  };
+  
+  useEffect(() => {
+    saveUserPromptSettings(promptSettings);
+  }, [promptSettings]);
+
+  useEffect(() => {
+    saveUsageSettings(usageSettings);
+  }, [usageSettings]);
+
+  useEffect(() => {
+    saveUsageLedger(usageLedger);
+  }, [usageLedger]);
+
+  useEffect(() => {
+    savePlacementCheckSettings(placementCheckSettings);
+  }, [placementCheckSettings]);
+
+  // Shows the rendered prompts and resolves once the user sends or cancels them
+  const reviewPrompts = useCallback((review: PromptReview): Promise<boolean> => {
+    promptReviewResolveRef.current?.(false);
+    return new Promise(resolve => {
+      promptReviewResolveRef.current = resolve;
+      setPromptReview(review);
+    });
+  }, []);
+
+  const closePromptReview = (send: boolean) => {
+    promptReviewResolveRef.current?.(send);
+    promptReviewResolveRef.current = null;
+    setPromptReview(null);
+  };
+
+  const toProductPlacement = (p: StagedProduct): ProductPlacement => ({
+    image: p.file,
+    description: p.name,
+    xPercent: p.xPercent,
+    yPercent: p.yPercent,
+    scale: p.scale,
+    rotation: p.rotation,
+    flipHorizontal: p.flipHorizontal,
+    footprint: getStagedFootprint(p),
+    dimensions: products.find(product => product.id === p.productId)?.dimensions ?? null,
+    targetSize: getStagedTargetSize(p),
+    expectedWidthPercent: getStagedTargetSize(p)?.widthPercent ?? getStagedWidthPercent(p),
+  });
+
+  const handlePlacementCancel = (id: number) => {
+    setStagedProducts(prev => prev.filter(p => p.id !== id));
+  };
+
+  // Runs a placement. `useCache` false regenerates it even when an identical one is stored.
+  const runPlacement = async (staged: StagedProduct[], placements: ProductPlacement[], scene: File, baseVersionId: string, useCache: boolean) => {
+    if (!checkBudget()) return;
+
+    // Persist orbs at the final confirmed positions
+    setPersistedOrbPositions(staged.map(p => ({ x: p.x, y: p.y })));
     
     setIsLoading(true);
+    setPipelineProgress(createPipelineProgress());
     setError(null);
-    setStagedProduct(null); // Hide gizmo
+    setStagedProducts([]); // Hide gizmos
+    const controller = beginGeneration();
     
     try {
-      const { finalImageUrl, debugImageUrl, finalPrompt } = await generateCompositeImage(
-        stagedProduct.file, 
-        selectedProduct.name,
-        sceneImage,
-        sceneImage.name,
-        { 
-          xPercent: stagedProduct.xPercent, 
-          yPercent: stagedProduct.yPercent,
-          scale: stagedProduct.scale,
+      const { finalImages, debugImageUrl, finalPrompt, placementReports, cachedVariantCount } = await generateCompositeImage(
+        placements,
+        scene,
+        scene.name,
+        {
+          variantCount,
+          onProgress: handleProgressEvent,
+          signal: controller.signal,
+          verifyPlacement: placementCheckSettings.verifyPlacement,
+          maxPlacementRetries: placementCheckSettings.maxPlacementRetries,
+          templates: promptTemplates,
+          useCache,
+          onUsage: recordUsage('placement', baseVersionId),
         }
       );
+      if (controller.signal.aborted) return;
       setDebugImageUrl(debugImageUrl);
       setDebugPrompt(finalPrompt);
-      const newSceneFile = dataURLtoFile(finalImageUrl, `generated-scene-${Date.now()}.jpeg`);
-      updateSceneImage(newSceneFile);
+      setDebugPlacementReports(placementReports);
+      const newSceneFiles = finalImages.map((image, index) => new File([image], `generated-scene-${Date.now()}-${index + 1}.${getImageExtension(image)}`, { type: image.type }));
+      addGeneratedImages(newSceneFiles, baseVersionId, {
+        operation: 'placement',
+        prompt: finalPrompt,
+        label: `Placed ${staged.map(p => p.name).join(', ')}`,
+        products: staged.map(p => p.name),
+      });
+      if (cachedVariantCount > 0) {
+        setCachedResult({
+          message: cachedVariantCount === variantCount
+            ? 'This placement was made before with the same scene, products and settings, so no model calls were made.'
+            : `${cachedVariantCount} of ${variantCount} variants come from an earlier placement with the same scene, products and settings.`,
+          regenerate: () => runPlacement(staged, placements, scene, baseVersionId, false),
+        });
+      }
 
     } catch (err) {
+      if (isAbortError(err) || controller.signal.aborted) {
+        // Put the products back so the placement can be adjusted and retried
+        if (controller.signal.reason === 'user') {
+          setStagedProducts(staged);
+        }
+        console.log('Placement generation cancelled.');
+        return;
+      }
+      // Keep the products staged so the placement can be retried without redoing it
+      setStagedProducts(staged);
       const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-      setError(`Failed to generate the image. ${errorMessage}`);
+      setError(toAppError(`Failed to generate the image. ${errorMessage}`, err));
       console.error(err);
     } finally {
-      setIsLoading(false);
-      setPersistedOrbPosition(null);
+      // A superseding request owns the loading state from here on
+      if (generationAbortRef.current === controller || generationAbortRef.current === null) {
+        generationAbortRef.current = null;
+        setIsLoading(false);
+        setPipelineProgress(null);
+        setPersistedOrbPositions([]);
+      }
+    }
+  };
+
+  const handlePlacementConfirm = useCallback(async () => {
+    if (stagedProducts.length === 0 || !sceneImage || !currentVersionId) {
+      setError(toAppError('An unexpected error occurred during placement. Please try again.'));
+      return;
+    }
+    const placements = stagedProducts.map(toProductPlacement);
+    if (promptSettings.reviewBeforeSending) {
+      const { descriptionPrompt, compositePrompt } = buildPlacementPrompts(placements, promptTemplates);
+      const send = await reviewPrompts({
+        title: 'Review Placement Prompts',
+        prompts: [
+          { label: 'Location Description', text: descriptionPrompt },
+          { label: 'Placement', text: compositePrompt },
+        ],
+      });
+      if (!send) return;
     }
-  }, [stagedProduct, sceneImage, selectedProduct]);
+    await runPlacement(stagedProducts, placements, sceneImage, currentVersionId, true);
+  }, [stagedProducts, sceneImage, currentVersionId, variantCount, floorPlane, sceneScale, products, imageContentWidths, handleProgressEvent, beginGeneration, promptSettings.reviewBeforeSending, promptTemplates, reviewPrompts, recordUsage, usageLedgerTotals, usageSettings, placementCheckSettings]);
 
 
+  // Opens a saved project. Products it uses that are missing from the library are added back to it.
+  const openProject = useCallback(async (id: string, library: Product[]) => {
+    try {
+      const record = await loadProject(id);
+      if (!record) {
+        setLastProjectId(null);
+        return;
+      }
+      const mergedLibrary = [...library];
+      record.products.forEach((stored: StoredProduct) => {
+        if (mergedLibrary.some(p => p.id === stored.id)) return;
+        const restored = toLibraryProduct(stored);
+        mergedLibrary.push(restored);
+        saveLibraryProduct(toStoredProduct(restored)).catch(err => console.error('Could not restore product to the library:', err));
+      });
+
+      setProjectId(record.id);
+      setProjectName(record.name);
+      setProjectCreatedAt(record.createdAt);
+      setSceneVersions(record.sceneVersions);
+      setCurrentVersionId(record.currentVersionId);
+      setBranchTipId(record.branchTipId);
+      setChatHistory(record.chatHistory.map(msg => ({
+        role: msg.role,
+        text: msg.text,
+        imageFile: msg.image,
+        imageUrl: msg.image ? URL.createObjectURL(msg.image) : undefined,
+        versionId: msg.versionId,
+      })));
+      setRegionMask(null);
+      setIsMaskMode(false);
+      setFloorPlane(null);
+      setIsFloorPlaneMode(false);
+      setSceneScale(null);
+      setIsScaleMode(false);
+      clearVariantSets();
+      cancelGeneration('superseded');
+      setProducts(mergedLibrary);
+      setSelectedProductId(record.selectedProductId);
+      setStagedProducts(record.stagedProducts.flatMap(staged => {
+        const product = mergedLibrary.find(p => p.id === staged.productId);
+        if (!product) return [];
+        return [{
+          ...staged,
+          name: product.name,
+          file: product.cutoutFile ?? product.file,
+          imageUrl: product.cutoutUrl ?? product.imageUrl,
+        }];
+      }));
+      setDebugImageUrl(record.debug?.imageUrl ?? null);
+      setDebugPrompt(record.debug?.prompt ?? null);
+      setDebugPlacementReports(record.debug?.placementReports ?? []);
+      setProjectPromptOverrides(record.promptTemplates ?? {});
+      setProjectUsage(record.usage ?? []);
+      setError(null);
+      setSaveStatus('saved');
+      setLastProjectId(record.id);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setError(toAppError(`Could not open the project. Details: ${errorMessage}`, err));
+      console.error(err);
+    }
+  }, [clearVariantSets, cancelGeneration]);
+
+  const handleOpenProject = useCallback((id: string) => openProject(id, products), [openProject, products]);
+
+  const handleDeleteProject = useCallback(async (id: string) => {
+    try {
+      await deleteProject(id);
+    } catch (err) {
+      console.error('Could not delete project:', err);
+    }
+    refreshProjects();
+  }, [refreshProjects]);
+
   const handleReset = useCallback(() => {
     // Revoke any existing object URLs in chat history before clearing
     chatHistory.forEach(msg => {
@@ -243,28 +842,51 @@ const App: React.FC = () => {
             URL.revokeObjectURL(msg.imageUrl);
         }
     });
-    // Let useEffect handle URL revocation
-    setSelectedProduct(null);
-    setProductImageFile(null);
-    setSceneHistory([]);
-    setCurrentSceneIndex(-1);
+    // The product library is kept; only the selection is cleared
+    setSelectedProductId(null);
+    setSceneVersions([]);
+    setCurrentVersionId(null);
+    setBranchTipId(null);
     setChatHistory([]);
     setError(null);
     setIsLoading(false);
-    setPersistedOrbPosition(null);
+    setPersistedOrbPositions([]);
     setDebugImageUrl(null);
     setDebugPrompt(null);
-    setStagedProduct(null);
-  }, [chatHistory]);
+    setDebugPlacementReports([]);
+    setStagedProducts([]);
+    setRegionMask(null);
+    setIsMaskMode(false);
+    setFloorPlane(null);
+    setIsFloorPlaneMode(false);
+    setSceneScale(null);
+    setIsScaleMode(false);
+    clearVariantSets();
+    cancelGeneration('superseded');
+    // Detach from the open project; it stays saved and can be reopened from the picker
+    setProjectId(null);
+    setProjectPromptOverrides({});
+    setProjectUsage([]);
+    setProjectName('');
+    setSaveStatus('idle');
+    setLastProjectId(null);
+    refreshProjects();
+  }, [chatHistory, refreshProjects, clearVariantSets, cancelGeneration]);
+
+  const handleClearResponseCache = useCallback(async () => {
+    try {
+      await clearResponseCache();
+      setCachedResult(null);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setError(toAppError(`Could not clear the stored results. ${errorMessage}`, err));
+      console.error(err);
+    }
+  }, []);
 
   const handleChangeProduct = useCallback(() => {
-    // Let useEffect handle URL revocation
-    setSelectedProduct(null);
-    setProductImageFile(null);
-    setPersistedOrbPosition(null);
-    setDebugImageUrl(null);
-    setDebugPrompt(null);
-    setStagedProduct(null);
+    // Products stay in the library and already staged ones stay staged
+    setSelectedProductId(null);
     // Don't reset scene or chat
   }, []);
   
@@ -275,89 +897,206 @@ const App: React.FC = () => {
             URL.revokeObjectURL(msg.imageUrl);
         }
     });
-    setSceneHistory([]);
-    setCurrentSceneIndex(-1);
+    setSceneVersions([]);
+    setCurrentVersionId(null);
+    setBranchTipId(null);
     setChatHistory([]);
-    setPersistedOrbPosition(null);
+    setPersistedOrbPositions([]);
     setDebugImageUrl(null);
     setDebugPrompt(null);
-    setStagedProduct(null);
-  }, [chatHistory]);
+    setDebugPlacementReports([]);
+    setStagedProducts([]);
+    setRegionMask(null);
+    setIsMaskMode(false);
+    setFloorPlane(null);
+    setIsFloorPlaneMode(false);
+    setSceneScale(null);
+    setIsScaleMode(false);
+    clearVariantSets();
+    cancelGeneration('superseded');
+  }, [chatHistory, clearVariantSets, cancelGeneration]);
+
+  // Offers the chat prompt for review before it is sent, when reviews are turned on
+  const handleChatBeforeSubmit = async (prompt: string, imageContext: 'current' | 'previous', chatImageFile: File | null): Promise<boolean> => {
+    if (!checkBudget()) return false;
+    const baseVersion = imageContext === 'current' ? currentVersion : parentVersion;
+    if (!promptSettings.reviewBeforeSending || !baseVersion) return true;
+    const text = buildChatEditPrompt({
+      request: prompt,
+      hasContentImage: !!chatImageFile,
+      hasRegion: !!regionMask,
+      conversationContext: buildChatContext(chatHistory, sceneVersions, baseVersion.id),
+    }, promptTemplates);
+    return reviewPrompts({ title: 'Review Chat Edit Prompt', prompts: [{ label: 'Chat Edit', text }] });
+  };
 
-  const handleChatSubmit = async (prompt: string, imageContext: 'current' | 'previous', chatImageFile: File | null) => {
-    const imageToEdit = imageContext === 'current' ? sceneImage : previousSceneImage;
-    if (!imageToEdit) {
+  // `useCache` false regenerates the edit even when an identical one is stored
+  const handleChatSubmit = async (prompt: string, imageContext: 'current' | 'previous', chatImageFile: File | null, useCache = true) => {
+    const baseVersion = imageContext === 'current' ? currentVersion : parentVersion;
+    const imageToEdit = baseVersion?.image ?? null;
+    if (!baseVersion || !imageToEdit) {
         updateChatHistory([{ role: 'model', text: "There is no image to edit in that context." }]);
         return;
     }
+    if (!checkBudget()) return;
 
     setIsChatLoading(true);
+    setPipelineProgress(createPipelineProgress());
+    setIsMaskMode(false);
     
-    const userMessage: ChatMessage = { role: 'user', text: prompt };
+    // Summarize the conversation before adding the new request to it
+    const conversationContext = buildChatContext(chatHistory, sceneVersions, baseVersion.id);
+
+    const userMessage: ChatMessage = { role: 'user', text: prompt, versionId: baseVersion.id };
     if (chatImageFile) {
         userMessage.imageUrl = URL.createObjectURL(chatImageFile);
+        userMessage.imageFile = chatImageFile;
     }
     updateChatHistory([userMessage]);
+    const controller = beginGeneration();
 
     try {
-        const { text, imageUrl } = await editImageWithChat(prompt, imageToEdit, chatImageFile);
+        const { text, images, cachedVariantCount } = await editImageWithChat(prompt, imageToEdit, chatImageFile, {
+            regionMask,
+            variantCount,
+            conversationContext,
+            onProgress: handleProgressEvent,
+            signal: controller.signal,
+            templates: promptTemplates,
+            useCache,
+            onUsage: recordUsage('chat-edit', baseVersion.id),
+        });
+        if (controller.signal.aborted) return;
 
         const modelResponses: ChatMessage[] = [];
+        let resultVersion: SceneVersion | null = null;
+        if (images.length > 0) {
+            const newImageFiles = images.map((image, index) => new File([image], `edited-scene-${Date.now()}-${index + 1}.${getImageExtension(image)}`, { type: image.type }));
+            resultVersion = addGeneratedImages(newImageFiles, baseVersion.id, { operation: 'chat-edit', prompt, label: prompt });
+        }
         if (text) {
-            modelResponses.push({ role: 'model', text });
+            modelResponses.push({ role: 'model', text, versionId: resultVersion?.id });
         }
-        if (imageUrl) {
-            const newImageFile = dataURLtoFile(imageUrl, `edited-scene-${Date.now()}.jpeg`);
-            updateSceneImage(newImageFile);
+        if (images.length > 1) {
+            modelResponses.push({ role: 'model', text: `I made ${images.length} variants. Pick the one you like to add it to the scene.` });
         }
-        if (!text && !imageUrl) {
+        if (!text && images.length === 0) {
             modelResponses.push({ role: 'model', text: "I couldn't process that request. Please try again." });
         }
         
         if (modelResponses.length > 0) {
             updateChatHistory(modelResponses);
         }
+        if (cachedVariantCount > 0) {
+            setCachedResult({
+                message: cachedVariantCount === variantCount
+                    ? 'This edit was requested before on the same scene version with the same prompt, so no model calls were made.'
+                    : `${cachedVariantCount} of ${variantCount} variants come from an earlier identical edit.`,
+                regenerate: () => handleChatSubmit(prompt, imageContext, chatImageFile, false),
+            });
+        }
 
     } catch (err) {
+        if (isAbortError(err) || controller.signal.aborted) {
+            if (controller.signal.reason === 'user') {
+                updateChatHistory([{ role: 'model', text: 'Edit cancelled.' }]);
+            }
+            return;
+        }
         const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-        updateChatHistory([{ role: 'model', text: `Error: ${errorMessage}` }]);
+        const errorTitle = err instanceof ModelError ? MODEL_ERROR_DETAILS[err.kind].title : 'Error';
+        updateChatHistory([{ role: 'model', text: `${errorTitle}: ${errorMessage}` }]);
         console.error(err);
     } finally {
-        setIsChatLoading(false);
+        // A superseding request owns the loading state from here on
+        if (generationAbortRef.current === controller || generationAbortRef.current === null) {
+            generationAbortRef.current = null;
+            setIsChatLoading(false);
+            setPipelineProgress(null);
+        }
     }
   };
 
+  // Measure how much of each staged cut-out is product, so the gizmo can be shown true to size
+  const stagedImageUrls = stagedProducts.map(staged => staged.imageUrl).join('\n');
   useEffect(() => {
-    // Clean up the scene's object URL when the component unmounts or the URL changes
-    return () => {
-        if (sceneImageUrl) URL.revokeObjectURL(sceneImageUrl);
-    };
-  }, [sceneImageUrl]);
-  
+    const unmeasured = stagedImageUrls
+      .split('\n')
+      .filter((url, index, urls) => url && urls.indexOf(url) === index && !(url in imageContentWidths));
+    unmeasured.forEach(url => {
+      loadImageFromUrl(url)
+        .then(img => setImageContentWidths(prev => ({ ...prev, [url]: opaqueWidthFraction(img) })))
+        .catch(err => console.error('Could not measure product cut-out:', err));
+    });
+  }, [stagedImageUrls, imageContentWidths]);
+
+  // Load the product library, then resume the last opened project on startup
   useEffect(() => {
-    // Clean up the product's object URL when the component unmounts or the URL changes
-    return () => {
-        if (productImageUrl && productImageUrl.startsWith('blob:')) {
-            URL.revokeObjectURL(productImageUrl);
-        }
+    refreshProjects();
+    const restore = async () => {
+      let library: Product[] = [];
+      try {
+        library = (await listLibraryProducts()).map(toLibraryProduct);
+        setProducts(library);
+      } catch (err) {
+        console.error('Could not load the product library:', err);
+      }
+      const lastProjectId = getLastProjectId();
+      if (lastProjectId) {
+        await openProject(lastProjectId, library);
+      }
     };
-  }, [productImageUrl]);
+    restore();
+  }, [refreshProjects, openProject]);
 
+  // Autosave the open project shortly after any persisted state changes
   useEffect(() => {
-    let interval: ReturnType<typeof setInterval> | undefined;
-    if (isLoading) {
-        setLoadingMessageIndex(0); // Reset on start
-        interval = setInterval(() => {
-            setLoadingMessageIndex(prevIndex => (prevIndex + 1) % loadingMessages.length);
-        }, 3000);
-    }
+    if (!projectId || !sceneImage) return;
+    setSaveStatus('saving');
+    const timeout = setTimeout(async () => {
+      // Keep a copy of every product the project uses so it opens even if the library changes
+      const projectProducts: StoredProduct[] = products
+        .filter(p => p.id === selectedProductId || stagedProducts.some(staged => staged.productId === p.id))
+        .map(toStoredProduct);
+      const record: ProjectRecord = {
+        id: projectId,
+        name: projectName.trim() || 'Untitled project',
+        createdAt: projectCreatedAt || Date.now(),
+        updatedAt: Date.now(),
+        thumbnail: sceneImage,
+        sceneVersions,
+        currentVersionId,
+        branchTipId,
+        chatHistory: chatHistory.map(msg => ({ role: msg.role, text: msg.text, image: msg.imageFile, versionId: msg.versionId })),
+        products: projectProducts,
+        selectedProductId,
+        stagedProducts: stagedProducts.map(({ id, productId, x, y, xPercent, yPercent, scale, rotation, flipHorizontal, width }) => (
+          { id, productId, x, y, xPercent, yPercent, scale, rotation, flipHorizontal, width }
+        )),
+        debug: debugImageUrl ? { imageUrl: debugImageUrl, prompt: debugPrompt, placementReports: debugPlacementReports } : null,
+        promptTemplates: projectPromptOverrides,
+        usage: projectUsage,
+      };
+      try {
+        await saveProject(record);
+        setSaveStatus('saved');
+      } catch (err) {
+        console.error('Autosave failed:', err);
+        setSaveStatus('error');
+      }
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [projectId, projectName, projectCreatedAt, sceneImage, sceneVersions, currentVersionId, branchTipId, chatHistory, products, selectedProductId, stagedProducts, debugImageUrl, debugPrompt, debugPlacementReports, projectPromptOverrides, projectUsage]);
+
+  useEffect(() => {
+    // Clean up the scene's object URL when the component unmounts or the URL changes
     return () => {
-        if (interval) clearInterval(interval);
+        if (sceneImageUrl) URL.revokeObjectURL(sceneImageUrl);
     };
-  }, [isLoading]);
-
+  }, [sceneImageUrl]);
+  
   const handleTouchStart = (e: React.TouchEvent) => {
-    if (!selectedProduct || stagedProduct) return;
+    if (!selectedProduct) return;
     // Prevent page scroll
     e.preventDefault();
     setIsTouchDragging(true);
@@ -446,21 +1185,6 @@ const App: React.FC = () => {
   }, [isTouchDragging, handleProductDrop]);
 
   const renderContent = () => {
-    if (error) {
-       return (
-           <div className="text-center animate-fade-in bg-red-50 border border-red-200 p-8 rounded-lg max-w-2xl mx-auto">
-            <h2 className="text-3xl font-extrabold mb-4 text-red-800">An Error Occurred</h2>
-            <p className="text-lg text-red-700 mb-6">{error}</p>
-            <button
-                onClick={handleReset}
-                className="bg-red-600 hover:bg-red-700 text-white font-bold py-3 px-8 rounded-lg text-lg transition-colors"
-              >
-                Try Again
-            </button>
-          </div>
-        );
-    }
-    
     if (!sceneImage) {
       return (
         <div className="w-full max-w-6xl mx-auto animate-fade-in">
@@ -500,12 +1224,23 @@ const App: React.FC = () => {
               You can upload a product now or after you've edited the scene.
             </p>
           </div>
+          <ProjectPicker
+            projects={projects}
+            onOpen={handleOpenProject}
+            onDelete={handleDeleteProject}
+          />
         </div>
       );
     }
 
     return (
       <div className="w-full max-w-7xl mx-auto animate-fade-in">
+        <ProjectBar
+          name={projectName}
+          saveStatus={saveStatus}
+          onRename={setProjectName}
+          onShowProjects={handleReset}
+        />
         <div className="grid grid-cols-1 md:grid-cols-3 gap-8 items-stretch">
           {/* Product Column */}
           <div className="md:col-span-1 flex flex-col">
@@ -516,29 +1251,39 @@ const App: React.FC = () => {
               <>
                 <div className="flex-grow flex items-center justify-center">
                   <div 
-                      draggable={!stagedProduct} 
+                      draggable
                       onDragStart={(e) => {
-                          if (stagedProduct) {
-                            e.preventDefault();
-                            return;
-                          }
                           e.dataTransfer.effectAllowed = 'move';
                           e.dataTransfer.setDragImage(transparentDragImage, 0, 0);
                       }}
                       onTouchStart={handleTouchStart}
-                      className={`cursor-move w-full max-w-xs ${stagedProduct ? 'opacity-50' : ''}`}
+                      className="cursor-move w-full max-w-xs"
                   >
-                      <ObjectCard product={selectedProduct} isSelected={true} />
+                      <ObjectCard product={selectedProduct} isSelected={true} isPreparing={preparingProductIds.includes(selectedProduct.id)} />
                   </div>
                 </div>
                 <div className="text-center mt-4">
-                  <div className="h-5 flex items-center justify-center">
+                  <div className="h-5 flex items-center justify-center gap-4">
                     <button
                         onClick={handleChangeProduct}
                         className="text-sm text-blue-600 hover:text-blue-800 font-semibold"
                     >
                         Change Product
                     </button>
+                    <button
+                        onClick={() => setMaskEditorProductId(selectedProduct.id)}
+                        disabled={preparingProductIds.includes(selectedProduct.id)}
+                        className="text-sm text-blue-600 hover:text-blue-800 font-semibold disabled:opacity-50"
+                    >
+                        Refine Cut-out
+                    </button>
+                  </div>
+                  <div className="mt-4 max-w-xs mx-auto text-left">
+                    <DimensionsFields
+                      key={selectedProduct.id}
+                      dimensions={selectedProduct.dimensions}
+                      onChange={(dimensions) => handleProductDimensionsChange(selectedProduct, dimensions)}
+                    />
                   </div>
                 </div>
               </>
@@ -559,9 +1304,9 @@ const App: React.FC = () => {
                   id="scene-uploader" 
                   onFileSelect={setSceneFile} 
                   imageUrl={sceneImageUrl}
-                  isDropZone={!!productImageFile && !isLoading && !stagedProduct}
+                  isDropZone={!!productImageFile && !isLoading && !isMaskMode && !isFloorPlaneMode && !isScaleMode}
                   onProductDrop={handleProductDrop}
-                  persistedOrbPosition={persistedOrbPosition}
+                  persistedOrbPositions={persistedOrbPositions}
                   showDebugButton={!!debugImageUrl && !isLoading}
                   onDebugClick={() => setIsDebugModalOpen(true)}
                   isTouchHovering={isHoveringDropZone}
@@ -570,19 +1315,37 @@ const App: React.FC = () => {
                   onRedo={handleSceneRedo}
                   canUndo={canSceneUndo}
                   canRedo={canSceneRedo}
+                  isMaskMode={isMaskMode && !hasStagedProducts}
+                  regionMask={regionMask}
+                  onRegionMaskChange={setRegionMask}
+                  onMaskModeDone={() => setIsMaskMode(false)}
+                  floorPlane={floorPlane}
+                  isFloorPlaneMode={isFloorPlaneMode && !isLoading}
+                  isEstimatingFloorPlane={isEstimatingFloorPlane}
+                  footprints={stagedProducts.map(getStagedFootprint).filter((footprint): footprint is PlanePoint[] => !!footprint)}
+                  onFloorPlaneChange={setFloorPlane}
+                  onEstimateFloorPlane={handleEstimateFloorPlane}
+                  onFloorPlaneModeDone={() => setIsFloorPlaneMode(false)}
+                  sceneScale={sceneScale}
+                  isScaleMode={isScaleMode && !isLoading}
+                  onSceneScaleChange={setSceneScale}
+                  onScaleModeDone={() => setIsScaleMode(false)}
               />
-              {stagedProduct && sceneContainerRef.current && (
+              {sceneContainerRef.current && stagedProducts.map((staged, index) => (
                 <PlacementGizmo
-                  bounds={sceneContainerRef.current.getBoundingClientRect()}
-                  product={stagedProduct}
-                  onUpdate={handlePlacementUpdate}
+                  key={staged.id}
+                  bounds={sceneContainerRef.current!.getBoundingClientRect()}
+                  product={staged}
+                  label={stagedProducts.length > 1 ? String(index + 1) : undefined}
+                  baseScale={getStagedBaseScale(staged)}
+                  onUpdate={(updates) => handlePlacementUpdate(staged.id, updates)}
                   onConfirm={handlePlacementConfirm}
-                  onCancel={handlePlacementCancel}
+                  onCancel={() => handlePlacementCancel(staged.id)}
                 />
-              )}
+              ))}
             </div>
             <div className="text-center mt-4">
-              <div className="h-5 flex items-center justify-center">
+              <div className="h-5 flex items-center justify-center gap-4">
                 {sceneImage && !isLoading && (
                   <button
                       onClick={handleChangeScene}
@@ -591,21 +1354,119 @@ const App: React.FC = () => {
                       Change Scene
                   </button>
                 )}
+                {sceneImage && !isLoading && (
+                  <button
+                      onClick={() => setIsExportPanelOpen(true)}
+                      className="text-sm text-blue-600 hover:text-blue-800 font-semibold"
+                  >
+                      Export
+                  </button>
+                )}
+                {sceneImage && !isLoading && (
+                  <button
+                      onClick={() => setIsPromptEditorOpen(true)}
+                      className="text-sm text-blue-600 hover:text-blue-800 font-semibold"
+                  >
+                      Prompts
+                  </button>
+                )}
+                {sceneImage && !isLoading && (
+                  <button
+                      onClick={() => setIsUsagePanelOpen(true)}
+                      className="text-sm text-blue-600 hover:text-blue-800 font-semibold"
+                  >
+                      Usage{usageLedger.length > 0 && ` (${formatCost(usageLedgerTotals.costUsd)})`}
+                  </button>
+                )}
+                {sceneVersions.length > 1 && !isLoading && (
+                  <button
+                      onClick={() => setIsCompareOpen(true)}
+                      className="text-sm text-blue-600 hover:text-blue-800 font-semibold"
+                  >
+                      Compare
+                  </button>
+                )}
+                {sceneImage && !isLoading && (
+                  <button
+                      onClick={() => {
+                        setIsMaskMode(false);
+                        setIsScaleMode(false);
+                        if (!isFloorPlaneMode && !floorPlane) setFloorPlane(DEFAULT_FLOOR_QUAD);
+                        setIsFloorPlaneMode(!isFloorPlaneMode);
+                      }}
+                      className="text-sm text-blue-600 hover:text-blue-800 font-semibold"
+                  >
+                      {floorPlane ? 'Edit Floor' : 'Mark Floor'}
+                  </button>
+                )}
+                {sceneImage && !isLoading && (
+                  <button
+                      onClick={() => {
+                        setIsMaskMode(false);
+                        setIsFloorPlaneMode(false);
+                        setIsScaleMode(!isScaleMode);
+                      }}
+                      className="text-sm text-blue-600 hover:text-blue-800 font-semibold"
+                  >
+                      {sceneScale ? 'Edit Scale' : 'Set Scale'}
+                  </button>
+                )}
+                {variantSets.length > 0 && !isLoading && (
+                  <button
+                      onClick={() => setIsVariantPickerOpen(true)}
+                      className="text-sm text-blue-600 hover:text-blue-800 font-semibold"
+                  >
+                      Variants ({variantSets.length})
+                  </button>
+                )}
               </div>
             </div>
+            <HistoryPanel
+              versions={sceneVersions}
+              currentVersionId={currentVersionId}
+              onSelect={handleSelectVersion}
+              disabled={isLoading || isChatLoading}
+            />
           </div>
         </div>
+        <div className="mt-10">
+          <h2 className="text-2xl font-extrabold text-center mb-3 text-zinc-800">Product Library</h2>
+          {products.length === 0 && (
+            <p className="text-center text-zinc-500 text-sm">Your library is empty. Add products to reuse them in any project.</p>
+          )}
+          <ProductSelector
+            products={products}
+            selectedProductId={selectedProductId}
+            onSelect={(product) => setSelectedProductId(product.id)}
+            onAddOwnProductClick={() => setIsAddProductModalOpen(true)}
+            onRemove={handleRemoveProduct}
+            onProductDragStart={(product, e) => {
+              setSelectedProductId(product.id);
+              e.dataTransfer.effectAllowed = 'move';
+              e.dataTransfer.setDragImage(transparentDragImage, 0, 0);
+            }}
+          />
+        </div>
         <div className="text-center mt-10 min-h-[8rem] flex flex-col justify-center items-center">
            {isLoading ? (
-             <div className="animate-fade-in">
-                <Spinner />
-                <p className="text-xl mt-4 text-zinc-600 transition-opacity duration-500">{loadingMessages[loadingMessageIndex]}</p>
-             </div>
+             pipelineProgress ? <PipelineProgressView progress={pipelineProgress} onCancel={() => cancelGeneration()} /> : <Spinner />
            ) : (
             <div className="w-full">
-              {stagedProduct ? (
+              <VariantCountSelector
+                value={variantCount}
+                onChange={setVariantCount}
+                disabled={isChatLoading}
+              />
+              {hasStagedProducts && (
+                <PlacementCheckSelector
+                  value={placementCheckSettings}
+                  onChange={setPlacementCheckSettings}
+                  disabled={isChatLoading}
+                />
+              )}
+              {hasStagedProducts ? (
                  <p className="text-zinc-500 animate-fade-in mb-4">
-                    Adjust the product's position and scale, then confirm your placement.
+                    Adjust each product's position, scale, turn and flip, drag in more products if you like, then confirm to place them all at once.
                 </p>
               ) : productImageFile ? (
                 <p className="text-zinc-500 animate-fade-in mb-4">
@@ -616,14 +1477,29 @@ const App: React.FC = () => {
                   Use the chatbot to edit the scene, or upload a product to place it.
                 </p>
               )}
-              {!stagedProduct && (
+              {!hasStagedProducts && (
                 <Chat 
                   onChatSubmit={handleChatSubmit} 
+                  onBeforeSubmit={handleChatBeforeSubmit}
                   isLoading={isChatLoading} 
                   history={chatHistory} 
                   hasPreviousImage={!!previousSceneImage}
+                  isMaskMode={isMaskMode}
+                  hasRegionMask={!!regionMask}
+                  onToggleMaskMode={() => {
+                    setIsFloorPlaneMode(false);
+                    setIsScaleMode(false);
+                    setIsMaskMode(prev => !prev);
+                  }}
+                  onClearRegionMask={() => setRegionMask(null)}
+                  onCancel={() => cancelGeneration()}
                 />
               )}
+              {isChatLoading && pipelineProgress && (
+                <div className="mt-4">
+                  <PipelineProgressView progress={pipelineProgress} compact />
+                </div>
+              )}
             </div>
            )}
         </div>
@@ -640,14 +1516,88 @@ const App: React.FC = () => {
       <div className="flex flex-col items-center gap-8 w-full">
         <Header />
         <main className="w-full">
+          <ErrorBanner error={error} onDismiss={() => setError(null)} />
+          <CachedResultNotice
+            result={cachedResult}
+            disabled={isLoading || isChatLoading}
+            onDismiss={() => setCachedResult(null)}
+            onClearCache={handleClearResponseCache}
+          />
           {renderContent()}
         </main>
       </div>
+      <MaskEditor
+        product={products.find(p => p.id === maskEditorProductId) ?? null}
+        onClose={() => setMaskEditorProductId(null)}
+        onSave={(cutoutFile) => {
+          const product = products.find(p => p.id === maskEditorProductId);
+          if (product) updateProductCutout(product, cutoutFile);
+          setMaskEditorProductId(null);
+        }}
+      />
+      <AddProductModal
+        isOpen={isAddProductModalOpen}
+        onClose={() => setIsAddProductModalOpen(false)}
+        onAdd={handleAddProduct}
+      />
+      <ExportPanel
+        isOpen={isExportPanelOpen}
+        onClose={() => setIsExportPanelOpen(false)}
+        versions={sceneVersions}
+        currentVersion={currentVersion}
+        projectName={projectName}
+      />
+      <CompareView
+        isOpen={isCompareOpen}
+        onClose={() => setIsCompareOpen(false)}
+        versions={sceneVersions}
+        initialBeforeId={parentVersion?.id ?? sceneVersions[0]?.id ?? null}
+        initialAfterId={currentVersionId}
+      />
+      <VariantPicker
+        isOpen={isVariantPickerOpen}
+        onClose={() => setIsVariantPickerOpen(false)}
+        variantSets={variantSets}
+        onPick={handleVariantPick}
+      />
+      <PromptTemplateEditor
+        isOpen={isPromptEditorOpen}
+        onClose={() => setIsPromptEditorOpen(false)}
+        userOverrides={promptSettings.overrides}
+        projectOverrides={projectPromptOverrides}
+        hasProject={!!projectId}
+        reviewBeforeSending={promptSettings.reviewBeforeSending}
+        onUserOverridesChange={(overrides) => setPromptSettings(prev => ({ ...prev, overrides }))}
+        onProjectOverridesChange={setProjectPromptOverrides}
+        onReviewBeforeSendingChange={(reviewBeforeSending) => setPromptSettings(prev => ({ ...prev, reviewBeforeSending }))}
+      />
+      <UsagePanel
+        isOpen={isUsagePanelOpen}
+        onClose={() => setIsUsagePanelOpen(false)}
+        sessionRecords={sessionUsage}
+        ledgerRecords={usageLedger}
+        onResetLedger={() => setUsageLedger([])}
+        projectRecords={projectUsage}
+        hasProject={!!projectId}
+        versions={sceneVersions}
+        budgetUsd={usageSettings.budgetUsd}
+        onBudgetChange={(budgetUsd) => setUsageSettings({ budgetUsd })}
+      />
+      <PromptReviewModal
+        review={promptReview}
+        onSend={() => closePromptReview(true)}
+        onCancel={() => closePromptReview(false)}
+        onEditTemplates={() => {
+          closePromptReview(false);
+          setIsPromptEditorOpen(true);
+        }}
+      />
       <DebugModal 
         isOpen={isDebugModalOpen} 
         onClose={() => setIsDebugModalOpen(false)}
         imageUrl={debugImageUrl}
         prompt={debugPrompt}
+        placementReports={debugPlacementReports}
       />
     </div>
   );
@@ -2,13 +2,16 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import ImageUploader from './ImageUploader';
+import DimensionsFields from './DimensionsFields';
+import { ProductDimensions } from './types';
+import { parseTags } from '../services/productLibrary';
 
 interface AddProductModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onFileSelect: (file: File) => void;
+  onAdd: (product: { file: File; name: string; tags: string[]; dimensions: ProductDimensions | null }) => void;
 }
 
 const CloseIcon = () => (
@@ -17,7 +20,36 @@ const CloseIcon = () => (
     </svg>
 );
 
-const AddProductModal: React.FC<AddProductModalProps> = ({ isOpen, onClose, onFileSelect }) => {
+// Use the file name without its extension as a starting point for the product name.
+const defaultNameFromFile = (file: File) => file.name.replace(/\.[^.]+$/, '').replace(/[-_]+/g, ' ').trim();
+
+const AddProductModal: React.FC<AddProductModalProps> = ({ isOpen, onClose, onAdd }) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [tagsInput, setTagsInput] = useState('');
+  const [dimensions, setDimensions] = useState<ProductDimensions | null>(null);
+
+  // Start fresh every time the modal is opened
+  useEffect(() => {
+    if (!isOpen) {
+      setFile(null);
+      setName('');
+      setTagsInput('');
+      setDimensions(null);
+    }
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!file) {
+      setPreviewUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(file);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
   if (!isOpen) {
     return null;
   }
@@ -26,11 +58,19 @@ const AddProductModal: React.FC<AddProductModalProps> = ({ isOpen, onClose, onFi
     e.stopPropagation();
   };
   
-  const handleFileUploaded = (file: File) => {
-      onFileSelect(file);
-      // No need to call onClose here, as the parent component will handle it 
-      // in the onFileSelect callback for better state flow control.
-  }
+  const handleFileUploaded = (uploaded: File) => {
+      setFile(uploaded);
+      if (!name) {
+        setName(defaultNameFromFile(uploaded));
+      }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file || !name.trim()) return;
+    // The parent closes the modal once the product is in the library
+    onAdd({ file, name: name.trim(), tags: parseTags(tagsInput), dimensions });
+  };
 
   return (
     <div 
@@ -54,7 +94,38 @@ const AddProductModal: React.FC<AddProductModalProps> = ({ isOpen, onClose, onFi
         <div className="text-center">
           <h2 className="text-2xl font-extrabold mb-4 text-zinc-800">Add Your Own Product</h2>
         </div>
-        <ImageUploader id="custom-product-uploader" onFileSelect={onFileSelect} imageUrl={null} />
+        <form onSubmit={handleSubmit} className="flex flex-col gap-4">
+          <ImageUploader id="custom-product-uploader" onFileSelect={handleFileUploaded} imageUrl={previewUrl} />
+          <label className="flex flex-col gap-1 text-sm font-medium text-zinc-700">
+            Name
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Oak side table"
+              className="p-2 border border-zinc-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 font-normal"
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-sm font-medium text-zinc-700">
+            Tags
+            <input
+              type="text"
+              value={tagsInput}
+              onChange={(e) => setTagsInput(e.target.value)}
+              placeholder="Comma separated, e.g. table, living room"
+              className="p-2 border border-zinc-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 font-normal"
+            />
+          </label>
+          {/* Remounted with the modal so the fields start empty */}
+          <DimensionsFields dimensions={null} onChange={setDimensions} />
+          <button
+            type="submit"
+            disabled={!file || !name.trim()}
+            className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-6 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Add to Library
+          </button>
+        </form>
       </div>
     </div>
   );
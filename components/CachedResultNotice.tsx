@@ -0,0 +1,72 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+
+export interface CachedResult {
+  message: string;
+  // Runs the same request again without the cache
+  regenerate: () => void;
+}
+
+interface CachedResultNoticeProps {
+  result: CachedResult | null;
+  // Regenerating is unavailable while another request runs
+  disabled?: boolean;
+  onDismiss: () => void;
+  onClearCache: () => void;
+}
+
+const StoredIcon = () => (
+  <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 7v10c0 2.21 3.582 4 8 4s8-1.79 8-4V7M4 7c0 2.21 3.582 4 8 4s8-1.79 8-4M4 7c0-2.21 3.582-4 8-4s8 1.79 8 4" />
+  </svg>
+);
+
+const CloseIcon = () => (
+  <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+  </svg>
+);
+
+const CachedResultNotice: React.FC<CachedResultNoticeProps> = ({ result, disabled = false, onDismiss, onClearCache }) => {
+  if (!result) {
+    return null;
+  }
+
+  return (
+    <div role="status" className="w-full max-w-4xl mx-auto mb-6 flex items-start gap-3 bg-blue-50 border border-blue-200 text-blue-800 p-4 rounded-lg animate-fade-in">
+      <StoredIcon />
+      <div className="flex-grow min-w-0">
+        <p className="font-bold">Reused a stored result</p>
+        <p className="text-sm text-blue-700 break-words">{result.message}</p>
+        <div className="mt-2 flex flex-wrap items-center gap-3">
+          <button
+            onClick={result.regenerate}
+            disabled={disabled}
+            className="px-3 py-1.5 text-sm font-semibold rounded-md bg-blue-600 text-white hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Regenerate Anyway
+          </button>
+          <button
+            onClick={onClearCache}
+            className="text-sm text-blue-700 hover:text-blue-900 underline"
+          >
+            Clear stored results
+          </button>
+        </div>
+      </div>
+      <button
+        onClick={onDismiss}
+        className="p-1 rounded-full text-blue-700 hover:bg-blue-100 transition-colors"
+        aria-label="Dismiss notice"
+      >
+        <CloseIcon />
+      </button>
+    </div>
+  );
+};
+
+export default CachedResultNotice;
@@ -4,18 +4,20 @@
 */
 
 import React, { useState, useEffect, useRef } from 'react';
-
-interface ChatMessage {
-    role: 'user' | 'model';
-    text: string;
-    imageUrl?: string;
-}
+import { ChatMessage } from './types';
 
 interface ChatProps {
     onChatSubmit: (prompt: string, imageContext: 'current' | 'previous', chatImageFile: File | null) => void;
+    // Asked before submitting; resolving to false keeps the draft unsent (e.g. when a prompt review is cancelled).
+    onBeforeSubmit?: (prompt: string, imageContext: 'current' | 'previous', chatImageFile: File | null) => Promise<boolean>;
     isLoading: boolean;
     history: ChatMessage[];
     hasPreviousImage: boolean;
+    isMaskMode: boolean;
+    hasRegionMask: boolean;
+    onToggleMaskMode: () => void;
+    onClearRegionMask: () => void;
+    onCancel: () => void;
 }
 
 const SendIcon = () => (
@@ -30,6 +32,12 @@ const AttachmentIcon = () => (
     </svg>
 );
 
+const BrushIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+        <path strokeLinecap="round" strokeLinejoin="round" d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
+    </svg>
+);
+
 const CloseIcon = () => (
     <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
         <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
@@ -37,7 +45,7 @@ const CloseIcon = () => (
 );
 
 
-const Chat: React.FC<ChatProps> = ({ onChatSubmit, isLoading, history, hasPreviousImage }) => {
+const Chat: React.FC<ChatProps> = ({ onChatSubmit, onBeforeSubmit, isLoading, history, hasPreviousImage, isMaskMode, hasRegionMask, onToggleMaskMode, onClearRegionMask, onCancel }) => {
     const [message, setMessage] = useState('');
     const [imageContext, setImageContext] = useState<'current' | 'previous'>('current');
     const [chatImageFile, setChatImageFile] = useState<File | null>(null);
@@ -56,9 +64,12 @@ const Chat: React.FC<ChatProps> = ({ onChatSubmit, isLoading, history, hasPrevio
         }
     }, [hasPreviousImage, imageContext]);
     
-    const handleSubmit = (e: React.FormEvent) => {
+    const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         if (message.trim() && !isLoading) {
+            if (onBeforeSubmit && !(await onBeforeSubmit(message, imageContext, chatImageFile))) {
+                return;
+            }
             onChatSubmit(message, imageContext, chatImageFile);
             setMessage('');
             setChatImageFile(null);
@@ -117,7 +128,19 @@ const Chat: React.FC<ChatProps> = ({ onChatSubmit, isLoading, history, hasPrevio
                         <span className="text-sm font-medium text-zinc-600">Edit Image:</span>
                         <button type="button" onClick={() => setImageContext('current')} className={`${baseButtonClasses} ${imageContext === 'current' ? activeButtonClasses : inactiveButtonClasses}`} disabled={isLoading}>Current</button>
                         <button type="button" onClick={() => setImageContext('previous')} className={`${baseButtonClasses} ${imageContext === 'previous' ? activeButtonClasses : inactiveButtonClasses}`} disabled={!hasPreviousImage || isLoading}>Previous</button>
+                        <button type="button" onClick={onToggleMaskMode} className={`${baseButtonClasses} ${isMaskMode ? activeButtonClasses : inactiveButtonClasses} flex items-center gap-1.5`} disabled={isLoading} aria-pressed={isMaskMode}>
+                            <BrushIcon />
+                            {isMaskMode ? 'Painting...' : 'Select Region'}
+                        </button>
                     </div>
+                    {hasRegionMask && (
+                        <div className="mb-2 flex items-center justify-between bg-red-50 text-red-800 text-sm font-medium px-3 py-1.5 rounded-lg animate-fade-in">
+                            <span>Only the painted region will be edited</span>
+                            <button onClick={onClearRegionMask} type="button" className="ml-2 p-1 rounded-full hover:bg-red-100" aria-label="Clear edit region">
+                                <CloseIcon />
+                            </button>
+                        </div>
+                    )}
                     {chatImageFile && (
                         <div className="mb-2 flex items-center justify-between bg-blue-100 text-blue-800 text-sm font-medium px-3 py-1.5 rounded-lg animate-fade-in">
                             <span>{chatImageFile.name}</span>
@@ -147,9 +170,16 @@ const Chat: React.FC<ChatProps> = ({ onChatSubmit, isLoading, history, hasPrevio
                             disabled={isLoading}
                             aria-label="Chat input for image editing"
                         />
-                        <button type="submit" className="bg-blue-600 text-white p-2.5 rounded-md hover:bg-blue-700 disabled:bg-blue-300 transition flex items-center justify-center h-10 w-10" disabled={isLoading || !message.trim()} aria-label="Send chat message">
-                            {isLoading ? <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin"></div> : <SendIcon />}
-                        </button>
+                        {isLoading ? (
+                            <button type="button" onClick={onCancel} className="bg-zinc-200 text-zinc-700 px-3 rounded-md hover:bg-zinc-300 transition flex items-center justify-center gap-2 h-10 text-sm font-semibold" aria-label="Cancel edit">
+                                <div className="w-4 h-4 border-2 border-zinc-500 border-t-transparent rounded-full animate-spin"></div>
+                                Cancel
+                            </button>
+                        ) : (
+                            <button type="submit" className="bg-blue-600 text-white p-2.5 rounded-md hover:bg-blue-700 disabled:bg-blue-300 transition flex items-center justify-center h-10 w-10" disabled={!message.trim()} aria-label="Send chat message">
+                                <SendIcon />
+                            </button>
+                        )}
                     </div>
                 </form>
             </div>
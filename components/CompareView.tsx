@@ -0,0 +1,234 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { SceneVersion } from './types';
+import { findVersion, flattenVersionTree } from '../services/versionTree';
+import { DifferenceHeatmap, renderDifferenceHeatmap } from '../services/imageDiff';
+import Spinner from './Spinner';
+
+interface CompareViewProps {
+  isOpen: boolean;
+  onClose: () => void;
+  versions: SceneVersion[];
+  // Versions selected when the view opens; either can be changed inside the view
+  initialBeforeId: string | null;
+  initialAfterId: string | null;
+}
+
+type CompareMode = 'split' | 'onion' | 'difference';
+
+const MODES: { value: CompareMode; label: string }[] = [
+  { value: 'split', label: 'Split' },
+  { value: 'onion', label: 'Onion Skin' },
+  { value: 'difference', label: 'Difference' },
+];
+
+const CloseIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+    </svg>
+);
+
+// Object URL for a version's image, revoked when the version changes
+const useVersionImageUrl = (version: SceneVersion | null) => {
+  const [url, setUrl] = useState<string | null>(null);
+  useEffect(() => {
+    if (!version) {
+      setUrl(null);
+      return;
+    }
+    const objectUrl = URL.createObjectURL(version.image);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [version]);
+  return url;
+};
+
+const CompareView: React.FC<CompareViewProps> = ({ isOpen, onClose, versions, initialBeforeId, initialAfterId }) => {
+  const [beforeId, setBeforeId] = useState<string | null>(initialBeforeId);
+  const [afterId, setAfterId] = useState<string | null>(initialAfterId);
+  const [mode, setMode] = useState<CompareMode>('split');
+  const [splitPercent, setSplitPercent] = useState(50);
+  const [onionOpacity, setOnionOpacity] = useState(50);
+  const [heatmap, setHeatmap] = useState<DifferenceHeatmap | null>(null);
+  const [heatmapError, setHeatmapError] = useState<string | null>(null);
+  const stageRef = useRef<HTMLDivElement>(null);
+  const isDraggingRef = useRef(false);
+
+  const rows = useMemo(() => flattenVersionTree(versions), [versions]);
+  const beforeVersion = findVersion(versions, beforeId);
+  const afterVersion = findVersion(versions, afterId);
+  const beforeUrl = useVersionImageUrl(isOpen ? beforeVersion : null);
+  const afterUrl = useVersionImageUrl(isOpen ? afterVersion : null);
+
+  // Start from the caller's selection each time the view is opened
+  useEffect(() => {
+    if (isOpen) {
+      setBeforeId(initialBeforeId);
+      setAfterId(initialAfterId);
+      setSplitPercent(50);
+    }
+  }, [isOpen, initialBeforeId, initialAfterId]);
+
+  useEffect(() => {
+    if (!isOpen || mode !== 'difference' || !beforeVersion || !afterVersion) return;
+    let cancelled = false;
+    setHeatmap(null);
+    setHeatmapError(null);
+    renderDifferenceHeatmap(beforeVersion.image, afterVersion.image)
+      .then(result => { if (!cancelled) setHeatmap(result); })
+      .catch(err => {
+        console.error('Could not compute the difference:', err);
+        if (!cancelled) setHeatmapError(err instanceof Error ? err.message : 'An unknown error occurred.');
+      });
+    return () => { cancelled = true; };
+  }, [isOpen, mode, beforeVersion, afterVersion]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const updateSplit = (clientX: number) => {
+    const rect = stageRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return;
+    setSplitPercent(Math.min(100, Math.max(0, ((clientX - rect.left) / rect.width) * 100)));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (mode !== 'split') return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    isDraggingRef.current = true;
+    updateSplit(e.clientX);
+  };
+
+  const versionSelect = (label: string, value: string | null, onChange: (id: string) => void) => (
+    <label className="flex flex-col gap-1 text-sm font-medium text-zinc-600 flex-1 min-w-0">
+      {label}
+      <select
+        value={value ?? ''}
+        onChange={(e) => onChange(e.target.value)}
+        className="p-2 border border-zinc-300 rounded-md bg-white text-zinc-800 font-normal focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+      >
+        {rows.map(({ version, depth }) => (
+          <option key={version.id} value={version.id}>
+            {`${'\u00a0\u00a0'.repeat(depth * 2)}${version.label}`}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+
+  const imageClasses = "absolute inset-0 w-full h-full object-contain pointer-events-none select-none";
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-75 z-50 flex items-center justify-center p-4 animate-fade-in"
+      onClick={onClose}
+      aria-modal="true"
+      role="dialog"
+    >
+      <div
+        className="bg-white rounded-xl shadow-2xl w-full max-w-5xl p-6 md:p-8 relative flex flex-col gap-5 max-h-full overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+        role="document"
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-zinc-500 hover:text-zinc-800 transition-colors z-10"
+          aria-label="Close modal"
+        >
+          <CloseIcon />
+        </button>
+        <div className="text-center">
+          <h2 className="text-2xl font-extrabold text-zinc-800">Compare Versions</h2>
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-3">
+          {versionSelect('Before', beforeId, setBeforeId)}
+          {versionSelect('After', afterId, setAfterId)}
+        </div>
+
+        <div className="flex items-center justify-center gap-2">
+          {MODES.map(({ value, label }) => (
+            <button
+              key={value}
+              onClick={() => setMode(value)}
+              className={`px-4 py-1.5 text-sm font-semibold rounded-lg border transition-colors ${mode === value ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-zinc-700 border-zinc-300 hover:bg-zinc-50'}`}
+              aria-pressed={mode === value}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        <div
+          ref={stageRef}
+          className={`relative w-full aspect-video bg-zinc-100 rounded-lg overflow-hidden touch-none ${mode === 'split' ? 'cursor-ew-resize' : ''}`}
+          onPointerDown={handlePointerDown}
+          onPointerMove={(e) => isDraggingRef.current && updateSplit(e.clientX)}
+          onPointerUp={() => { isDraggingRef.current = false; }}
+          onPointerCancel={() => { isDraggingRef.current = false; }}
+        >
+          {mode === 'difference' ? (
+            heatmap ? (
+              <img src={heatmap.imageUrl} alt="Difference between the selected versions" className={imageClasses} />
+            ) : heatmapError ? (
+              <p className="absolute inset-0 flex items-center justify-center text-sm text-red-600 p-4 text-center">{heatmapError}</p>
+            ) : (
+              <div className="absolute inset-0 flex items-center justify-center"><Spinner /></div>
+            )
+          ) : (
+            <>
+              {afterUrl && <img src={afterUrl} alt="After" className={imageClasses} />}
+              {beforeUrl && (
+                <img
+                  src={beforeUrl}
+                  alt="Before"
+                  className={imageClasses}
+                  style={mode === 'split'
+                    ? { clipPath: `inset(0 ${100 - splitPercent}% 0 0)` }
+                    : { opacity: onionOpacity / 100 }}
+                />
+              )}
+              {mode === 'split' && (
+                <div className="absolute inset-y-0 w-0.5 bg-white shadow-[0_0_4px_rgba(0,0,0,0.6)] pointer-events-none" style={{ left: `${splitPercent}%` }}>
+                  <div className="absolute top-1/2 -translate-y-1/2 -translate-x-1/2 w-8 h-8 rounded-full bg-white shadow-lg flex items-center justify-center text-zinc-600 text-xs font-bold">
+                    &#8596;
+                  </div>
+                </div>
+              )}
+              <span className="absolute top-2 left-2 bg-black/60 text-white text-xs font-semibold px-2 py-1 rounded-md pointer-events-none">Before</span>
+              <span className="absolute top-2 right-2 bg-black/60 text-white text-xs font-semibold px-2 py-1 rounded-md pointer-events-none">After</span>
+            </>
+          )}
+        </div>
+
+        {mode === 'onion' && (
+          <label className="flex items-center gap-3 text-sm font-medium text-zinc-600">
+            After
+            <input
+              type="range"
+              min={0}
+              max={100}
+              value={onionOpacity}
+              onChange={(e) => setOnionOpacity(Number(e.target.value))}
+              className="flex-grow"
+              aria-label="Before image opacity"
+            />
+            Before
+          </label>
+        )}
+        {mode === 'difference' && heatmap && (
+          <p className="text-sm text-zinc-600 text-center">
+            About {Math.round(heatmap.changedFraction * 1000) / 10}% of the image changed. Brighter areas changed more.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CompareView;
@@ -4,12 +4,15 @@
 */
 
 import React from 'react';
+import { PLACEMENT_TOLERANCE, PlacementReport } from '../services/placementVerification';
 
 interface DebugModalProps {
   isOpen: boolean;
   onClose: () => void;
   imageUrl: string | null;
   prompt: string | null;
+  // One per generated variant; null where the products could not be located
+  placementReports?: (PlacementReport | null)[];
 }
 
 const CloseIcon = () => (
@@ -18,7 +21,11 @@ const CloseIcon = () => (
     </svg>
 );
 
-const DebugModal: React.FC<DebugModalProps> = ({ isOpen, onClose, imageUrl, prompt }) => {
+const formatPercent = (value: number | null) => value === null ? '—' : `${value.toFixed(1)}%`;
+
+const formatSizeRatio = (value: number | null) => value === null ? '—' : `${Math.round(value * 100)}%`;
+
+const DebugModal: React.FC<DebugModalProps> = ({ isOpen, onClose, imageUrl, prompt, placementReports = [] }) => {
   if (!isOpen || !imageUrl) {
     return null;
   }
@@ -59,6 +66,61 @@ const DebugModal: React.FC<DebugModalProps> = ({ isOpen, onClose, imageUrl, prom
             </div>
           </div>
           
+          {placementReports.length > 0 && (
+            <div>
+              <h3 className="text-lg font-bold text-zinc-800 mb-2">Placement Check</h3>
+              <p className="text-zinc-600 mb-3 text-sm">
+                Crosses mark the requested positions and boxes where each product was found. A product passes within {PLACEMENT_TOLERANCE.maxOffsetPercent}% of its position and between {Math.round(PLACEMENT_TOLERANCE.minSizeRatio * 100)}% and {Math.round(PLACEMENT_TOLERANCE.maxSizeRatio * 100)}% of its staged size.
+              </p>
+              <div className="flex flex-col gap-4">
+                {placementReports.map((report, variantIndex) => (
+                  <div key={variantIndex} className="border border-zinc-200 rounded-lg p-3">
+                    <p className="text-sm font-semibold text-zinc-800 mb-2">
+                      {placementReports.length > 1 ? `Variant ${variantIndex + 1}: ` : ''}
+                      {report === null
+                        ? <span className="text-zinc-500 font-normal">The products could not be located, so the placement was not checked.</span>
+                        : (
+                          <>
+                            <span className={report.passed ? 'text-green-700' : 'text-red-600'}>{report.passed ? 'Passed' : 'Outside tolerance'}</span>
+                            <span className="text-zinc-500 font-normal">
+                              {` after ${report.attempts} attempt${report.attempts === 1 ? '' : 's'}, located by ${report.method === 'model' ? 'the model' : 'the changed region'}`}
+                            </span>
+                          </>
+                        )}
+                    </p>
+                    {report && (
+                      <div className="flex flex-col md:flex-row gap-3">
+                        <img src={report.annotatedImageUrl} alt={`Placement check for variant ${variantIndex + 1}`} className="md:w-1/2 rounded-md bg-zinc-100 object-contain" />
+                        <table className="text-xs text-zinc-700 md:w-1/2 self-start">
+                          <thead>
+                            <tr className="text-left text-zinc-500">
+                              <th className="pr-2 pb-1 font-medium">Product</th>
+                              <th className="pr-2 pb-1 font-medium">Offset</th>
+                              <th className="pr-2 pb-1 font-medium">Size</th>
+                              <th className="pb-1 font-medium">Result</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {report.checks.map((check, index) => (
+                              <tr key={index} className="border-t border-zinc-100">
+                                <td className="pr-2 py-1">{index + 1}. {check.description}</td>
+                                <td className="pr-2 py-1 tabular-nums">{formatPercent(check.offsetPercent)}</td>
+                                <td className="pr-2 py-1 tabular-nums">{formatSizeRatio(check.sizeRatio)}</td>
+                                <td className={`py-1 font-semibold ${check.withinTolerance ? 'text-green-700' : 'text-red-600'}`}>
+                                  {check.found ? (check.withinTolerance ? 'OK' : 'Drifted') : 'Not found'}
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {prompt && (
             <div>
                 <h3 className="text-lg font-bold text-zinc-800 mb-2">Final Prompt to Image Model</h3>
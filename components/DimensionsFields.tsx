@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { ProductDimensions } from './types';
+
+interface DimensionsFieldsProps {
+  dimensions: ProductDimensions | null;
+  // Called with the dimensions once all three are valid, or null when any is cleared
+  onChange: (dimensions: ProductDimensions | null) => void;
+}
+
+type Field = keyof ProductDimensions;
+
+const FIELDS: { key: Field; label: string }[] = [
+  { key: 'width', label: 'Width' },
+  { key: 'depth', label: 'Depth' },
+  { key: 'height', label: 'Height' },
+];
+
+const DimensionsFields: React.FC<DimensionsFieldsProps> = ({ dimensions, onChange }) => {
+  // Drafts are kept as text so partially typed values don't get reformatted
+  const [drafts, setDrafts] = useState<Record<Field, string>>({
+    width: dimensions ? String(dimensions.width) : '',
+    depth: dimensions ? String(dimensions.depth) : '',
+    height: dimensions ? String(dimensions.height) : '',
+  });
+
+  const handleChange = (key: Field, value: string) => {
+    const next = { ...drafts, [key]: value };
+    setDrafts(next);
+    const parsed = FIELDS.map(field => parseFloat(next[field.key]));
+    if (parsed.every(number => Number.isFinite(number) && number > 0)) {
+      const [width, depth, height] = parsed;
+      onChange({ width, depth, height });
+    } else if (FIELDS.some(field => next[field.key].trim() === '')) {
+      onChange(null);
+    }
+  };
+
+  return (
+    <fieldset className="flex flex-col gap-1 text-sm font-medium text-zinc-700">
+      <legend className="mb-1">Real-world size (cm, optional)</legend>
+      <div className="grid grid-cols-3 gap-2">
+        {FIELDS.map(({ key, label }) => (
+          <label key={key} className="flex flex-col gap-1 text-xs text-zinc-500">
+            {label}
+            <input
+              type="number"
+              min={0}
+              step="any"
+              inputMode="decimal"
+              value={drafts[key]}
+              onChange={(e) => handleChange(key, e.target.value)}
+              className="p-2 border border-zinc-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 font-normal text-sm text-zinc-800"
+            />
+          </label>
+        ))}
+      </div>
+    </fieldset>
+  );
+};
+
+export default DimensionsFields;
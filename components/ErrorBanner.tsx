@@ -0,0 +1,56 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { MODEL_ERROR_DETAILS, ModelErrorKind } from '../services/modelErrors';
+
+export interface AppError {
+  kind: ModelErrorKind;
+  message: string;
+}
+
+interface ErrorBannerProps {
+  error: AppError | null;
+  onDismiss: () => void;
+}
+
+const WarningIcon = () => (
+  <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01M10.29 3.86L1.82 18a2 2 0 001.71 3h16.94a2 2 0 001.71-3L13.71 3.86a2 2 0 00-3.42 0z" />
+  </svg>
+);
+
+const CloseIcon = () => (
+  <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+  </svg>
+);
+
+const ErrorBanner: React.FC<ErrorBannerProps> = ({ error, onDismiss }) => {
+  if (!error) {
+    return null;
+  }
+  const { title, hint } = MODEL_ERROR_DETAILS[error.kind];
+
+  return (
+    <div role="alert" className="w-full max-w-4xl mx-auto mb-6 flex items-start gap-3 bg-red-50 border border-red-200 text-red-800 p-4 rounded-lg animate-fade-in">
+      <WarningIcon />
+      <div className="flex-grow min-w-0">
+        <p className="font-bold">{title}</p>
+        <p className="text-sm text-red-700 break-words">{error.message}</p>
+        <p className="text-xs text-red-600 mt-1">{hint}</p>
+      </div>
+      <button
+        onClick={onDismiss}
+        className="p-1 rounded-full text-red-700 hover:bg-red-100 transition-colors"
+        aria-label="Dismiss error"
+      >
+        <CloseIcon />
+      </button>
+    </div>
+  );
+};
+
+export default ErrorBanner;
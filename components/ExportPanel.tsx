@@ -0,0 +1,178 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState } from 'react';
+import { SceneVersion } from './types';
+import {
+  buildVersionMetadata,
+  downloadBlob,
+  ExportFormat,
+  ExportOptions,
+  exportHistoryZip,
+  getExportFileName,
+  getExportSize,
+  getOriginalSceneSize,
+  renderExport,
+} from '../services/exportService';
+import { loadImageFromBlob } from '../services/maskUtils';
+
+interface ExportPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  versions: SceneVersion[];
+  currentVersion: SceneVersion | null;
+  projectName: string;
+}
+
+const CloseIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+    </svg>
+);
+
+const FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: 'png', label: 'PNG' },
+  { value: 'jpeg', label: 'JPEG' },
+  { value: 'webp', label: 'WebP' },
+];
+
+type Size = { width: number; height: number };
+
+const ExportPanel: React.FC<ExportPanelProps> = ({ isOpen, onClose, versions, currentVersion, projectName }) => {
+  const [format, setFormat] = useState<ExportFormat>('png');
+  const [quality, setQuality] = useState(0.92);
+  const [upscaleToOriginal, setUpscaleToOriginal] = useState(true);
+  const [includeMetadata, setIncludeMetadata] = useState(true);
+  const [currentSize, setCurrentSize] = useState<Size | null>(null);
+  const [originalSize, setOriginalSize] = useState<Size | null>(null);
+  const [busyAction, setBusyAction] = useState<'image' | 'zip' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Read the current and original sizes so the panel can show the output resolution
+  useEffect(() => {
+    if (!isOpen || !currentVersion) return;
+    let cancelled = false;
+    setError(null);
+    Promise.all([
+      loadImageFromBlob(currentVersion.image),
+      getOriginalSceneSize(versions, currentVersion.id),
+    ]).then(([img, original]) => {
+      if (cancelled) return;
+      setCurrentSize({ width: img.naturalWidth, height: img.naturalHeight });
+      setOriginalSize(original);
+    }).catch(err => console.error('Could not read scene dimensions for export:', err));
+    return () => { cancelled = true; };
+  }, [isOpen, currentVersion, versions]);
+
+  if (!isOpen || !currentVersion) {
+    return null;
+  }
+
+  const options: ExportOptions = { format, quality, upscaleToOriginal, includeMetadata };
+  const outputSize = currentSize ? getExportSize(currentSize, originalSize, upscaleToOriginal) : null;
+  const name = projectName || 'Home Canvas';
+
+  const runExport = async (action: 'image' | 'zip') => {
+    setBusyAction(action);
+    setError(null);
+    try {
+      if (action === 'image') {
+        const metadata = buildVersionMetadata(versions, currentVersion, name);
+        const blob = await renderExport(currentVersion.image, options, originalSize, metadata);
+        downloadBlob(blob, getExportFileName(name, currentVersion.label, format));
+      } else {
+        const blob = await exportHistoryZip(versions, name, options);
+        downloadBlob(blob, getExportFileName(name, 'history', format).replace(/\.[a-z]+$/, '.zip'));
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setError(`Export failed. ${errorMessage}`);
+      console.error(err);
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const baseButtonClasses = "px-4 py-2 text-sm font-semibold rounded-md transition-colors";
+  const activeButtonClasses = "bg-blue-600 text-white";
+  const inactiveButtonClasses = "bg-zinc-200 text-zinc-700 hover:bg-zinc-300";
+
+  return (
+    <div 
+      className="fixed inset-0 bg-black bg-opacity-75 z-50 flex items-center justify-center p-4 animate-fade-in"
+      onClick={onClose}
+      aria-modal="true"
+      role="dialog"
+    >
+      <div 
+        className="bg-white rounded-xl shadow-2xl w-full max-w-lg p-6 md:p-8 relative flex flex-col gap-5"
+        onClick={(e) => e.stopPropagation()}
+        role="document"
+      >
+        <button 
+          onClick={onClose}
+          className="absolute top-4 right-4 text-zinc-500 hover:text-zinc-800 transition-colors z-10"
+          aria-label="Close modal"
+        >
+          <CloseIcon />
+        </button>
+        <div className="text-center">
+          <h2 className="text-2xl font-extrabold text-zinc-800">Export</h2>
+          <p className="text-sm text-zinc-500 mt-1 truncate" title={currentVersion.label}>{currentVersion.label}</p>
+        </div>
+
+        <div>
+          <span className="block text-sm font-medium text-zinc-600 mb-2">Format</span>
+          <div className="flex gap-2">
+            {FORMATS.map(option => (
+              <button key={option.value} type="button" onClick={() => setFormat(option.value)} className={`${baseButtonClasses} ${format === option.value ? activeButtonClasses : inactiveButtonClasses}`}>
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {format !== 'png' && (
+          <label className="block text-sm font-medium text-zinc-600">
+            Quality: {Math.round(quality * 100)}%
+            <input type="range" min={50} max={100} value={Math.round(quality * 100)} onChange={(e) => setQuality(Number(e.target.value) / 100)} className="w-full mt-2" />
+          </label>
+        )}
+
+        <label className="flex items-start gap-2 text-sm text-zinc-700">
+          <input type="checkbox" checked={upscaleToOriginal} onChange={(e) => setUpscaleToOriginal(e.target.checked)} className="mt-0.5" />
+          <span>
+            Upscale toward the original upload
+            {originalSize && <span className="text-zinc-500"> ({originalSize.width}×{originalSize.height})</span>}
+          </span>
+        </label>
+
+        <label className="flex items-start gap-2 text-sm text-zinc-700">
+          <input type="checkbox" checked={includeMetadata} onChange={(e) => setIncludeMetadata(e.target.checked)} className="mt-0.5" />
+          <span>Embed metadata (products, prompts, timestamp)</span>
+        </label>
+
+        {outputSize && (
+          <p className="text-sm text-zinc-500">Output size: {outputSize.width}×{outputSize.height}</p>
+        )}
+
+        {error && (
+          <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-md p-2" role="alert">{error}</p>
+        )}
+
+        <div className="flex flex-col sm:flex-row justify-end gap-3">
+          <button type="button" onClick={() => runExport('zip')} disabled={busyAction !== null} className={`${baseButtonClasses} ${inactiveButtonClasses} disabled:opacity-50`}>
+            {busyAction === 'zip' ? 'Zipping...' : `Full History (${versions.length}) as ZIP`}
+          </button>
+          <button type="button" onClick={() => runExport('image')} disabled={busyAction !== null} className={`${baseButtonClasses} bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50`}>
+            {busyAction === 'image' ? 'Exporting...' : 'Download Image'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportPanel;
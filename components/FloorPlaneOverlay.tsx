@@ -0,0 +1,158 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useRef, useState } from 'react';
+import { DEFAULT_FLOOR_QUAD, findVanishingPoint, FloorQuad, planeToImage, PlanePoint } from '../services/floorPlane';
+
+interface FloorPlaneOverlayProps {
+  // Natural size of the scene image; the overlay uses it as its coordinate system
+  width: number;
+  height: number;
+  quad: FloorQuad | null;
+  // Product footprints to outline on the floor, in percent of the image
+  footprints?: PlanePoint[][];
+  isEditing: boolean;
+  isEstimating?: boolean;
+  onQuadChange: (quad: FloorQuad | null) => void;
+  onEstimate?: () => void;
+  onDone: () => void;
+}
+
+const FLOOR_COLOR = 'rgb(37, 99, 235)';
+const FOOTPRINT_COLOR = 'rgb(22, 163, 74)';
+const GRID_STEPS = [0.25, 0.5, 0.75];
+
+const FloorPlaneOverlay: React.FC<FloorPlaneOverlayProps> = ({ width, height, quad, footprints = [], isEditing, isEstimating = false, onQuadChange, onEstimate, onDone }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [draggedCorner, setDraggedCorner] = useState<number | null>(null);
+
+  // Outside editing, the floor is only shown underneath staged products
+  if (!isEditing && (!quad || footprints.length === 0)) {
+    return null;
+  }
+  const floor = quad ?? DEFAULT_FLOOR_QUAD;
+
+  // Converts percent coordinates to the SVG's natural-pixel coordinates
+  const toSvg = (point: PlanePoint) => ({ x: (point.x / 100) * width, y: (point.y / 100) * height });
+  const toPoints = (points: PlanePoint[]) => points.map(point => {
+    const { x, y } = toSvg(point);
+    return `${x},${y}`;
+  }).join(' ');
+
+  // The SVG is letterboxed like the 'object-contain' image beneath it, so let it map the pointer
+  const toPercent = (clientX: number, clientY: number): PlanePoint | null => {
+    const svg = svgRef.current;
+    const matrix = svg?.getScreenCTM();
+    if (!svg || !matrix) return null;
+    const point = new DOMPoint(clientX, clientY).matrixTransform(matrix.inverse());
+    return {
+      x: Math.min(100, Math.max(0, (point.x / width) * 100)),
+      y: Math.min(100, Math.max(0, (point.y / height) * 100)),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<SVGCircleElement>, corner: number) => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDraggedCorner(corner);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGCircleElement>) => {
+    if (draggedCorner === null) return;
+    const point = toPercent(e.clientX, e.clientY);
+    if (!point) return;
+    const next = [...floor] as FloorQuad;
+    next[draggedCorner] = point;
+    onQuadChange(next);
+  };
+
+  const gridLines = GRID_STEPS.flatMap(step => [
+    [planeToImage(floor, step, 0), planeToImage(floor, step, 1)],
+    [planeToImage(floor, 0, step), planeToImage(floor, 1, step)],
+  ]);
+  const vanishingPoint = findVanishingPoint(floor);
+  const handleRadius = Math.max(width, height) * 0.012;
+
+  const baseButtonClasses = "px-2.5 py-1 text-xs font-semibold rounded-md transition-colors";
+  const inactiveButtonClasses = "text-white hover:bg-white/20 disabled:opacity-50";
+
+  return (
+    <div className={`absolute inset-0 z-30 ${isEditing ? '' : 'pointer-events-none'}`} onClick={(e) => isEditing && e.stopPropagation()}>
+      <svg ref={svgRef} viewBox={`0 0 ${width} ${height}`} className="w-full h-full touch-none">
+        <polygon
+          points={toPoints(floor)}
+          fill={FLOOR_COLOR}
+          fillOpacity={isEditing ? 0.2 : 0.08}
+          stroke={FLOOR_COLOR}
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+        />
+        {isEditing && gridLines.map(([from, to], index) => {
+          const a = toSvg(from);
+          const b = toSvg(to);
+          return <line key={index} x1={a.x} y1={a.y} x2={b.x} y2={b.y} stroke={FLOOR_COLOR} strokeOpacity={0.6} strokeWidth={1} vectorEffect="non-scaling-stroke" />;
+        })}
+        {isEditing && vanishingPoint && vanishingPoint.y > 0 && (
+          <line
+            x1={0}
+            y1={(vanishingPoint.y / 100) * height}
+            x2={width}
+            y2={(vanishingPoint.y / 100) * height}
+            stroke="white"
+            strokeDasharray="6 4"
+            strokeWidth={1}
+            vectorEffect="non-scaling-stroke"
+          />
+        )}
+        {footprints.map((footprint, index) => (
+          <polygon
+            key={index}
+            points={toPoints(footprint)}
+            fill={FOOTPRINT_COLOR}
+            fillOpacity={0.25}
+            stroke={FOOTPRINT_COLOR}
+            strokeWidth={2}
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+        {isEditing && floor.map((corner, index) => {
+          const { x, y } = toSvg(corner);
+          return (
+            <circle
+              key={index}
+              cx={x}
+              cy={y}
+              r={handleRadius}
+              fill="white"
+              stroke={FLOOR_COLOR}
+              strokeWidth={2}
+              vectorEffect="non-scaling-stroke"
+              className="cursor-move"
+              onPointerDown={(e) => handlePointerDown(e, index)}
+              onPointerMove={handlePointerMove}
+              onPointerUp={() => setDraggedCorner(null)}
+              onPointerCancel={() => setDraggedCorner(null)}
+            />
+          );
+        })}
+      </svg>
+      {isEditing && (
+        <div className="absolute top-2 left-2 flex flex-wrap items-center gap-1 bg-black/60 p-1 rounded-lg backdrop-blur-sm shadow-lg">
+          <span className="px-2 text-xs text-white">Drag the corners onto the floor</span>
+          {onEstimate && (
+            <button type="button" onClick={onEstimate} disabled={isEstimating} className={`${baseButtonClasses} ${inactiveButtonClasses}`}>
+              {isEstimating ? 'Detecting...' : 'Auto-detect'}
+            </button>
+          )}
+          <button type="button" onClick={() => onQuadChange(DEFAULT_FLOOR_QUAD)} className={`${baseButtonClasses} ${inactiveButtonClasses}`}>Reset</button>
+          <button type="button" onClick={() => { onQuadChange(null); onDone(); }} className={`${baseButtonClasses} ${inactiveButtonClasses}`}>Remove</button>
+          <button type="button" onClick={onDone} className={`${baseButtonClasses} bg-blue-600 text-white hover:bg-blue-700`}>Done</button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FloorPlaneOverlay;
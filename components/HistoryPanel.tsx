@@ -0,0 +1,92 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { SceneOperation, SceneVersion } from './types';
+import { flattenVersionTree } from '../services/versionTree';
+
+interface HistoryPanelProps {
+    versions: SceneVersion[];
+    currentVersionId: string | null;
+    onSelect: (id: string) => void;
+    disabled?: boolean;
+}
+
+const operationBadges: Record<SceneOperation, { label: string; className: string }> = {
+    'upload': { label: 'Upload', className: 'bg-zinc-200 text-zinc-700' },
+    'placement': { label: 'Place', className: 'bg-blue-100 text-blue-800' },
+    'chat-edit': { label: 'Edit', className: 'bg-purple-100 text-purple-800' },
+};
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ versions, currentVersionId, onSelect, disabled = false }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [thumbnailUrls, setThumbnailUrls] = useState<Record<string, string>>({});
+    const rows = useMemo(() => flattenVersionTree(versions), [versions]);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        const urls: Record<string, string> = {};
+        versions.forEach(version => {
+            urls[version.id] = URL.createObjectURL(version.image);
+        });
+        setThumbnailUrls(urls);
+        return () => {
+            Object.values(urls).forEach(url => URL.revokeObjectURL(url));
+        };
+    }, [versions, isOpen]);
+
+    if (versions.length < 2) {
+        return null;
+    }
+
+    return (
+        <div className="w-full mt-4 border border-zinc-200 rounded-lg bg-white shadow-sm">
+            <button
+                onClick={() => setIsOpen(open => !open)}
+                className="w-full flex items-center justify-between px-4 py-2 text-sm font-semibold text-zinc-700 hover:bg-zinc-50 rounded-lg"
+                aria-expanded={isOpen}
+            >
+                <span>History ({versions.length} versions)</span>
+                <span className="text-zinc-400">{isOpen ? 'Hide' : 'Show'}</span>
+            </button>
+            {isOpen && (
+                <ul className="max-h-72 overflow-y-auto px-2 pb-2 animate-fade-in">
+                    {rows.map(({ version, depth }) => {
+                        const isCurrent = version.id === currentVersionId;
+                        const badge = operationBadges[version.operation];
+                        return (
+                            <li key={version.id} style={{ paddingLeft: depth * 16 }}>
+                                <button
+                                    onClick={() => onSelect(version.id)}
+                                    disabled={disabled || isCurrent}
+                                    className={`w-full flex items-center gap-3 p-1.5 rounded-md text-left transition-colors disabled:cursor-default ${isCurrent ? 'bg-blue-50 ring-1 ring-blue-400' : 'hover:bg-zinc-100'}`}
+                                    aria-current={isCurrent}
+                                    title={version.prompt ?? version.label}
+                                >
+                                    {depth > 0 && <span className="text-zinc-300 text-xs">&#8627;</span>}
+                                    <div className="w-12 h-8 flex-shrink-0 bg-zinc-100 rounded overflow-hidden">
+                                        {thumbnailUrls[version.id] && (
+                                            <img src={thumbnailUrls[version.id]} alt="" className="w-full h-full object-cover" />
+                                        )}
+                                    </div>
+                                    <span className={`text-[10px] font-bold uppercase px-1.5 py-0.5 rounded ${badge.className}`}>{badge.label}</span>
+                                    <span className="text-xs text-zinc-700 truncate flex-1">{version.label}</span>
+                                    <span className="text-[10px] text-zinc-400 whitespace-nowrap">
+                                        {new Date(version.createdAt).toLocaleTimeString(undefined, { timeStyle: 'short' })}
+                                    </span>
+                                </button>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+            {isOpen && (
+                <p className="px-4 pb-3 text-xs text-zinc-500">Jump to any version; new edits from there start a new branch without losing the others.</p>
+            )}
+        </div>
+    );
+};
+
+export default HistoryPanel;
@@ -4,6 +4,12 @@
 */
 
 import React, { useCallback, useRef, useState, useImperativeHandle, forwardRef, useEffect } from 'react';
+import RegionMaskOverlay from './RegionMaskOverlay';
+import FloorPlaneOverlay from './FloorPlaneOverlay';
+import ScaleReferenceOverlay from './ScaleReferenceOverlay';
+import { FloorQuad, PlanePoint } from '../services/floorPlane';
+import { SceneScale } from '../services/sceneScale';
+import { ingestImage } from '../services/imageIngestion';
 
 interface ImageUploaderProps {
   id: string;
@@ -12,7 +18,7 @@ interface ImageUploaderProps {
   imageUrl: string | null;
   isDropZone?: boolean;
   onProductDrop?: (position: {x: number, y: number}, relativePosition: { xPercent: number; yPercent: number; }) => void;
-  persistedOrbPosition?: { x: number; y: number } | null;
+  persistedOrbPositions?: { x: number; y: number }[];
   showDebugButton?: boolean;
   onDebugClick?: () => void;
   isTouchHovering?: boolean;
@@ -21,6 +27,21 @@ interface ImageUploaderProps {
   onRedo?: () => void;
   canUndo?: boolean;
   canRedo?: boolean;
+  isMaskMode?: boolean;
+  regionMask?: Blob | null;
+  onRegionMaskChange?: (mask: Blob | null) => void;
+  onMaskModeDone?: () => void;
+  floorPlane?: FloorQuad | null;
+  isFloorPlaneMode?: boolean;
+  isEstimatingFloorPlane?: boolean;
+  footprints?: PlanePoint[][];
+  onFloorPlaneChange?: (quad: FloorQuad | null) => void;
+  onEstimateFloorPlane?: () => void;
+  onFloorPlaneModeDone?: () => void;
+  sceneScale?: SceneScale | null;
+  isScaleMode?: boolean;
+  onSceneScaleChange?: (scale: SceneScale | null) => void;
+  onScaleModeDone?: () => void;
 }
 
 const UploadIcon: React.FC = () => (
@@ -50,33 +71,53 @@ const RedoIcon: React.FC = () => (
 );
 
 
-const ImageUploader = forwardRef<HTMLImageElement, ImageUploaderProps>(({ id, label, onFileSelect, imageUrl, isDropZone = false, onProductDrop, persistedOrbPosition, showDebugButton, onDebugClick, isTouchHovering = false, touchOrbPosition = null, onUndo, onRedo, canUndo, canRedo }, ref) => {
+const ImageUploader = forwardRef<HTMLImageElement, ImageUploaderProps>(({ id, label, onFileSelect, imageUrl, isDropZone = false, onProductDrop, persistedOrbPositions = [], showDebugButton, onDebugClick, isTouchHovering = false, touchOrbPosition = null, onUndo, onRedo, canUndo, canRedo, isMaskMode = false, regionMask = null, onRegionMaskChange, onMaskModeDone, floorPlane = null, isFloorPlaneMode = false, isEstimatingFloorPlane = false, footprints, onFloorPlaneChange, onEstimateFloorPlane, onFloorPlaneModeDone, sceneScale = null, isScaleMode = false, onSceneScaleChange, onScaleModeDone }, ref) => {
   const inputRef = useRef<HTMLInputElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const imgRef = useRef<HTMLImageElement>(null);
   const [isDraggingOver, setIsDraggingOver] = useState(false);
   const [orbPosition, setOrbPosition] = useState<{x: number, y: number} | null>(null);
-  const [fileTypeError, setFileTypeError] = useState<string | null>(null);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  // What the ingestion step changed about the last upload (e.g. converted from HEIC)
+  const [uploadNotice, setUploadNotice] = useState<string | null>(null);
+  const [isPreparingUpload, setIsPreparingUpload] = useState(false);
+  const [naturalSize, setNaturalSize] = useState<{ width: number; height: number } | null>(null);
 
   // Expose the internal imgRef to the parent component via the forwarded ref
   useImperativeHandle(ref, () => imgRef.current as HTMLImageElement);
   
   useEffect(() => {
     if (!imageUrl) {
-      setFileTypeError(null);
+      setUploadError(null);
+      setUploadNotice(null);
+      setNaturalSize(null);
     }
   }, [imageUrl]);
 
+  // Uploads are turned upright, converted, stripped of location data and scaled down before they are used
+  const handleUpload = useCallback(async (file: File) => {
+    setIsPreparingUpload(true);
+    setUploadError(null);
+    setUploadNotice(null);
+    try {
+      const { file: ingested, changes } = await ingestImage(file);
+      setUploadNotice(changes.length > 0 ? changes.join(' · ') : null);
+      onFileSelect(ingested);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setUploadError(errorMessage);
+      console.error('Could not prepare the uploaded image:', err);
+    } finally {
+      setIsPreparingUpload(false);
+    }
+  }, [onFileSelect]);
+
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
+    // Allow picking the same file again after an error
+    event.target.value = '';
     if (file) {
-      const allowedTypes = ['image/jpeg', 'image/png', 'image/webp'];
-      if (!allowedTypes.includes(file.type)) {
-        setFileTypeError('For best results, please use PNG, JPG, JPEG, or WEBP formats.');
-      } else {
-        setFileTypeError(null);
-      }
-      onFileSelect(file);
+      handleUpload(file);
     }
   };
   
@@ -132,6 +173,7 @@ const ImageUploader = forwardRef<HTMLImageElement, ImageUploaderProps>(({ id, la
   }, [onProductDrop]);
 
   const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (isMaskMode || isFloorPlaneMode || isScaleMode) return;
     if (isDropZone) {
       handlePlacement(e.clientX, e.clientY);
     } else {
@@ -167,19 +209,14 @@ const ImageUploader = forwardRef<HTMLImageElement, ImageUploaderProps>(({ id, la
           // Case 1: A product is being dropped onto the scene
           handlePlacement(event.clientX, event.clientY);
       } else {
-          // Case 2: A file is being dropped to be uploaded
+          // Case 2: A file is being dropped to be uploaded. Its type is not checked here:
+          // HEIC files often arrive without one, and ingestion recognizes images by their content.
           const file = event.dataTransfer.files?.[0];
-          if (file && file.type.startsWith('image/')) {
-              const allowedTypes = ['image/jpeg', 'image/png', 'image/webp'];
-              if (!allowedTypes.includes(file.type)) {
-                  setFileTypeError('For best results, please use PNG, JPG, JPEG, or WEBP formats.');
-              } else {
-                  setFileTypeError(null);
-              }
-              onFileSelect(file);
+          if (file) {
+              handleUpload(file);
           }
       }
-  }, [isDropZone, onProductDrop, onFileSelect, handlePlacement]);
+  }, [isDropZone, onProductDrop, handleUpload, handlePlacement]);
   
   const showHoverState = isDropZone && (isDraggingOver || isTouchHovering);
   const currentOrbPosition = orbPosition || touchOrbPosition;
@@ -209,9 +246,14 @@ const ImageUploader = forwardRef<HTMLImageElement, ImageUploaderProps>(({ id, la
           id={id}
           ref={inputRef}
           onChange={handleFileChange}
-          accept="image/png, image/jpeg, image/webp"
+          accept="image/png, image/jpeg, image/webp, image/heic, image/heif, image/avif, image/tiff, .heic, .heif"
           className="hidden"
         />
+        {isPreparingUpload && (
+          <div className="absolute inset-0 z-20 bg-white bg-opacity-75 flex items-center justify-center text-sm font-semibold text-zinc-600">
+            Preparing image...
+          </div>
+        )}
         {imageUrl ? (
           <>
             <img 
@@ -219,19 +261,53 @@ const ImageUploader = forwardRef<HTMLImageElement, ImageUploaderProps>(({ id, la
               src={imageUrl} 
               alt={label || 'Uploaded Scene'} 
               className="w-full h-full object-contain pointer-events-none"
+              onLoad={(e) => setNaturalSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
             />
-            {persistedOrbPosition && (
+            {isMaskMode && naturalSize && onRegionMaskChange && (
+              <RegionMaskOverlay
+                key={`${naturalSize.width}x${naturalSize.height}`}
+                width={naturalSize.width}
+                height={naturalSize.height}
+                mask={regionMask}
+                onMaskChange={onRegionMaskChange}
+                onDone={() => onMaskModeDone?.()}
+              />
+            )}
+            {naturalSize && onFloorPlaneChange && (
+              <FloorPlaneOverlay
+                width={naturalSize.width}
+                height={naturalSize.height}
+                quad={floorPlane}
+                footprints={footprints}
+                isEditing={isFloorPlaneMode}
+                isEstimating={isEstimatingFloorPlane}
+                onQuadChange={onFloorPlaneChange}
+                onEstimate={onEstimateFloorPlane}
+                onDone={() => onFloorPlaneModeDone?.()}
+              />
+            )}
+            {isScaleMode && naturalSize && onSceneScaleChange && (
+              <ScaleReferenceOverlay
+                width={naturalSize.width}
+                height={naturalSize.height}
+                scale={sceneScale}
+                onScaleChange={onSceneScaleChange}
+                onDone={() => onScaleModeDone?.()}
+              />
+            )}
+            {persistedOrbPositions.map((orbPosition, index) => (
                 <div 
+                    key={index}
                     className="drop-orb" 
                     style={{ 
-                        left: persistedOrbPosition.x, 
-                        top: persistedOrbPosition.y,
+                        left: orbPosition.x, 
+                        top: orbPosition.y,
                         opacity: 1,
                         transform: 'translate(-50%, -50%) scale(1)',
                         transition: 'none', // Appear instantly without animation
                     }}
                 ></div>
-            )}
+            ))}
             <div 
                 className="drop-orb" 
                 style={{ 
@@ -265,12 +341,15 @@ const ImageUploader = forwardRef<HTMLImageElement, ImageUploaderProps>(({ id, la
           </div>
         )}
       </div>
-      {fileTypeError && (
+      {uploadError && (
         <div className="w-full mt-2 text-sm text-yellow-800 bg-yellow-100 border border-yellow-300 rounded-lg p-3 flex items-center animate-fade-in" role="alert">
             <WarningIcon />
-            <span>{fileTypeError}</span>
+            <span>{uploadError}</span>
         </div>
       )}
+      {uploadNotice && !uploadError && (
+        <p className="w-full mt-2 text-xs text-zinc-500 text-center animate-fade-in">{uploadNotice}</p>
+      )}
     </div>
   );
 });
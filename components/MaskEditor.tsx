@@ -0,0 +1,200 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Product } from './types';
+import { createCutoutFile, createMaskCanvas, loadImageFromBlob, maskFromCutout, renderCutout } from '../services/maskUtils';
+
+interface MaskEditorProps {
+  product: Product | null;
+  onClose: () => void;
+  onSave: (cutoutFile: File) => void;
+}
+
+type BrushMode = 'erase' | 'restore';
+
+const CloseIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+    </svg>
+);
+
+// Checkerboard behind the preview so transparent areas are obvious
+const checkerboardStyle: React.CSSProperties = {
+  backgroundImage: 'linear-gradient(45deg, #e4e4e7 25%, transparent 25%), linear-gradient(-45deg, #e4e4e7 25%, transparent 25%), linear-gradient(45deg, transparent 75%, #e4e4e7 75%), linear-gradient(-45deg, transparent 75%, #e4e4e7 75%)',
+  backgroundSize: '20px 20px',
+  backgroundPosition: '0 0, 0 10px, 10px -10px, -10px 0px',
+};
+
+const MaskEditor: React.FC<MaskEditorProps> = ({ product, onClose, onSave }) => {
+  const previewRef = useRef<HTMLCanvasElement>(null);
+  const imageRef = useRef<HTMLImageElement | null>(null);
+  const maskRef = useRef<HTMLCanvasElement | null>(null);
+  const isPaintingRef = useRef(false);
+  const [mode, setMode] = useState<BrushMode>('erase');
+  const [brushSize, setBrushSize] = useState(30);
+  const [isReady, setIsReady] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const redraw = useCallback(() => {
+    const canvas = previewRef.current;
+    const image = imageRef.current;
+    const mask = maskRef.current;
+    if (!canvas || !image || !mask) return;
+    renderCutout(image, mask, canvas);
+    // Show removed areas faintly so the user can paint them back in
+    const ctx = canvas.getContext('2d');
+    if (ctx) {
+      ctx.globalCompositeOperation = 'destination-over';
+      ctx.globalAlpha = 0.25;
+      ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+      ctx.globalAlpha = 1;
+      ctx.globalCompositeOperation = 'source-over';
+    }
+  }, []);
+
+  // Load the original photo and the current mask whenever a product is opened for editing
+  useEffect(() => {
+    if (!product) return;
+    let cancelled = false;
+    setIsReady(false);
+    const load = async () => {
+      const image = await loadImageFromBlob(product.file);
+      let mask: HTMLCanvasElement;
+      if (product.cutoutFile) {
+        mask = maskFromCutout(await loadImageFromBlob(product.cutoutFile));
+      } else {
+        // No cut-out yet: start from "keep everything"
+        mask = createMaskCanvas(image.naturalWidth, image.naturalHeight);
+        const ctx = mask.getContext('2d');
+        if (ctx) {
+          ctx.fillStyle = 'white';
+          ctx.fillRect(0, 0, mask.width, mask.height);
+        }
+      }
+      if (cancelled) return;
+      imageRef.current = image;
+      maskRef.current = mask;
+      if (previewRef.current) {
+        previewRef.current.width = image.naturalWidth;
+        previewRef.current.height = image.naturalHeight;
+      }
+      setIsReady(true);
+      redraw();
+    };
+    load().catch(err => console.error('Could not load product for mask editing:', err));
+    return () => { cancelled = true; };
+  }, [product, redraw]);
+
+  const paintAt = (clientX: number, clientY: number) => {
+    const canvas = previewRef.current;
+    const mask = maskRef.current;
+    if (!canvas || !mask) return;
+    const rect = canvas.getBoundingClientRect();
+    // Convert from displayed pixels to image pixels
+    const scale = mask.width / rect.width;
+    const x = (clientX - rect.left) * scale;
+    const y = (clientY - rect.top) * scale;
+    const ctx = mask.getContext('2d');
+    if (!ctx) return;
+    ctx.globalCompositeOperation = mode === 'erase' ? 'destination-out' : 'source-over';
+    ctx.fillStyle = 'white';
+    ctx.beginPath();
+    ctx.arc(x, y, (brushSize / 2) * scale, 0, 2 * Math.PI);
+    ctx.fill();
+    ctx.globalCompositeOperation = 'source-over';
+    redraw();
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    isPaintingRef.current = true;
+    paintAt(e.clientX, e.clientY);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (isPaintingRef.current) {
+      paintAt(e.clientX, e.clientY);
+    }
+  };
+
+  const handlePointerUp = () => {
+    isPaintingRef.current = false;
+  };
+
+  const handleSave = async () => {
+    if (!product || !imageRef.current || !maskRef.current) return;
+    setIsSaving(true);
+    try {
+      onSave(await createCutoutFile(imageRef.current, maskRef.current, product.file.name));
+    } catch (err) {
+      console.error('Could not save refined cut-out:', err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!product) {
+    return null;
+  }
+
+  const baseButtonClasses = "px-3 py-1.5 text-sm font-semibold rounded-md transition-colors";
+  const activeButtonClasses = "bg-blue-600 text-white";
+  const inactiveButtonClasses = "bg-zinc-200 text-zinc-700 hover:bg-zinc-300";
+
+  return (
+    <div 
+      className="fixed inset-0 bg-black bg-opacity-75 z-50 flex items-center justify-center p-4 animate-fade-in"
+      onClick={onClose}
+      aria-modal="true"
+      role="dialog"
+    >
+      <div 
+        className="bg-white rounded-xl shadow-2xl w-full max-w-3xl p-6 md:p-8 relative flex flex-col"
+        style={{ maxHeight: '90vh' }}
+        onClick={(e) => e.stopPropagation()}
+        role="document"
+      >
+        <button 
+          onClick={onClose}
+          className="absolute top-4 right-4 text-zinc-500 hover:text-zinc-800 transition-colors z-10"
+          aria-label="Close modal"
+        >
+          <CloseIcon />
+        </button>
+        <div className="text-center mb-4 flex-shrink-0">
+          <h2 className="text-2xl font-extrabold text-zinc-800">Refine Cut-out</h2>
+          <p className="text-sm text-zinc-500 mt-1">Paint to erase leftover background or restore parts of the product.</p>
+        </div>
+        <div className="flex flex-wrap items-center justify-center gap-3 mb-4 flex-shrink-0">
+          <button type="button" onClick={() => setMode('erase')} className={`${baseButtonClasses} ${mode === 'erase' ? activeButtonClasses : inactiveButtonClasses}`}>Erase</button>
+          <button type="button" onClick={() => setMode('restore')} className={`${baseButtonClasses} ${mode === 'restore' ? activeButtonClasses : inactiveButtonClasses}`}>Restore</button>
+          <label className="flex items-center gap-2 text-sm text-zinc-600">
+            Brush
+            <input type="range" min={5} max={100} value={brushSize} onChange={(e) => setBrushSize(Number(e.target.value))} />
+          </label>
+        </div>
+        <div className="flex-1 min-h-0 overflow-auto rounded-lg flex items-center justify-center" style={checkerboardStyle}>
+          <canvas
+            ref={previewRef}
+            className={`max-w-full max-h-[60vh] touch-none cursor-crosshair ${isReady ? '' : 'opacity-0'}`}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          />
+        </div>
+        <div className="flex justify-end gap-3 mt-4 flex-shrink-0">
+          <button type="button" onClick={onClose} className="px-4 py-2 text-sm font-semibold rounded-md bg-zinc-200 text-zinc-700 hover:bg-zinc-300">Cancel</button>
+          <button type="button" onClick={handleSave} disabled={!isReady || isSaving} className="px-4 py-2 text-sm font-semibold rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50">
+            {isSaving ? 'Saving...' : 'Save Cut-out'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MaskEditor;
@@ -11,9 +11,18 @@ interface ObjectCardProps {
     product: Product;
     isSelected: boolean;
     onClick?: () => void;
+    // Shown over the image while the background is being removed
+    isPreparing?: boolean;
 }
 
-const ObjectCard: React.FC<ObjectCardProps> = ({ product, isSelected, onClick }) => {
+// Checkerboard behind cut-outs so the removed background is visible
+const checkerboardStyle: React.CSSProperties = {
+    backgroundImage: 'linear-gradient(45deg, #e4e4e7 25%, transparent 25%), linear-gradient(-45deg, #e4e4e7 25%, transparent 25%), linear-gradient(45deg, transparent 75%, #e4e4e7 75%), linear-gradient(-45deg, transparent 75%, #e4e4e7 75%)',
+    backgroundSize: '16px 16px',
+    backgroundPosition: '0 0, 0 8px, 8px -8px, -8px 0px',
+};
+
+const ObjectCard: React.FC<ObjectCardProps> = ({ product, isSelected, onClick, isPreparing = false }) => {
     const cardClasses = `
         bg-white rounded-lg shadow-md overflow-hidden transition-all duration-300
         ${onClick ? 'cursor-pointer hover:shadow-xl hover:scale-105' : ''}
@@ -22,11 +31,22 @@ const ObjectCard: React.FC<ObjectCardProps> = ({ product, isSelected, onClick })
 
     return (
         <div className={cardClasses} onClick={onClick}>
-            <div className="aspect-square w-full bg-zinc-100 flex items-center justify-center">
-                <img src={product.imageUrl} alt={product.name} className="w-full h-full object-contain" />
+            <div
+                className="aspect-square w-full bg-zinc-100 flex items-center justify-center relative"
+                style={product.cutoutUrl ? checkerboardStyle : undefined}
+            >
+                <img src={product.cutoutUrl ?? product.imageUrl} alt={product.name} className="w-full h-full object-contain" />
+                {isPreparing && (
+                    <div className="absolute inset-0 bg-white/70 flex items-center justify-center">
+                        <span className="text-xs font-semibold text-zinc-600 animate-pulse">Removing background...</span>
+                    </div>
+                )}
             </div>
             <div className="p-3 text-center">
                 <h4 className="text-sm font-semibold text-zinc-700 truncate">{product.name}</h4>
+                {product.tags.length > 0 && (
+                    <p className="text-xs text-zinc-500 truncate mt-0.5">{product.tags.map(tag => `#${tag}`).join(' ')}</p>
+                )}
             </div>
         </div>
     );
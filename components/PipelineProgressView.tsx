@@ -0,0 +1,77 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState } from 'react';
+import { PipelineProgress, STAGE_LABELS } from '../services/pipelineProgress';
+import Spinner from './Spinner';
+
+interface PipelineProgressViewProps {
+  progress: PipelineProgress;
+  // Smaller layout without the large spinner, used under the chat.
+  compact?: boolean;
+  onCancel?: () => void;
+}
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+const PipelineProgressView: React.FC<PipelineProgressViewProps> = ({ progress, compact = false, onCancel }) => {
+  const [now, setNow] = useState(Date.now());
+
+  // Tick so the elapsed times keep counting while a stage is running
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 100);
+    return () => clearInterval(interval);
+  }, []);
+
+  const stageLabel = progress.stage ? STAGE_LABELS[progress.stage] : 'Finishing up';
+  const stageElapsed = progress.stageStartedAt ? now - progress.stageStartedAt : 0;
+
+  return (
+    <div className={`animate-fade-in w-full max-w-xl mx-auto ${compact ? 'text-sm' : ''}`} aria-live="polite">
+      {!compact && <Spinner />}
+      <p className={`${compact ? 'text-base' : 'text-xl mt-4'} text-zinc-700 font-medium`}>
+        {stageLabel}...
+        <span className="ml-2 text-zinc-400 tabular-nums">{formatSeconds(stageElapsed)}</span>
+      </p>
+      {progress.variants && progress.variants.total > 1 && (
+        <p className="text-zinc-500 mt-1">Received {progress.variants.received} of {progress.variants.total} variants</p>
+      )}
+      <p className="text-zinc-500 mt-1 tabular-nums">Total elapsed: {formatSeconds(now - progress.startedAt)}</p>
+      {progress.locationDescriptions.length > 0 && (
+        <div className="mt-4 text-left bg-zinc-50 border border-zinc-200 rounded-lg p-3 animate-fade-in">
+          <p className="text-xs font-bold text-zinc-600 uppercase tracking-wide mb-1">Placement location</p>
+          {progress.locationDescriptions.map((description, index) => (
+            <p key={index} className="text-sm text-zinc-700">
+              {progress.locationDescriptions.length > 1 && <b>{index + 1}. </b>}{description}
+            </p>
+          ))}
+        </div>
+      )}
+      {progress.completedStages.length > 0 && (
+        <ul className="mt-3 text-xs text-zinc-500 flex flex-wrap justify-center gap-x-3 gap-y-1">
+          {progress.completedStages.map((completed, index) => (
+            <li key={index}>✓ {STAGE_LABELS[completed.stage]} <span className="tabular-nums">{formatSeconds(completed.durationMs)}</span></li>
+          ))}
+        </ul>
+      )}
+      {progress.cachedStages.length > 0 && (
+        <p className="mt-2 text-xs text-blue-600">
+          Reused stored results for: {progress.cachedStages.map(stage => STAGE_LABELS[stage]).join(', ')}
+        </p>
+      )}
+      {onCancel && (
+        <button
+          type="button"
+          onClick={onCancel}
+          className="mt-4 px-4 py-2 text-sm font-semibold rounded-md bg-zinc-200 text-zinc-700 hover:bg-zinc-300 transition-colors"
+        >
+          Cancel
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default PipelineProgressView;
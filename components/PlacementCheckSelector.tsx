@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { MAX_PLACEMENT_RETRIES, PlacementCheckSettings } from '../services/placementVerification';
+
+interface PlacementCheckSelectorProps {
+  value: PlacementCheckSettings;
+  onChange: (settings: PlacementCheckSettings) => void;
+  disabled?: boolean;
+}
+
+const RETRY_COUNTS = Array.from({ length: MAX_PLACEMENT_RETRIES + 1 }, (_, count) => count);
+
+const PlacementCheckSelector: React.FC<PlacementCheckSelectorProps> = ({ value, onChange, disabled }) => {
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-x-4 gap-y-2 mb-4 text-sm">
+      <label className="flex items-center gap-2 font-medium text-zinc-600" title="Locates the products in each result with an extra model call, and regenerates variants that drifted">
+        <input
+          type="checkbox"
+          checked={value.verifyPlacement}
+          onChange={(e) => onChange({ ...value, verifyPlacement: e.target.checked })}
+          disabled={disabled}
+          className="h-4 w-4 rounded border-zinc-300 text-blue-600"
+        />
+        Check placement
+      </label>
+      <div className={`flex items-center gap-2 ${value.verifyPlacement ? '' : 'opacity-50'}`}>
+        <span className="font-medium text-zinc-600">Retries on drift:</span>
+        <div className="flex gap-1">
+          {RETRY_COUNTS.map(count => (
+            <button
+              key={count}
+              type="button"
+              onClick={() => onChange({ ...value, maxPlacementRetries: count })}
+              disabled={disabled || !value.verifyPlacement}
+              className={`w-8 h-8 font-semibold rounded-md transition-colors disabled:cursor-not-allowed ${value.maxPlacementRetries === count ? 'bg-blue-600 text-white' : 'bg-zinc-200 text-zinc-700 hover:bg-zinc-300'}`}
+              aria-pressed={value.maxPlacementRetries === count}
+            >
+              {count}
+            </button>
+          ))}
+        </div>
+      </div>
+      <p className="w-full text-xs text-zinc-500">Each check and retry is an extra billed model call per variant.</p>
+    </div>
+  );
+};
+
+export default PlacementCheckSelector;
@@ -9,6 +9,11 @@ import { StagedProduct } from './types';
 interface PlacementGizmoProps {
     bounds: DOMRect;
     product: StagedProduct;
+    // Optional badge shown on the gizmo, matching the numbered marker sent to the model.
+    label?: string;
+    // Size multiplier applied on top of the product's own scale: true to size when the product's
+    // dimensions and the scene scale are known, otherwise the apparent size at its depth on the floor.
+    baseScale?: number;
     onUpdate: (updates: Partial<StagedProduct>) => void;
     onConfirm: () => void;
     onCancel: () => void;
@@ -26,12 +31,26 @@ const CancelIcon = () => (
     </svg>
 );
 
-const PlacementGizmo: React.FC<PlacementGizmoProps> = ({ bounds, product, onUpdate, onConfirm, onCancel }) => {
+const FlipIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 3v18M8 7l-5 5 5 5V7zm8 0l5 5-5 5V7z" />
+    </svg>
+);
+
+type DragType = 'move' | 'scale' | 'rotate';
+
+// Keeps an angle within (-180, 180] so prompts read "30 degrees left" rather than "330 degrees right".
+const normalizeRotation = (degrees: number) => {
+    const wrapped = ((degrees % 360) + 360) % 360;
+    return wrapped > 180 ? wrapped - 360 : wrapped;
+};
+
+const PlacementGizmo: React.FC<PlacementGizmoProps> = ({ bounds, product, label, baseScale = 1, onUpdate, onConfirm, onCancel }) => {
     const gizmoRef = useRef<HTMLDivElement>(null);
-    const [activeDrag, setActiveDrag] = useState<'move' | 'scale' | null>(null);
-    const [startDragInfo, setStartDragInfo] = useState({ x: 0, y: 0, productX: 0, productY: 0, scale: 1 });
+    const [activeDrag, setActiveDrag] = useState<DragType | null>(null);
+    const [startDragInfo, setStartDragInfo] = useState({ x: 0, y: 0, productX: 0, productY: 0, scale: 1, rotation: 0 });
 
-    const handleMouseDown = (e: React.MouseEvent<HTMLDivElement>, type: 'move' | 'scale') => {
+    const handleMouseDown = (e: React.MouseEvent<HTMLDivElement>, type: DragType) => {
         e.preventDefault();
         e.stopPropagation();
         setActiveDrag(type);
@@ -42,6 +61,7 @@ const PlacementGizmo: React.FC<PlacementGizmoProps> = ({ bounds, product, onUpda
             productX: product.x,
             productY: product.y,
             scale: product.scale,
+            rotation: product.rotation,
         });
     };
     
@@ -60,6 +80,11 @@ const PlacementGizmo: React.FC<PlacementGizmoProps> = ({ bounds, product, onUpda
                 const scaleChange = dx * SENSITIVITY;
                 const newScale = startDragInfo.scale + scaleChange;
                 onUpdate({ scale: Math.max(0.1, newScale) });
+            } else if (activeDrag === 'rotate') {
+                // Horizontal drag turns the product around its vertical axis.
+                const DEGREES_PER_PIXEL = 0.5;
+                const newRotation = startDragInfo.rotation + dx * DEGREES_PER_PIXEL;
+                onUpdate({ rotation: Math.round(normalizeRotation(newRotation)) });
             }
         };
 
@@ -88,7 +113,12 @@ const PlacementGizmo: React.FC<PlacementGizmoProps> = ({ bounds, product, onUpda
         top: product.y,
         left: product.x,
         width: product.width,
-        transform: `translate(-50%, -50%) scale(${product.scale})`,
+        transform: `translate(-50%, -50%) scale(${product.scale * baseScale})`,
+    };
+
+    // Preview the turn with a 3D rotation so the product appears to face a new direction.
+    const imageStyle: React.CSSProperties = {
+        transform: `perspective(600px) rotateY(${product.rotation}deg) scaleX(${product.flipHorizontal ? -1 : 1})`,
     };
 
     return (
@@ -105,16 +135,32 @@ const PlacementGizmo: React.FC<PlacementGizmoProps> = ({ bounds, product, onUpda
                     setStartDragInfo({
                         x: e.touches[0].clientX, y: e.touches[0].clientY,
                         productX: product.x, productY: product.y,
-                        scale: product.scale,
+                        scale: product.scale, rotation: product.rotation,
                     });
                 }
             }}
         >
             <div className="placement-gizmo__content">
+                {label && <span className="placement-gizmo__label">{label}</span>}
                 <img
                     src={product.imageUrl}
                     alt="Staged product"
                     className="placement-gizmo__image"
+                    style={imageStyle}
+                />
+                <div
+                    className="placement-gizmo__handle placement-gizmo__handle--rotate"
+                    title={`Turn (${product.rotation}°)`}
+                    onMouseDown={(e) => handleMouseDown(e, 'rotate')}
+                    onTouchStart={(e) => {
+                        e.stopPropagation();
+                        setActiveDrag('rotate');
+                        setStartDragInfo({
+                            x: e.touches[0].clientX, y: e.touches[0].clientY,
+                            productX: product.x, productY: product.y,
+                            scale: product.scale, rotation: product.rotation,
+                        });
+                    }}
                 />
                 <div
                     className="placement-gizmo__handle placement-gizmo__handle--scale"
@@ -125,7 +171,7 @@ const PlacementGizmo: React.FC<PlacementGizmoProps> = ({ bounds, product, onUpda
                         setStartDragInfo({
                             x: e.touches[0].clientX, y: e.touches[0].clientY,
                             productX: product.x, productY: product.y,
-                            scale: product.scale,
+                            scale: product.scale, rotation: product.rotation,
                         });
                     }}
                 />
@@ -138,14 +184,22 @@ const PlacementGizmo: React.FC<PlacementGizmoProps> = ({ bounds, product, onUpda
                 <button
                     onClick={onConfirm}
                     className="placement-gizmo__button bg-green-500 hover:bg-green-600"
-                    aria-label="Confirm placement"
+                    aria-label="Confirm placement of all staged products"
                 >
                     <ConfirmIcon />
                 </button>
+                <button
+                    onClick={() => onUpdate({ flipHorizontal: !product.flipHorizontal })}
+                    className={`placement-gizmo__button ${product.flipHorizontal ? 'bg-blue-600 hover:bg-blue-700' : 'bg-zinc-600 hover:bg-zinc-700'}`}
+                    aria-label="Flip product horizontally"
+                    aria-pressed={product.flipHorizontal}
+                >
+                    <FlipIcon />
+                </button>
                 <button
                     onClick={onCancel}
                     className="placement-gizmo__button bg-red-500 hover:bg-red-600"
-                    aria-label="Cancel placement"
+                    aria-label="Remove this product"
                 >
                     <CancelIcon />
                 </button>
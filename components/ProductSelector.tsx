@@ -3,15 +3,19 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useRef, useState, useCallback, useEffect } from 'react';
+import React, { useRef, useState, useCallback, useEffect, useMemo } from 'react';
 // Fix: Corrected import path for Product type.
 import { Product } from './types';
 import ObjectCard from './ObjectCard';
 
 interface ProductSelectorProps {
     products: Product[];
+    selectedProductId?: number | null;
     onSelect: (product: Product) => void;
     onAddOwnProductClick: () => void;
+    onRemove?: (product: Product) => void;
+    // When provided, cards can be dragged straight onto the scene with a mouse.
+    onProductDragStart?: (product: Product, e: React.DragEvent<HTMLDivElement>) => void;
 }
 
 const ArrowLeftIcon = () => (
@@ -26,10 +30,39 @@ const ArrowRightIcon = () => (
     </svg>
 );
 
-const ProductSelector: React.FC<ProductSelectorProps> = ({ products, onSelect, onAddOwnProductClick }) => {
+const RemoveIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+        <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+    </svg>
+);
+
+const ProductSelector: React.FC<ProductSelectorProps> = ({ products, selectedProductId = null, onSelect, onAddOwnProductClick, onRemove, onProductDragStart }) => {
     const scrollContainerRef = useRef<HTMLDivElement>(null);
     const [canScrollLeft, setCanScrollLeft] = useState(false);
     const [canScrollRight, setCanScrollRight] = useState(true);
+    const [query, setQuery] = useState('');
+    const [activeTag, setActiveTag] = useState<string | null>(null);
+
+    const allTags = useMemo(() => {
+        const tags = new Set<string>();
+        products.forEach(product => product.tags.forEach(tag => tags.add(tag)));
+        return Array.from(tags).sort();
+    }, [products]);
+
+    const visibleProducts = useMemo(() => {
+        const normalizedQuery = query.trim().toLowerCase();
+        return products.filter(product =>
+            (!activeTag || product.tags.includes(activeTag)) &&
+            (!normalizedQuery || product.name.toLowerCase().includes(normalizedQuery) || product.tags.some(tag => tag.includes(normalizedQuery)))
+        );
+    }, [products, query, activeTag]);
+
+    // Drop a tag filter that no longer matches any product
+    useEffect(() => {
+        if (activeTag && !allTags.includes(activeTag)) {
+            setActiveTag(null);
+        }
+    }, [activeTag, allTags]);
 
     const checkScrollButtons = useCallback(() => {
         const el = scrollContainerRef.current;
@@ -59,7 +92,7 @@ const ProductSelector: React.FC<ProductSelectorProps> = ({ products, onSelect, o
             el.removeEventListener('scroll', checkScrollButtons);
             window.removeEventListener('resize', checkScrollButtons);
         };
-    }, [products, checkScrollButtons]);
+    }, [visibleProducts, checkScrollButtons]);
 
     const scroll = (direction: 'left' | 'right') => {
         if (scrollContainerRef.current) {
@@ -73,6 +106,28 @@ const ProductSelector: React.FC<ProductSelectorProps> = ({ products, onSelect, o
 
     return (
         <div className="w-full max-w-6xl mx-auto text-center animate-fade-in">
+            {products.length > 0 && (
+                <div className="flex flex-wrap items-center justify-center gap-2 mb-2">
+                    <input
+                        type="search"
+                        value={query}
+                        onChange={(e) => setQuery(e.target.value)}
+                        placeholder="Search products..."
+                        className="p-1.5 px-3 text-sm border border-zinc-300 rounded-full focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        aria-label="Search product library"
+                    />
+                    {allTags.map(tag => (
+                        <button
+                            key={tag}
+                            onClick={() => setActiveTag(activeTag === tag ? null : tag)}
+                            className={`text-xs font-semibold px-2.5 py-1 rounded-full transition-colors ${activeTag === tag ? 'bg-blue-600 text-white' : 'bg-zinc-100 text-zinc-700 hover:bg-zinc-200'}`}
+                            aria-pressed={activeTag === tag}
+                        >
+                            #{tag}
+                        </button>
+                    ))}
+                </div>
+            )}
             <div className="relative flex items-center">
                 <button 
                     onClick={() => scroll('left')}
@@ -86,15 +141,32 @@ const ProductSelector: React.FC<ProductSelectorProps> = ({ products, onSelect, o
                     ref={scrollContainerRef}
                     className="flex space-x-6 overflow-x-auto snap-x snap-mandatory py-4 scrollbar-hide"
                 >
-                    {products.map(product => (
-                         <div key={product.id} className="snap-center shrink-0 w-52 md:w-64">
+                    {visibleProducts.map(product => (
+                         <div
+                            key={product.id}
+                            className={`relative group snap-center shrink-0 w-52 md:w-64 ${onProductDragStart ? 'cursor-move' : ''}`}
+                            draggable={!!onProductDragStart}
+                            onDragStart={onProductDragStart ? (e) => onProductDragStart(product, e) : undefined}
+                         >
                             <ObjectCard
                                 product={product}
-                                isSelected={false}
+                                isSelected={product.id === selectedProductId}
                                 onClick={() => onSelect(product)}
                             />
+                            {onRemove && (
+                                <button
+                                    onClick={() => onRemove(product)}
+                                    className="absolute top-2 right-2 p-1 bg-black/60 text-white rounded-full opacity-0 group-hover:opacity-100 hover:bg-red-600 transition-all"
+                                    aria-label={`Remove ${product.name} from library`}
+                                >
+                                    <RemoveIcon />
+                                </button>
+                            )}
                         </div>
                     ))}
+                    {products.length > 0 && visibleProducts.length === 0 && (
+                        <p className="text-sm text-zinc-500 py-8 w-full">No products match your filter.</p>
+                    )}
                 </div>
                  <button 
                     onClick={() => scroll('right')}
@@ -0,0 +1,49 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+
+export type SaveStatus = 'idle' | 'saving' | 'saved' | 'error';
+
+interface ProjectBarProps {
+    name: string;
+    saveStatus: SaveStatus;
+    onRename: (name: string) => void;
+    onShowProjects: () => void;
+}
+
+const saveStatusLabels: Record<SaveStatus, string> = {
+    idle: '',
+    saving: 'Saving...',
+    saved: 'All changes saved',
+    error: 'Could not save project',
+};
+
+const ProjectBar: React.FC<ProjectBarProps> = ({ name, saveStatus, onRename, onShowProjects }) => {
+    return (
+        <div className="w-full flex flex-wrap items-center justify-between gap-3 mb-6">
+            <div className="flex items-center gap-3 min-w-0">
+                <button
+                    onClick={onShowProjects}
+                    className="text-sm text-blue-600 hover:text-blue-800 font-semibold whitespace-nowrap"
+                >
+                    &larr; All Projects
+                </button>
+                <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => onRename(e.target.value)}
+                    className="text-lg font-bold text-zinc-800 bg-transparent border-b border-transparent hover:border-zinc-300 focus:border-blue-500 focus:outline-none px-1 min-w-0"
+                    aria-label="Project name"
+                />
+            </div>
+            <span className={`text-xs ${saveStatus === 'error' ? 'text-red-600' : 'text-zinc-500'}`} aria-live="polite">
+                {saveStatusLabels[saveStatus]}
+            </span>
+        </div>
+    );
+};
+
+export default ProjectBar;
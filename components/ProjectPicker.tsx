@@ -0,0 +1,83 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState } from 'react';
+import { ProjectSummary } from '../services/projectStore';
+
+interface ProjectPickerProps {
+    projects: ProjectSummary[];
+    onOpen: (id: string) => void;
+    onDelete: (id: string) => void;
+}
+
+const TrashIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+        <path fillRule="evenodd" d="M9 2a1 1 0 00-.894.553L7.382 4H4a1 1 0 000 2v10a2 2 0 002 2h8a2 2 0 002-2V6a1 1 0 100-2h-3.382l-.724-1.447A1 1 0 0011 2H9zM7 8a1 1 0 012 0v6a1 1 0 11-2 0V8zm5-1a1 1 0 00-1 1v6a1 1 0 102 0V8a1 1 0 00-1-1z" clipRule="evenodd" />
+    </svg>
+);
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString(undefined, {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+});
+
+const ProjectPicker: React.FC<ProjectPickerProps> = ({ projects, onOpen, onDelete }) => {
+    const [thumbnailUrls, setThumbnailUrls] = useState<Record<string, string>>({});
+
+    useEffect(() => {
+        const urls: Record<string, string> = {};
+        projects.forEach(project => {
+            if (project.thumbnail) {
+                urls[project.id] = URL.createObjectURL(project.thumbnail);
+            }
+        });
+        setThumbnailUrls(urls);
+        return () => {
+            Object.values(urls).forEach(url => URL.revokeObjectURL(url));
+        };
+    }, [projects]);
+
+    if (projects.length === 0) {
+        return null;
+    }
+
+    return (
+        <div className="w-full max-w-6xl mx-auto mt-12 animate-fade-in">
+            <h2 className="text-2xl font-extrabold text-center mb-5 text-zinc-800">Your Projects</h2>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {projects.map(project => (
+                    <div key={project.id} className="relative group bg-white rounded-lg shadow-md border border-zinc-200 overflow-hidden hover:shadow-xl transition-all">
+                        <button
+                            onClick={() => onOpen(project.id)}
+                            className="w-full text-left"
+                            aria-label={`Open project ${project.name}`}
+                        >
+                            <div className="aspect-video w-full bg-zinc-100 flex items-center justify-center">
+                                {thumbnailUrls[project.id] ? (
+                                    <img src={thumbnailUrls[project.id]} alt={project.name} className="w-full h-full object-cover" />
+                                ) : (
+                                    <span className="text-zinc-400 text-sm">No scene yet</span>
+                                )}
+                            </div>
+                            <div className="p-3">
+                                <h4 className="text-sm font-semibold text-zinc-700 truncate">{project.name}</h4>
+                                <p className="text-xs text-zinc-500">Edited {formatDate(project.updatedAt)}</p>
+                            </div>
+                        </button>
+                        <button
+                            onClick={() => onDelete(project.id)}
+                            className="absolute top-2 right-2 p-1.5 bg-black/60 text-white rounded-md opacity-0 group-hover:opacity-100 hover:bg-red-600 transition-all"
+                            aria-label={`Delete project ${project.name}`}
+                        >
+                            <TrashIcon />
+                        </button>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default ProjectPicker;
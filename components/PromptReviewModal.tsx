@@ -0,0 +1,86 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+
+export interface PromptReview {
+  title: string;
+  prompts: { label: string; text: string }[];
+}
+
+interface PromptReviewModalProps {
+  review: PromptReview | null;
+  onSend: () => void;
+  onCancel: () => void;
+  onEditTemplates: () => void;
+}
+
+const CloseIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+    </svg>
+);
+
+const PromptReviewModal: React.FC<PromptReviewModalProps> = ({ review, onSend, onCancel, onEditTemplates }) => {
+  if (!review) {
+    return null;
+  }
+
+  const baseButtonClasses = "px-4 py-2 text-sm font-semibold rounded-md transition-colors";
+  const inactiveButtonClasses = "bg-zinc-200 text-zinc-700 hover:bg-zinc-300";
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-75 z-50 flex items-center justify-center p-4 animate-fade-in"
+      onClick={onCancel}
+      aria-modal="true"
+      role="dialog"
+    >
+      <div
+        className="bg-white rounded-xl shadow-2xl w-full max-w-4xl p-6 md:p-8 relative flex flex-col gap-4"
+        style={{ maxHeight: '90vh' }}
+        onClick={(e) => e.stopPropagation()}
+        role="document"
+      >
+        <button
+          onClick={onCancel}
+          className="absolute top-4 right-4 text-zinc-500 hover:text-zinc-800 transition-colors z-10"
+          aria-label="Close modal"
+        >
+          <CloseIcon />
+        </button>
+        <div className="text-center flex-shrink-0">
+          <h2 className="text-2xl font-extrabold text-zinc-800">{review.title}</h2>
+          <p className="text-sm text-zinc-500 mt-1">Nothing has been sent yet.</p>
+        </div>
+
+        <div className="flex flex-col gap-4 overflow-y-auto">
+          {review.prompts.map(({ label, text }) => (
+            <div key={label}>
+              <h3 className="text-lg font-bold text-zinc-800 mb-2">{label}</h3>
+              <pre className="bg-zinc-100 text-zinc-700 p-4 rounded-lg text-xs whitespace-pre-wrap">
+                <code>{text}</code>
+              </pre>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex flex-col sm:flex-row justify-end gap-3 flex-shrink-0">
+          <button type="button" onClick={onEditTemplates} className={`${baseButtonClasses} ${inactiveButtonClasses}`}>
+            Edit Templates
+          </button>
+          <button type="button" onClick={onCancel} className={`${baseButtonClasses} ${inactiveButtonClasses}`}>
+            Cancel
+          </button>
+          <button type="button" onClick={onSend} className={`${baseButtonClasses} bg-blue-600 text-white hover:bg-blue-700`}>
+            Send
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PromptReviewModal;
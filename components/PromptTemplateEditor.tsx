@@ -0,0 +1,244 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  findUnknownVariables,
+  isOverrideOutdated,
+  PROMPT_TEMPLATE_IDS,
+  PROMPT_TEMPLATES,
+  PromptTemplateId,
+  PromptTemplateOverrides,
+  updatePromptTemplateOverride,
+} from '../services/promptTemplates';
+
+interface PromptTemplateEditorProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Edits that apply to every project
+  userOverrides: PromptTemplateOverrides;
+  // Edits saved with the open project; they take precedence over the user's
+  projectOverrides: PromptTemplateOverrides;
+  hasProject: boolean;
+  reviewBeforeSending: boolean;
+  onUserOverridesChange: (overrides: PromptTemplateOverrides) => void;
+  onProjectOverridesChange: (overrides: PromptTemplateOverrides) => void;
+  onReviewBeforeSendingChange: (value: boolean) => void;
+}
+
+type Scope = 'user' | 'project';
+
+const CloseIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+    </svg>
+);
+
+const PromptTemplateEditor: React.FC<PromptTemplateEditorProps> = ({
+  isOpen,
+  onClose,
+  userOverrides,
+  projectOverrides,
+  hasProject,
+  reviewBeforeSending,
+  onUserOverridesChange,
+  onProjectOverridesChange,
+  onReviewBeforeSendingChange,
+}) => {
+  const [selectedId, setSelectedId] = useState<PromptTemplateId>('placement');
+  const [scope, setScope] = useState<Scope>('user');
+  const [draft, setDraft] = useState('');
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const activeScope: Scope = hasProject ? scope : 'user';
+  const definition = PROMPT_TEMPLATES[selectedId];
+  const overrides = activeScope === 'project' ? projectOverrides : userOverrides;
+  const override = overrides[selectedId];
+  // What the template falls back to without an edit in this scope
+  const inheritedText = activeScope === 'project'
+    ? userOverrides[selectedId]?.text ?? definition.text
+    : definition.text;
+  const savedText = override?.text ?? inheritedText;
+
+  // Load the saved text whenever another template or scope is picked
+  useEffect(() => {
+    if (isOpen) setDraft(savedText);
+  }, [isOpen, selectedId, activeScope, savedText]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const saveOverride = (text: string | null) => {
+    // A project edit that matches what it inherits is not an edit
+    const next = updatePromptTemplateOverride(overrides, selectedId, text === inheritedText ? null : text);
+    if (activeScope === 'project') {
+      onProjectOverridesChange(next);
+    } else {
+      onUserOverridesChange(next);
+    }
+  };
+
+  const insertVariable = (name: string) => {
+    const textarea = textareaRef.current;
+    const token = `{{${name}}}`;
+    if (!textarea) {
+      setDraft(draft + token);
+      return;
+    }
+    const { selectionStart, selectionEnd } = textarea;
+    setDraft(draft.slice(0, selectionStart) + token + draft.slice(selectionEnd));
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(selectionStart + token.length, selectionStart + token.length);
+    });
+  };
+
+  const unknownVariables = findUnknownVariables(selectedId, draft);
+  const isDirty = draft !== savedText;
+
+  const baseButtonClasses = "px-4 py-2 text-sm font-semibold rounded-md transition-colors";
+  const activeButtonClasses = "bg-blue-600 text-white";
+  const inactiveButtonClasses = "bg-zinc-200 text-zinc-700 hover:bg-zinc-300";
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-75 z-50 flex items-center justify-center p-4 animate-fade-in"
+      onClick={onClose}
+      aria-modal="true"
+      role="dialog"
+    >
+      <div
+        className="bg-white rounded-xl shadow-2xl w-full max-w-5xl p-6 md:p-8 relative flex flex-col gap-5 max-h-full overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+        role="document"
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-zinc-500 hover:text-zinc-800 transition-colors z-10"
+          aria-label="Close modal"
+        >
+          <CloseIcon />
+        </button>
+        <div className="text-center">
+          <h2 className="text-2xl font-extrabold text-zinc-800">Prompt Templates</h2>
+        </div>
+
+        <div className="flex flex-col md:flex-row gap-5 min-h-0">
+          <nav className="md:w-56 flex-shrink-0 flex flex-col gap-1" aria-label="Templates">
+            {PROMPT_TEMPLATE_IDS.map(id => {
+              const isEdited = !!userOverrides[id] || !!projectOverrides[id];
+              return (
+                <button
+                  key={id}
+                  type="button"
+                  onClick={() => setSelectedId(id)}
+                  className={`text-left px-3 py-2 rounded-md text-sm transition-colors ${selectedId === id ? 'bg-blue-50 text-blue-800 font-semibold' : 'text-zinc-700 hover:bg-zinc-100'}`}
+                  aria-current={selectedId === id}
+                >
+                  {PROMPT_TEMPLATES[id].name}
+                  {isEdited && <span className="ml-2 text-xs font-normal text-zinc-500">edited</span>}
+                </button>
+              );
+            })}
+            <label className="flex items-start gap-2 text-sm text-zinc-700 mt-4 px-1">
+              <input type="checkbox" checked={reviewBeforeSending} onChange={(e) => onReviewBeforeSendingChange(e.target.checked)} className="mt-0.5" />
+              <span>Review the rendered prompt before each request</span>
+            </label>
+          </nav>
+
+          <div className="flex-grow flex flex-col gap-3 min-w-0">
+            <p className="text-sm text-zinc-600">{definition.description}</p>
+
+            {hasProject && (
+              <div className="flex gap-2">
+                <button type="button" onClick={() => setScope('user')} className={`${baseButtonClasses} ${activeScope === 'user' ? activeButtonClasses : inactiveButtonClasses}`}>
+                  All Projects
+                </button>
+                <button type="button" onClick={() => setScope('project')} className={`${baseButtonClasses} ${activeScope === 'project' ? activeButtonClasses : inactiveButtonClasses}`}>
+                  This Project
+                </button>
+              </div>
+            )}
+
+            <p className="text-xs text-zinc-500">
+              {override
+                ? `Edited, revision ${override.revision}, based on built-in version ${override.baseVersion}.`
+                : activeScope === 'project' && userOverrides[selectedId]
+                  ? 'Using your edit for all projects.'
+                  : `Built-in version ${definition.version}.`}
+            </p>
+            {override && isOverrideOutdated(selectedId, override) && (
+              <p className="text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-md p-2" role="status">
+                The built-in template has changed to version {definition.version} since this edit was made. Revert to pick up the changes.
+              </p>
+            )}
+
+            <textarea
+              ref={textareaRef}
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              spellCheck={false}
+              className="w-full h-80 p-3 border border-zinc-300 rounded-md font-mono text-xs text-zinc-800 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              aria-label={`${definition.name} template`}
+            />
+
+            {unknownVariables.length > 0 && (
+              <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-md p-2" role="alert">
+                Unknown variable{unknownVariables.length === 1 ? '' : 's'}: {unknownVariables.join(', ')}. They will be sent to the model as written.
+              </p>
+            )}
+
+            <div>
+              <span className="block text-sm font-medium text-zinc-600 mb-1">Variables</span>
+              <p className="text-xs text-zinc-500 mb-2">
+                Click to insert. A line holding only an empty variable is left out, and {'{{#name}}...{{/name}}'} is only kept when the variable is set.
+              </p>
+              <ul className="flex flex-col gap-1">
+                {Object.entries(definition.variables).map(([name, explanation]) => (
+                  <li key={name} className="text-xs text-zinc-600">
+                    <button type="button" onClick={() => insertVariable(name)} className="font-mono text-blue-700 hover:underline mr-2">
+                      {`{{${name}}}`}
+                    </button>
+                    {explanation}
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            <div className="flex flex-col sm:flex-row justify-end gap-3">
+              <button
+                type="button"
+                onClick={() => saveOverride(null)}
+                disabled={!override}
+                className={`${baseButtonClasses} ${inactiveButtonClasses} disabled:opacity-50`}
+              >
+                {activeScope === 'project' ? 'Use Shared Template' : 'Revert to Built-in'}
+              </button>
+              <button
+                type="button"
+                onClick={() => setDraft(savedText)}
+                disabled={!isDirty}
+                className={`${baseButtonClasses} ${inactiveButtonClasses} disabled:opacity-50`}
+              >
+                Discard Changes
+              </button>
+              <button
+                type="button"
+                onClick={() => saveOverride(draft)}
+                disabled={!isDirty}
+                className={`${baseButtonClasses} bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50`}
+              >
+                {activeScope === 'project' ? 'Save for This Project' : 'Save for All Projects'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PromptTemplateEditor;
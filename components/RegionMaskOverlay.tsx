@@ -0,0 +1,198 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+import { canvasToFile, loadImageFromBlob, maskCoverage } from '../services/maskUtils';
+
+interface RegionMaskOverlayProps {
+  // Natural size of the scene image; the mask is painted at this resolution
+  width: number;
+  height: number;
+  mask: Blob | null;
+  onMaskChange: (mask: Blob | null) => void;
+  onDone: () => void;
+}
+
+type RegionTool = 'brush' | 'lasso' | 'erase';
+
+const REGION_COLOR = 'rgb(239, 68, 68)';
+
+// Maps a pointer position to image pixels, accounting for 'object-contain' letterboxing
+const toImagePoint = (canvas: HTMLCanvasElement, clientX: number, clientY: number) => {
+  const rect = canvas.getBoundingClientRect();
+  const imageAspectRatio = canvas.width / canvas.height;
+  const boxAspectRatio = rect.width / rect.height;
+  let renderedWidth = rect.width;
+  let renderedHeight = rect.height;
+  if (imageAspectRatio > boxAspectRatio) {
+    renderedHeight = rect.width / imageAspectRatio;
+  } else {
+    renderedWidth = rect.height * imageAspectRatio;
+  }
+  const offsetX = (rect.width - renderedWidth) / 2;
+  const offsetY = (rect.height - renderedHeight) / 2;
+  const scale = canvas.width / renderedWidth;
+  return {
+    x: (clientX - rect.left - offsetX) * scale,
+    y: (clientY - rect.top - offsetY) * scale,
+    scale,
+  };
+};
+
+const RegionMaskOverlay: React.FC<RegionMaskOverlayProps> = ({ width, height, mask, onMaskChange, onDone }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const isPaintingRef = useRef(false);
+  const lassoPointsRef = useRef<{ x: number; y: number }[]>([]);
+  const [tool, setTool] = useState<RegionTool>('brush');
+  const [brushSize, setBrushSize] = useState(40);
+
+  // Restore a previously painted region when the overlay is opened
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !mask) return;
+    let cancelled = false;
+    loadImageFromBlob(mask).then(img => {
+      const ctx = canvas.getContext('2d');
+      if (cancelled || !ctx) return;
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      ctx.globalCompositeOperation = 'source-in';
+      ctx.fillStyle = REGION_COLOR;
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.globalCompositeOperation = 'source-over';
+    }).catch(err => console.error('Could not restore edit region:', err));
+    return () => { cancelled = true; };
+    // Only on open: later changes to `mask` come from this overlay itself
+  }, []);
+
+  // Clear the painting when the region is removed from outside (e.g. from the chat)
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!mask && canvas) {
+      canvas.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    }
+  }, [mask]);
+
+  const emitMask = async () => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    if (maskCoverage(canvas) === 0) {
+      onMaskChange(null);
+      return;
+    }
+    try {
+      onMaskChange(await canvasToFile(canvas, 'edit-region.png'));
+    } catch (err) {
+      console.error('Could not export edit region:', err);
+    }
+  };
+
+  const paintAt = (clientX: number, clientY: number) => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const { x, y, scale } = toImagePoint(canvas, clientX, clientY);
+
+    if (tool === 'lasso') {
+      // Trace the outline as the pointer moves; it is filled on release
+      const points = lassoPointsRef.current;
+      const last = points[points.length - 1];
+      if (last) {
+        ctx.strokeStyle = REGION_COLOR;
+        ctx.lineWidth = 2 * scale;
+        ctx.beginPath();
+        ctx.moveTo(last.x, last.y);
+        ctx.lineTo(x, y);
+        ctx.stroke();
+      }
+      points.push({ x, y });
+      return;
+    }
+
+    ctx.globalCompositeOperation = tool === 'erase' ? 'destination-out' : 'source-over';
+    ctx.fillStyle = REGION_COLOR;
+    ctx.beginPath();
+    ctx.arc(x, y, (brushSize / 2) * scale, 0, 2 * Math.PI);
+    ctx.fill();
+    ctx.globalCompositeOperation = 'source-over';
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    isPaintingRef.current = true;
+    lassoPointsRef.current = [];
+    paintAt(e.clientX, e.clientY);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (isPaintingRef.current) {
+      paintAt(e.clientX, e.clientY);
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (!isPaintingRef.current) return;
+    isPaintingRef.current = false;
+
+    const points = lassoPointsRef.current;
+    const ctx = canvasRef.current?.getContext('2d');
+    if (tool === 'lasso' && ctx && points.length > 2) {
+      ctx.fillStyle = REGION_COLOR;
+      ctx.beginPath();
+      ctx.moveTo(points[0].x, points[0].y);
+      points.slice(1).forEach(point => ctx.lineTo(point.x, point.y));
+      ctx.closePath();
+      ctx.fill();
+    }
+    lassoPointsRef.current = [];
+    emitMask();
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    onMaskChange(null);
+  };
+
+  const baseButtonClasses = "px-2.5 py-1 text-xs font-semibold rounded-md transition-colors";
+  const activeButtonClasses = "bg-white text-zinc-900";
+  const inactiveButtonClasses = "text-white hover:bg-white/20";
+
+  return (
+    <div className="absolute inset-0 z-30" onClick={(e) => e.stopPropagation()}>
+      <canvas
+        ref={canvasRef}
+        width={width}
+        height={height}
+        className="w-full h-full object-contain opacity-50 touch-none cursor-crosshair"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      />
+      <div className="absolute top-2 left-2 flex flex-wrap items-center gap-1 bg-black/60 p-1 rounded-lg backdrop-blur-sm shadow-lg">
+        <button type="button" onClick={() => setTool('brush')} className={`${baseButtonClasses} ${tool === 'brush' ? activeButtonClasses : inactiveButtonClasses}`}>Brush</button>
+        <button type="button" onClick={() => setTool('lasso')} className={`${baseButtonClasses} ${tool === 'lasso' ? activeButtonClasses : inactiveButtonClasses}`}>Lasso</button>
+        <button type="button" onClick={() => setTool('erase')} className={`${baseButtonClasses} ${tool === 'erase' ? activeButtonClasses : inactiveButtonClasses}`}>Erase</button>
+        {tool !== 'lasso' && (
+          <input
+            type="range"
+            min={5}
+            max={150}
+            value={brushSize}
+            onChange={(e) => setBrushSize(Number(e.target.value))}
+            className="w-20 mx-1"
+            aria-label="Brush size"
+          />
+        )}
+        <button type="button" onClick={handleClear} className={`${baseButtonClasses} ${inactiveButtonClasses}`}>Clear</button>
+        <button type="button" onClick={onDone} className={`${baseButtonClasses} bg-blue-600 text-white hover:bg-blue-700`}>Done</button>
+      </div>
+    </div>
+  );
+};
+
+export default RegionMaskOverlay;
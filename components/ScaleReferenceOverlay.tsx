@@ -0,0 +1,129 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useRef, useState } from 'react';
+import { PlanePoint } from '../services/floorPlane';
+import { SceneScale } from '../services/sceneScale';
+
+interface ScaleReferenceOverlayProps {
+  // Natural size of the scene image; the overlay uses it as its coordinate system
+  width: number;
+  height: number;
+  scale: SceneScale | null;
+  onScaleChange: (scale: SceneScale | null) => void;
+  onDone: () => void;
+}
+
+const LINE_COLOR = 'rgb(234, 179, 8)';
+
+const ScaleReferenceOverlay: React.FC<ScaleReferenceOverlayProps> = ({ width, height, scale, onScaleChange, onDone }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [line, setLine] = useState<{ start: PlanePoint; end: PlanePoint } | null>(scale ? { start: scale.start, end: scale.end } : null);
+  const [lengthInput, setLengthInput] = useState(scale ? String(scale.lengthCm) : '');
+  const isDrawingRef = useRef(false);
+
+  // Only a drawn line with a positive length makes a usable reference
+  const emitScale = (nextLine: typeof line, nextLength: string) => {
+    const lengthCm = parseFloat(nextLength);
+    onScaleChange(nextLine && Number.isFinite(lengthCm) && lengthCm > 0 ? { ...nextLine, lengthCm } : null);
+  };
+
+  // The SVG is letterboxed like the 'object-contain' image beneath it, so let it map the pointer
+  const toPercent = (clientX: number, clientY: number): PlanePoint | null => {
+    const matrix = svgRef.current?.getScreenCTM();
+    if (!matrix) return null;
+    const point = new DOMPoint(clientX, clientY).matrixTransform(matrix.inverse());
+    return {
+      x: Math.min(100, Math.max(0, (point.x / width) * 100)),
+      y: Math.min(100, Math.max(0, (point.y / height) * 100)),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    const point = toPercent(e.clientX, e.clientY);
+    if (!point) return;
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    isDrawingRef.current = true;
+    setLine({ start: point, end: point });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!isDrawingRef.current || !line) return;
+    const point = toPercent(e.clientX, e.clientY);
+    if (point) setLine({ start: line.start, end: point });
+  };
+
+  const handlePointerUp = () => {
+    if (!isDrawingRef.current) return;
+    isDrawingRef.current = false;
+    emitScale(line, lengthInput);
+  };
+
+  const handleLengthChange = (value: string) => {
+    setLengthInput(value);
+    emitScale(line, value);
+  };
+
+  const toSvg = (point: PlanePoint) => ({ x: (point.x / 100) * width, y: (point.y / 100) * height });
+  const start = line ? toSvg(line.start) : null;
+  const end = line ? toSvg(line.end) : null;
+  const handleRadius = Math.max(width, height) * 0.008;
+
+  const baseButtonClasses = "px-2.5 py-1 text-xs font-semibold rounded-md transition-colors";
+
+  return (
+    <div className="absolute inset-0 z-30" onClick={(e) => e.stopPropagation()}>
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${width} ${height}`}
+        className="w-full h-full touch-none cursor-crosshair"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        {start && end && (
+          <>
+            <line x1={start.x} y1={start.y} x2={end.x} y2={end.y} stroke={LINE_COLOR} strokeWidth={3} vectorEffect="non-scaling-stroke" />
+            <circle cx={start.x} cy={start.y} r={handleRadius} fill={LINE_COLOR} />
+            <circle cx={end.x} cy={end.y} r={handleRadius} fill={LINE_COLOR} />
+          </>
+        )}
+      </svg>
+      <div className="absolute top-2 left-2 flex flex-wrap items-center gap-1 bg-black/60 p-1 rounded-lg backdrop-blur-sm shadow-lg">
+        <span className="px-2 text-xs text-white">{line ? 'Real length of this line:' : 'Draw a line along an object of known length'}</span>
+        {line && (
+          <input
+            type="number"
+            min={0}
+            step="any"
+            inputMode="decimal"
+            value={lengthInput}
+            onChange={(e) => handleLengthChange(e.target.value)}
+            placeholder="cm"
+            className="w-20 px-2 py-0.5 text-xs rounded-md text-zinc-900"
+            aria-label="Reference length in centimetres"
+          />
+        )}
+        {line && <span className="pr-1 text-xs text-white">cm</span>}
+        <button
+          type="button"
+          onClick={() => {
+            setLine(null);
+            setLengthInput('');
+            onScaleChange(null);
+          }}
+          className={`${baseButtonClasses} text-white hover:bg-white/20`}
+        >
+          Clear
+        </button>
+        <button type="button" onClick={onDone} className={`${baseButtonClasses} bg-blue-600 text-white hover:bg-blue-700`}>Done</button>
+      </div>
+    </div>
+  );
+};
+
+export default ScaleReferenceOverlay;
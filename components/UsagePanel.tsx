@@ -0,0 +1,226 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState } from 'react';
+import { SceneVersion } from './types';
+import {
+  formatCost,
+  formatTokens,
+  groupUsage,
+  OPERATION_LABELS,
+  summarizeUsage,
+  UsageRecord,
+  UsageTotals,
+} from '../services/usage';
+
+interface UsagePanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Every model call since the page was loaded, across projects
+  sessionRecords: UsageRecord[];
+  // Every model call in this browser since the usage was last reset, across projects and reloads
+  ledgerRecords: UsageRecord[];
+  onResetLedger: () => void;
+  // Every model call recorded for the open project
+  projectRecords: UsageRecord[];
+  hasProject: boolean;
+  versions: SceneVersion[];
+  budgetUsd: number | null;
+  onBudgetChange: (budgetUsd: number | null) => void;
+}
+
+const CloseIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+    </svg>
+);
+
+const formatTotalCost = (totals: UsageTotals) => `${formatCost(totals.costUsd)}${totals.unpricedCalls > 0 ? '+' : ''}`;
+
+const UsageSummary: React.FC<{ totals: UsageTotals }> = ({ totals }) => (
+  <>
+    <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-center">
+      {[
+        { label: 'Calls', value: String(totals.calls) },
+        { label: 'Input Tokens', value: formatTokens(totals.inputTokens) },
+        { label: 'Output Tokens', value: formatTokens(totals.outputTokens) },
+        { label: 'Est. Cost', value: formatTotalCost(totals) },
+      ].map(stat => (
+        <div key={stat.label} className="bg-zinc-50 border border-zinc-200 rounded-lg p-2">
+          <p className="text-lg font-bold text-zinc-800 tabular-nums">{stat.value}</p>
+          <p className="text-xs text-zinc-500">{stat.label}</p>
+        </div>
+      ))}
+    </div>
+    {totals.unpricedCalls > 0 && (
+      <p className="text-xs text-zinc-500 mt-2">{totals.unpricedCalls} call(s) used a model without a known price and are not in the estimate.</p>
+    )}
+  </>
+);
+
+const UsageTable: React.FC<{ heading: string; rows: { label: string; totals: UsageTotals }[] }> = ({ heading, rows }) => (
+  <table className="w-full text-sm">
+    <thead>
+      <tr className="text-left text-xs text-zinc-500 uppercase tracking-wide">
+        <th className="py-1 pr-2 font-semibold">{heading}</th>
+        <th className="py-1 px-2 font-semibold text-right">Calls</th>
+        <th className="py-1 px-2 font-semibold text-right">Input</th>
+        <th className="py-1 px-2 font-semibold text-right">Output</th>
+        <th className="py-1 pl-2 font-semibold text-right">Est. Cost</th>
+      </tr>
+    </thead>
+    <tbody>
+      {rows.map(({ label, totals }, index) => (
+        <tr key={index} className="border-t border-zinc-100 text-zinc-700">
+          <td className="py-1 pr-2 truncate max-w-[12rem]" title={label}>{label}</td>
+          <td className="py-1 px-2 text-right tabular-nums">{totals.calls}</td>
+          <td className="py-1 px-2 text-right tabular-nums">{formatTokens(totals.inputTokens)}</td>
+          <td className="py-1 px-2 text-right tabular-nums">{formatTokens(totals.outputTokens)}</td>
+          <td className="py-1 pl-2 text-right tabular-nums">{formatTotalCost(totals)}</td>
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+const UsagePanel: React.FC<UsagePanelProps> = ({ isOpen, onClose, sessionRecords, ledgerRecords, onResetLedger, projectRecords, hasProject, versions, budgetUsd, onBudgetChange }) => {
+  const [budgetDraft, setBudgetDraft] = useState('');
+
+  useEffect(() => {
+    if (isOpen) setBudgetDraft(budgetUsd !== null ? String(budgetUsd) : '');
+  }, [isOpen, budgetUsd]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const sessionTotals = summarizeUsage(sessionRecords);
+  const ledgerTotals = summarizeUsage(ledgerRecords);
+  const projectTotals = summarizeUsage(projectRecords);
+  const parsedBudget = Number(budgetDraft);
+  const isBudgetValid = budgetDraft.trim() !== '' && Number.isFinite(parsedBudget) && parsedBudget > 0;
+  const budgetFraction = budgetUsd !== null ? Math.min(1, ledgerTotals.costUsd / budgetUsd) : 0;
+
+  const getVersionLabel = (versionId: string | null) => {
+    if (!versionId) return 'Not tied to a version';
+    return versions.find(version => version.id === versionId)?.label ?? 'Deleted version';
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-75 z-50 flex items-center justify-center p-4 animate-fade-in"
+      onClick={onClose}
+      aria-modal="true"
+      role="dialog"
+    >
+      <div
+        className="bg-white rounded-xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto p-6 md:p-8 relative flex flex-col gap-6"
+        onClick={(e) => e.stopPropagation()}
+        role="document"
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-zinc-500 hover:text-zinc-800 transition-colors z-10"
+          aria-label="Close modal"
+        >
+          <CloseIcon />
+        </button>
+        <div className="text-center">
+          <h2 className="text-2xl font-extrabold text-zinc-800">Usage</h2>
+          <p className="text-sm text-zinc-500 mt-1">Costs are estimated from list prices; stored results cost nothing.</p>
+        </div>
+
+        <section>
+          <h3 className="text-sm font-bold text-zinc-700 mb-2">This Session</h3>
+          <UsageSummary totals={sessionTotals} />
+        </section>
+
+        <section>
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-sm font-bold text-zinc-700">Since Last Reset</h3>
+            {ledgerRecords.length > 0 && (
+              <button
+                type="button"
+                onClick={onResetLedger}
+                className="text-xs font-semibold text-zinc-500 hover:text-zinc-800 transition-colors"
+              >
+                Reset Usage
+              </button>
+            )}
+          </div>
+          <UsageSummary totals={ledgerTotals} />
+        </section>
+
+        <section>
+          <h3 className="text-sm font-bold text-zinc-700 mb-2">Budget</h3>
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm text-zinc-600">$</span>
+            <input
+              type="number"
+              min={0}
+              step={0.1}
+              value={budgetDraft}
+              onChange={(e) => setBudgetDraft(e.target.value)}
+              placeholder="No limit"
+              className="w-28 px-2 py-1.5 text-sm border border-zinc-300 rounded-md"
+              aria-label="Budget in US dollars"
+            />
+            <button
+              type="button"
+              onClick={() => onBudgetChange(parsedBudget)}
+              disabled={!isBudgetValid || parsedBudget === budgetUsd}
+              className="px-3 py-1.5 text-sm font-semibold rounded-md bg-blue-600 text-white hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              Set Budget
+            </button>
+            {budgetUsd !== null && (
+              <button
+                type="button"
+                onClick={() => onBudgetChange(null)}
+                className="px-3 py-1.5 text-sm font-semibold rounded-md bg-zinc-200 text-zinc-700 hover:bg-zinc-300 transition-colors"
+              >
+                Remove
+              </button>
+            )}
+          </div>
+          <p className="text-xs text-zinc-500 mt-2">Once the estimated cost since the last reset reaches the budget, every model call is blocked.</p>
+          {budgetUsd !== null && (
+            <div className="mt-2">
+              <div className="h-2 bg-zinc-200 rounded-full overflow-hidden">
+                <div className={`h-full ${budgetFraction >= 1 ? 'bg-red-500' : 'bg-blue-500'}`} style={{ width: `${budgetFraction * 100}%` }} />
+              </div>
+              <p className="text-xs text-zinc-600 mt-1 tabular-nums">{formatCost(ledgerTotals.costUsd)} of {formatCost(budgetUsd)} used</p>
+            </div>
+          )}
+        </section>
+
+        {ledgerRecords.length > 0 && (
+          <section className="flex flex-col gap-4">
+            <UsageTable heading="Model" rows={groupUsage(ledgerRecords, record => record.model).map(({ key, totals }) => ({ label: key, totals }))} />
+            <UsageTable heading="Operation" rows={groupUsage(ledgerRecords, record => record.operation).map(({ key, totals }) => ({ label: OPERATION_LABELS[key], totals }))} />
+          </section>
+        )}
+
+        {hasProject && (
+          <section>
+            <h3 className="text-sm font-bold text-zinc-700 mb-2">
+              This Project <span className="font-normal text-zinc-500">· {projectTotals.calls} calls, {formatTotalCost(projectTotals)}</span>
+            </h3>
+            {projectRecords.length > 0 ? (
+              <UsageTable
+                heading="Started From Version"
+                rows={groupUsage(projectRecords, record => record.versionId ?? '').map(({ key, totals }) => ({ label: getVersionLabel(key || null), totals }))}
+              />
+            ) : (
+              <p className="text-sm text-zinc-500">No model calls recorded for this project yet.</p>
+            )}
+          </section>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default UsagePanel;
@@ -0,0 +1,38 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+
+interface VariantCountSelectorProps {
+  value: number;
+  onChange: (count: number) => void;
+  disabled?: boolean;
+}
+
+const VARIANT_COUNTS = [1, 2, 3, 4];
+
+const VariantCountSelector: React.FC<VariantCountSelectorProps> = ({ value, onChange, disabled }) => {
+  return (
+    <div className="flex items-center justify-center gap-2 mb-4 text-sm">
+      <span className="font-medium text-zinc-600">Variants per request:</span>
+      <div className="flex gap-1">
+        {VARIANT_COUNTS.map(count => (
+          <button
+            key={count}
+            type="button"
+            onClick={() => onChange(count)}
+            disabled={disabled}
+            className={`w-8 h-8 font-semibold rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${value === count ? 'bg-blue-600 text-white' : 'bg-zinc-200 text-zinc-700 hover:bg-zinc-300'}`}
+            aria-pressed={value === count}
+          >
+            {count}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default VariantCountSelector;
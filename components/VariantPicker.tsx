@@ -0,0 +1,90 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { VariantSet } from './types';
+
+interface VariantPickerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Newest first; the first set is the one just generated.
+  variantSets: VariantSet[];
+  onPick: (setId: string, index: number) => void;
+}
+
+const CloseIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+    </svg>
+);
+
+const VariantPicker: React.FC<VariantPickerProps> = ({ isOpen, onClose, variantSets, onPick }) => {
+  if (!isOpen || variantSets.length === 0) {
+    return null;
+  }
+
+  return (
+    <div 
+      className="fixed inset-0 bg-black bg-opacity-75 z-50 flex items-center justify-center p-4 animate-fade-in"
+      onClick={onClose}
+      aria-modal="true"
+      role="dialog"
+    >
+      <div 
+        className="bg-white rounded-xl shadow-2xl w-full max-w-5xl p-6 md:p-8 relative flex flex-col"
+        style={{ maxHeight: '90vh' }}
+        onClick={(e) => e.stopPropagation()}
+        role="document"
+      >
+        <button 
+          onClick={onClose}
+          className="absolute top-4 right-4 text-zinc-500 hover:text-zinc-800 transition-colors z-10"
+          aria-label="Close modal"
+        >
+          <CloseIcon />
+        </button>
+        <div className="text-center mb-4 flex-shrink-0">
+          <h2 className="text-2xl font-extrabold text-zinc-800">Choose a Variant</h2>
+          <p className="text-sm text-zinc-500 mt-1">Pick the result to add to the scene history. Every variant stays available here until you close the app.</p>
+        </div>
+        <div className="flex flex-col gap-6 overflow-y-auto">
+          {variantSets.map((set, setIndex) => (
+            <section key={set.id}>
+              <h3 className="text-sm font-bold text-zinc-700 mb-2 truncate" title={set.label}>
+                {setIndex === 0 ? 'Latest: ' : ''}{set.label}
+              </h3>
+              <div className="grid grid-cols-2 gap-3">
+                {set.variants.map((variant, index) => {
+                  const isPicked = set.pickedIndexes.includes(index);
+                  return (
+                    <button
+                      key={index}
+                      type="button"
+                      onClick={() => onPick(set.id, index)}
+                      className={`relative rounded-lg overflow-hidden bg-zinc-100 border-2 transition-colors ${isPicked ? 'border-blue-500' : 'border-transparent hover:border-blue-300'}`}
+                      aria-label={`Use variant ${index + 1}`}
+                    >
+                      <img src={variant.imageUrl} alt={`Variant ${index + 1}`} className="w-full aspect-video object-contain" />
+                      <span className="absolute top-2 left-2 bg-black/60 text-white text-xs font-semibold px-2 py-0.5 rounded-md">
+                        {index + 1}
+                      </span>
+                      {isPicked && (
+                        <span className="absolute top-2 right-2 bg-blue-600 text-white text-xs font-semibold px-2 py-0.5 rounded-md">
+                          In history
+                        </span>
+                      )}
+                    </button>
+                  );
+                })}
+              </div>
+            </section>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VariantPicker;
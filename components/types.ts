@@ -3,13 +3,29 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
+// Real-world size of a product in centimetres.
+export interface ProductDimensions {
+  width: number;
+  height: number;
+  depth: number;
+}
+
 export interface Product {
   id: number;
   name: string;
   imageUrl: string;
+  tags: string[];
+  file: File;
+  // Product on a transparent background, used for previews and compositing when available.
+  cutoutFile: File | null;
+  cutoutUrl: string | null;
+  dimensions: ProductDimensions | null;
 }
 
 export interface StagedProduct {
+  id: number;
+  productId: number;
+  name: string;
   file: File;
   imageUrl: string;
   x: number;
@@ -17,5 +33,58 @@ export interface StagedProduct {
   xPercent: number;
   yPercent: number;
   scale: number;
+  // Turn around the product's vertical axis in degrees, positive is clockwise seen from above.
+  rotation: number;
+  flipHorizontal: boolean;
   width: number;
-}
\ No newline at end of file
+}
+
+export interface ChatMessage {
+  role: 'user' | 'model';
+  text: string;
+  imageUrl?: string;
+  // The attachment behind `imageUrl`, kept so the transcript can be persisted.
+  imageFile?: File;
+  // The scene version the message refers to: the edited version for requests,
+  // the resulting version for replies.
+  versionId?: string;
+}
+
+export type SceneOperation = 'upload' | 'placement' | 'chat-edit';
+
+// One node in the scene's branching edit history.
+export interface SceneVersion {
+  id: string;
+  parentId: string | null;
+  image: File;
+  operation: SceneOperation;
+  // The prompt that produced this version, if any.
+  prompt: string | null;
+  // Short human-readable summary for the history panel.
+  label: string;
+  // Names of the products placed by this version. Missing on versions saved before it was tracked.
+  products?: string[];
+  createdAt: number;
+}
+
+// One candidate image from a batch of variants.
+export interface SceneVariant {
+  file: File;
+  imageUrl: string;
+}
+
+// A batch of alternative results for one placement or chat edit. Kept for the
+// session so rejected variants can still be picked later.
+export interface VariantSet {
+  id: string;
+  // The version every variant in the set was generated from.
+  baseVersionId: string;
+  operation: SceneOperation;
+  prompt: string | null;
+  label: string;
+  products: string[];
+  variants: SceneVariant[];
+  // Indexes of the variants already added to the scene history.
+  pickedIndexes: number[];
+  createdAt: number;
+}
@@ -13,9 +13,14 @@ const __dirname = path.dirname(__filename);
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
+      // The API key stays on the API server (server/index.ts); never define it here or it ships in the bundle
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.IMAGE_PROVIDER': JSON.stringify(env.IMAGE_PROVIDER || 'gemini')
+      },
+      server: {
+        proxy: {
+          '/api': `http://localhost:${env.PORT || 8787}`,
+        }
       },
       resolve: {
         alias: {
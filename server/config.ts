@@ -0,0 +1,43 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Server settings, read once from the environment at startup.
+
+export interface ServerConfig {
+    port: number;
+    apiKey: string;
+    // Model requests per minute from one address, across all browsers behind it
+    rateLimitPerMinute: number;
+    maxBodyBytes: number;
+    // Take the client address from X-Forwarded-For (only behind a trusted reverse proxy)
+    trustProxy: boolean;
+    // Built front end to serve next to the API; null serves the API only
+    staticDir: string | null;
+}
+
+const readNumber = (name: string, fallback: number): number => {
+    const raw = process.env[name];
+    if (!raw) return fallback;
+    const value = Number(raw);
+    if (!Number.isFinite(value) || value <= 0) {
+        throw new Error(`${name} must be a positive number, got "${raw}".`);
+    }
+    return value;
+};
+
+export const loadConfig = (): ServerConfig => {
+    const apiKey = process.env.GEMINI_API_KEY;
+    if (!apiKey) {
+        throw new Error('GEMINI_API_KEY is not set. Add it to .env.local or the server environment.');
+    }
+    return {
+        port: readNumber('PORT', 8787),
+        apiKey,
+        rateLimitPerMinute: readNumber('RATE_LIMIT_PER_MINUTE', 20),
+        maxBodyBytes: readNumber('MAX_BODY_MB', 25) * 1024 * 1024,
+        trustProxy: process.env.TRUST_PROXY === 'true',
+        staticDir: process.env.STATIC_DIR === '' ? null : process.env.STATIC_DIR ?? 'dist',
+    };
+};
@@ -0,0 +1,209 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { loadConfig } from './config';
+import { createRateLimiter } from './rateLimiter';
+import { logRequest, RequestLogEntry, shortenId } from './requestLog';
+import { closeAfterResponse, readBody } from './requestBody';
+import { serveStatic } from './staticFiles';
+import { createGeminiProvider } from '../services/providers/geminiProvider';
+import { InlineImage, ModelImageResult, ModelTextResult } from '../services/providers/types';
+import {
+    CLIENT_ID_HEADER,
+    PROXY_BASE_PATH,
+    PROXY_ROUTES,
+    ProxyErrorBody,
+    ProxyRoute,
+} from '../services/providers/proxyProtocol';
+import { ModelError, ModelErrorKind, toModelError } from '../services/modelErrors';
+import { isAbortError } from '../services/abort';
+
+// The HomeCanvas API server. It holds the Gemini API key and exposes one
+// route per provider operation (see proxyProtocol.ts), so the browser bundle
+// never contains the key. Requests are rate limited per address, and each
+// one is logged without its contents.
+
+const MAX_PROMPT_LENGTH = 50_000;
+const MAX_IMAGES = 8;
+const CLIENT_ID_PATTERN = /^[\w-]{8,64}$/;
+
+const STATUS_BY_KIND: Record<ModelErrorKind, number> = {
+    quota: 429,
+    safety: 422,
+    'no-image': 502,
+    'invalid-input': 400,
+    network: 502,
+    unknown: 500,
+};
+
+const config = loadConfig();
+const provider = createGeminiProvider(config.apiKey);
+const addressLimiter = createRateLimiter({ limit: config.rateLimitPerMinute });
+setInterval(() => addressLimiter.prune(), 60_000).unref();
+
+type RouteHandler = (prompt: string, images: InlineImage[], signal: AbortSignal) => Promise<ModelTextResult | ModelImageResult>;
+
+const ROUTE_HANDLERS: Record<ProxyRoute, RouteHandler> = {
+    [PROXY_ROUTES.describeLocation]: (prompt, [image], signal) => provider.describeLocation(prompt, image, signal),
+    [PROXY_ROUTES.compose]: (prompt, images, signal) => provider.compose(prompt, images, signal),
+    [PROXY_ROUTES.edit]: (prompt, images, signal) => provider.edit(prompt, images, signal),
+    [PROXY_ROUTES.segmentProduct]: (prompt, [image], signal) => provider.segmentProduct(prompt, image, signal),
+};
+
+// Routes that take a single `image` rather than an `images` array
+const SINGLE_IMAGE_ROUTES: ProxyRoute[] = [PROXY_ROUTES.describeLocation, PROXY_ROUTES.segmentProduct];
+
+// Own keys only, so names inherited from Object.prototype (e.g. "toString") are not routes
+const isProxyRoute = (route: string): route is ProxyRoute => Object.hasOwn(ROUTE_HANDLERS, route);
+
+const invalidInput = (message: string) => new ModelError('invalid-input', message, { status: 400 });
+
+const readImage = (value: unknown): InlineImage => {
+    const image = value as Partial<InlineImage> | null;
+    if (!image || typeof image.mimeType !== 'string' || !image.mimeType.startsWith('image/') || typeof image.data !== 'string' || !image.data) {
+        throw invalidInput('Each image needs an image MIME type and base64 data.');
+    }
+    return { mimeType: image.mimeType, data: image.data };
+};
+
+// Checks the body against the route's shape before anything is sent to the model
+const parseRequest = (route: ProxyRoute, raw: Buffer): { prompt: string; images: InlineImage[] } => {
+    let body: { prompt?: unknown; image?: unknown; images?: unknown };
+    try {
+        body = JSON.parse(raw.toString('utf8'));
+    } catch {
+        throw invalidInput('The request body is not valid JSON.');
+    }
+    if (typeof body?.prompt !== 'string' || !body.prompt.trim()) {
+        throw invalidInput('A prompt is required.');
+    }
+    if (body.prompt.length > MAX_PROMPT_LENGTH) {
+        throw invalidInput(`The prompt is longer than ${MAX_PROMPT_LENGTH} characters.`);
+    }
+    if (SINGLE_IMAGE_ROUTES.includes(route)) {
+        return { prompt: body.prompt, images: [readImage(body.image)] };
+    }
+    if (!Array.isArray(body.images) || body.images.length === 0 || body.images.length > MAX_IMAGES) {
+        throw invalidInput(`Between 1 and ${MAX_IMAGES} images are required.`);
+    }
+    return { prompt: body.prompt, images: body.images.map(readImage) };
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+    res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', 'Cache-Control': 'no-store', ...headers });
+    res.end(JSON.stringify(body));
+};
+
+const sendError = (res: ServerResponse, error: ModelError, headers: Record<string, string> = {}) => {
+    // Client errors from upstream keep their status; upstream server failures become a bad gateway
+    const status = error.status && error.status < 500 ? error.status : STATUS_BY_KIND[error.kind];
+    const body: ProxyErrorBody = { error: { kind: error.kind, message: error.message } };
+    sendJson(res, status, body, headers);
+};
+
+const getAddress = (req: IncomingMessage): string => {
+    const forwarded = req.headers['x-forwarded-for'];
+    if (config.trustProxy && typeof forwarded === 'string' && forwarded) {
+        return forwarded.split(',')[0].trim();
+    }
+    return req.socket.remoteAddress ?? 'unknown';
+};
+
+const handleApiRequest = async (req: IncomingMessage, res: ServerResponse, route: string) => {
+    const startedAt = Date.now();
+    const address = getAddress(req);
+    const clientId = req.headers[CLIENT_ID_HEADER.toLowerCase()];
+    const user = typeof clientId === 'string' && CLIENT_ID_PATTERN.test(clientId) ? clientId : address;
+    const entry: RequestLogEntry = { method: req.method ?? 'GET', path: req.url ?? '', user: user === address ? address : shortenId(user), address, status: 0, durationMs: 0, requestBytes: 0 };
+    const finish = (status: number, extra: Partial<RequestLogEntry> = {}) => {
+        logRequest({ ...entry, ...extra, status, durationMs: Date.now() - startedAt });
+    };
+
+    if (route === 'health' && req.method === 'GET') {
+        sendJson(res, 200, { ok: true });
+        return;
+    }
+    if (!isProxyRoute(route)) {
+        sendJson(res, 404, { error: { kind: 'invalid-input', message: `Unknown API route "${route}".` } });
+        finish(404);
+        return;
+    }
+    if (req.method !== 'POST') {
+        sendJson(res, 405, { error: { kind: 'invalid-input', message: 'Use POST.' } }, { Allow: 'POST' });
+        finish(405);
+        return;
+    }
+
+    // The client id is chosen by the client, so a new id per request would get a fresh bucket; limit by address only
+    const limit = addressLimiter.take(address);
+    if (!limit.allowed) {
+        const retryAfterSeconds = Math.ceil(limit.retryAfterMs / 1000);
+        sendError(res, new ModelError('quota', `Too many requests. Try again in ${retryAfterSeconds} s.`), { 'Retry-After': String(retryAfterSeconds) });
+        finish(429, { errorKind: 'quota' });
+        return;
+    }
+
+    // Stop the model call if the browser goes away (e.g. the user cancelled)
+    const controller = new AbortController();
+    res.on('close', () => {
+        if (!res.writableFinished) controller.abort();
+    });
+
+    try {
+        const raw = await readBody(req, config.maxBodyBytes);
+        entry.requestBytes = raw.length;
+        const { prompt, images } = parseRequest(route, raw);
+        entry.imageCount = images.length;
+        entry.promptLength = prompt.length;
+        const result = await ROUTE_HANDLERS[route](prompt, images, controller.signal);
+        sendJson(res, 200, result);
+        finish(200, result.usage ? { inputTokens: result.usage.inputTokens, outputTokens: result.usage.outputTokens } : {});
+    } catch (error) {
+        if (controller.signal.aborted || isAbortError(error)) {
+            finish(499, { aborted: true });
+            return;
+        }
+        const modelError = toModelError(error);
+        console.error(`Request to ${route} failed:`, modelError.message);
+        if (modelError.status === 413) {
+            // The rest of the oversized body is still arriving; drop the connection once the error is out
+            closeAfterResponse(req, res);
+            sendError(res, modelError, { Connection: 'close' });
+        } else {
+            sendError(res, modelError);
+        }
+        finish(res.statusCode, { errorKind: modelError.kind });
+    }
+};
+
+const server = createServer(async (req, res) => {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+    try {
+        if (pathname === PROXY_BASE_PATH || pathname.startsWith(`${PROXY_BASE_PATH}/`)) {
+            await handleApiRequest(req, res, pathname.slice(PROXY_BASE_PATH.length + 1));
+            return;
+        }
+        const isReadRequest = req.method === 'GET' || req.method === 'HEAD';
+        if (config.staticDir && isReadRequest && await serveStatic(config.staticDir, pathname, res, req.method === 'HEAD')) {
+            return;
+        }
+        res.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' });
+        res.end('Not found');
+    } catch (error) {
+        console.error('Unhandled server error:', error);
+        if (!res.headersSent) {
+            res.writeHead(500, { 'Content-Type': 'text/plain; charset=utf-8' });
+        }
+        res.end();
+    }
+});
+
+server.listen(config.port, () => {
+    console.log(`HomeCanvas API server listening on http://localhost:${config.port}`);
+    if (config.staticDir) {
+        console.log(`Serving the front end from ${config.staticDir}`);
+    }
+});
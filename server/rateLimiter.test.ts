@@ -0,0 +1,34 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { createRateLimiter } from './rateLimiter';
+
+describe('createRateLimiter', () => {
+    it('allows a burst up to the limit, then reports when the next request is allowed', () => {
+        const limiter = createRateLimiter({ limit: 3, windowMs: 3000 });
+        expect([0, 0, 0].map(now => limiter.take('a', now).allowed)).toEqual([true, true, true]);
+        expect(limiter.take('a', 0)).toEqual({ allowed: false, retryAfterMs: 1000 });
+        // Other keys have their own bucket
+        expect(limiter.take('b', 0).allowed).toBe(true);
+    });
+
+    it('refills continuously', () => {
+        const limiter = createRateLimiter({ limit: 2, windowMs: 2000 });
+        limiter.take('a', 0);
+        limiter.take('a', 0);
+        expect(limiter.take('a', 500)).toEqual({ allowed: false, retryAfterMs: 500 });
+        expect(limiter.take('a', 1000).allowed).toBe(true);
+    });
+
+    it('forgets buckets once they have refilled', () => {
+        const limiter = createRateLimiter({ limit: 1, windowMs: 1000 });
+        limiter.take('a', 0);
+        limiter.prune(500);
+        expect(limiter.take('a', 500).allowed).toBe(false);
+        limiter.prune(2000);
+        expect(limiter.take('a', 2000).allowed).toBe(true);
+    });
+});
@@ -0,0 +1,51 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// In-memory token buckets keyed by user or address. Each bucket holds up to
+// `limit` requests and refills continuously over `windowMs`, so short bursts
+// are allowed while the sustained rate stays at the limit.
+
+interface Bucket {
+    tokens: number;
+    updatedAt: number;
+}
+
+export interface RateLimitResult {
+    allowed: boolean;
+    // How long until a request would be allowed again; 0 when allowed
+    retryAfterMs: number;
+}
+
+export const createRateLimiter = ({ limit, windowMs = 60_000 }: { limit: number; windowMs?: number }) => {
+    const buckets = new Map<string, Bucket>();
+    const refillPerMs = limit / windowMs;
+
+    const refill = (bucket: Bucket, now: number) => {
+        bucket.tokens = Math.min(limit, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+        bucket.updatedAt = now;
+    };
+
+    return {
+        take: (key: string, now = Date.now()): RateLimitResult => {
+            const bucket = buckets.get(key) ?? { tokens: limit, updatedAt: now };
+            refill(bucket, now);
+            buckets.set(key, bucket);
+            if (bucket.tokens >= 1) {
+                bucket.tokens -= 1;
+                return { allowed: true, retryAfterMs: 0 };
+            }
+            return { allowed: false, retryAfterMs: Math.ceil((1 - bucket.tokens) / refillPerMs) };
+        },
+        // Forgets buckets that have refilled completely, so idle users don't accumulate
+        prune: (now = Date.now()) => {
+            buckets.forEach((bucket, key) => {
+                refill(bucket, now);
+                if (bucket.tokens >= limit) buckets.delete(key);
+            });
+        },
+    };
+};
+
+export type RateLimiter = ReturnType<typeof createRateLimiter>;
@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createServer, request, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterEach, describe, expect, it } from 'vitest';
+import { closeAfterResponse, readBody } from './requestBody';
+import { ModelError } from '../services/modelErrors';
+
+const MAX_BYTES = 1024;
+
+// Answers with the body's size, or with the error status the way the API server does
+const startServer = (): Promise<Server> => new Promise(resolve => {
+    const server = createServer(async (req, res) => {
+        try {
+            const body = await readBody(req, MAX_BYTES);
+            res.end(`read ${body.length}`);
+        } catch (error) {
+            closeAfterResponse(req, res);
+            res.writeHead((error as ModelError).status ?? 500, { Connection: 'close' });
+            res.end((error as Error).message);
+        }
+    });
+    server.listen(0, '127.0.0.1', () => resolve(server));
+});
+
+// Posts the body in chunks, resolving with the response even if the upload is cut short afterwards
+const post = (server: Server, size: number): Promise<{ status: number; body: string }> => new Promise((resolve, reject) => {
+    const { port } = server.address() as AddressInfo;
+    const req = request({ host: '127.0.0.1', port, method: 'POST', headers: { 'Content-Length': size } }, res => {
+        let body = '';
+        res.setEncoding('utf8');
+        res.on('data', chunk => { body += chunk; });
+        res.on('end', () => resolve({ status: res.statusCode ?? 0, body }));
+    });
+    req.on('error', reject);
+    const chunk = Buffer.alloc(256, 'x');
+    for (let sent = 0; sent < size; sent += chunk.length) {
+        req.write(chunk.subarray(0, Math.min(chunk.length, size - sent)));
+    }
+    req.end();
+});
+
+let server: Server | null = null;
+
+afterEach(() => new Promise<void>(resolve => {
+    if (!server) return resolve();
+    server.close(() => resolve());
+    server = null;
+}));
+
+describe('readBody', () => {
+    it('reads a body within the limit', async () => {
+        server = await startServer();
+        expect(await post(server, MAX_BYTES)).toEqual({ status: 200, body: `read ${MAX_BYTES}` });
+    });
+
+    it('answers an oversized body with a 413 that reaches the client', async () => {
+        server = await startServer();
+        const response = await post(server, 64 * 1024);
+        expect(response.status).toBe(413);
+        expect(response.body).toContain('The request is larger than');
+    });
+});
@@ -0,0 +1,44 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { ModelError } from '../services/modelErrors';
+
+// Reading request bodies with a size limit. An oversized body is answered
+// with a 413 on the same connection: the rest of the upload is drained
+// rather than the socket being destroyed, which would drop the response.
+
+/**
+ * Reads a request body of at most `maxBytes`. A larger body is rejected with an
+ * 'invalid-input' error with status 413; the remaining bytes are read and discarded,
+ * so the connection stays usable for the error response (see `closeAfterResponse`).
+ */
+export const readBody = (req: IncomingMessage, maxBytes: number): Promise<Buffer> => {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        const onData = (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > maxBytes) {
+                req.off('data', onData);
+                req.resume();
+                reject(new ModelError('invalid-input', `The request is larger than ${Math.round(maxBytes / 1024 / 1024)} MB.`, { status: 413 }));
+                return;
+            }
+            chunks.push(chunk);
+        };
+        req.on('data', onData);
+        req.on('end', () => resolve(Buffer.concat(chunks)));
+        req.on('error', reject);
+    });
+};
+
+/**
+ * Closes the connection once the response has been sent, for a request whose body
+ * was not read to the end; the response should also carry `Connection: close`.
+ */
+export const closeAfterResponse = (req: IncomingMessage, res: ServerResponse) => {
+    res.once('finish', () => req.socket.destroy());
+};
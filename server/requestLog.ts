@@ -0,0 +1,32 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// One JSON line per API request on stdout. Prompts and images are never
+// logged, only their sizes.
+
+export interface RequestLogEntry {
+    method: string;
+    path: string;
+    // Shortened client id, or the address when the client sent none
+    user: string;
+    address: string;
+    status: number;
+    durationMs: number;
+    requestBytes: number;
+    imageCount?: number;
+    promptLength?: number;
+    errorKind?: string;
+    // Billed tokens reported by the model
+    inputTokens?: number;
+    outputTokens?: number;
+    // The client disconnected before the response was sent
+    aborted?: boolean;
+}
+
+export const shortenId = (id: string): string => id.length > 12 ? `${id.slice(0, 8)}…` : id;
+
+export const logRequest = (entry: RequestLogEntry) => {
+    console.log(JSON.stringify({ at: new Date().toISOString(), ...entry }));
+};
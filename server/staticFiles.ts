@@ -0,0 +1,74 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createReadStream } from 'node:fs';
+import { stat } from 'node:fs/promises';
+import path from 'node:path';
+import { ServerResponse } from 'node:http';
+
+// Serves the built front end (`npm run build`) so one process can host the
+// app and its API. Unknown paths without a file extension get index.html.
+
+const CONTENT_TYPES: Record<string, string> = {
+    '.html': 'text/html; charset=utf-8',
+    '.js': 'text/javascript; charset=utf-8',
+    '.css': 'text/css; charset=utf-8',
+    '.json': 'application/json; charset=utf-8',
+    '.map': 'application/json; charset=utf-8',
+    '.svg': 'image/svg+xml',
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.webp': 'image/webp',
+    '.ico': 'image/x-icon',
+    '.woff2': 'font/woff2',
+};
+
+const isFile = async (filePath: string): Promise<boolean> => {
+    try {
+        return (await stat(filePath)).isFile();
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Sends the file for a request path from `rootDir`.
+ * @returns False when there is nothing to serve, so the caller can send a 404.
+ */
+export const serveStatic = async (rootDir: string, urlPath: string, res: ServerResponse, headOnly = false): Promise<boolean> => {
+    const root = path.resolve(rootDir);
+    let requested: string;
+    try {
+        requested = decodeURIComponent(urlPath);
+    } catch {
+        return false;
+    }
+    // Resolving against the root and checking the prefix keeps '..' from escaping it
+    let filePath = path.resolve(root, `.${requested}`);
+    if (filePath !== root && !filePath.startsWith(root + path.sep)) {
+        return false;
+    }
+    if (!(await isFile(filePath))) {
+        const isRoute = filePath === root || !path.extname(filePath);
+        filePath = path.join(root, 'index.html');
+        if (!isRoute || !(await isFile(filePath))) {
+            return false;
+        }
+    }
+
+    // Vite fingerprints everything under /assets, so those can be cached for good
+    const isFingerprinted = filePath.startsWith(path.join(root, 'assets') + path.sep);
+    res.writeHead(200, {
+        'Content-Type': CONTENT_TYPES[path.extname(filePath).toLowerCase()] ?? 'application/octet-stream',
+        'Cache-Control': isFingerprinted ? 'public, max-age=31536000, immutable' : 'no-cache',
+    });
+    if (headOnly) {
+        res.end();
+    } else {
+        createReadStream(filePath).pipe(res);
+    }
+    return true;
+};
@@ -0,0 +1,41 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Cancellation helpers. Model calls accept an AbortSignal directly; image
+// preparation (FileReader, Image decoding, canvas encoding) cannot be
+// interrupted, so those promises are raced against the signal instead.
+
+const createAbortError = (): DOMException => new DOMException('The request was cancelled.', 'AbortError');
+
+export const isAbortError = (error: unknown): boolean => {
+    return error instanceof DOMException && error.name === 'AbortError'
+        || (error instanceof Error && error.name === 'AbortError');
+};
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+    if (signal?.aborted) {
+        throw createAbortError();
+    }
+};
+
+// Rejects as soon as the signal aborts, even if the wrapped work is still running
+export const abortable = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+    if (!signal) return promise;
+    if (signal.aborted) return Promise.reject(createAbortError());
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => reject(createAbortError());
+        signal.addEventListener('abort', onAbort, { once: true });
+        promise.then(
+            value => {
+                signal.removeEventListener('abort', onAbort);
+                resolve(value);
+            },
+            error => {
+                signal.removeEventListener('abort', onAbort);
+                reject(error);
+            }
+        );
+    });
+};
@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ChatMessage, SceneVersion } from '../components/types';
+import { findVersion, getVersionPath } from './versionTree';
+
+// Builds the conversation summary sent with each chat edit, so follow-ups
+// like "a bit darker than that" or "undo the rug but keep the lamp" can be
+// resolved against earlier turns and the edits that led to the image.
+
+// Most recent turns quoted verbatim (apart from truncation)
+const RECENT_TURNS = 8;
+// Older user requests are only listed, up to this many
+const OLDER_REQUESTS = 10;
+const MAX_TEXT_LENGTH = 240;
+
+const truncate = (text: string, maxLength = MAX_TEXT_LENGTH): string => {
+    const singleLine = text.replace(/\s+/g, ' ').trim();
+    return singleLine.length > maxLength ? `${singleLine.slice(0, maxLength - 1)}…` : singleLine;
+};
+
+/**
+ * Summarizes the chat history and the edit path of the image being edited.
+ * @param history The chat transcript so far (without the new request).
+ * @param versions All scene versions.
+ * @param baseVersionId The version the new request will edit.
+ * @returns A plain-text context block, or an empty string if there is nothing to add.
+ */
+export const buildChatContext = (history: ChatMessage[], versions: SceneVersion[], baseVersionId: string): string => {
+    const path = getVersionPath(versions, baseVersionId);
+    const stepNumbers = new Map(path.map((version, index) => [version.id, index + 1]));
+
+    // Describes which version a message refers to, relative to the image being edited
+    const describeVersion = (versionId?: string): string => {
+        if (!versionId) return '';
+        const step = stepNumbers.get(versionId);
+        if (step) return ` [step ${step}${versionId === baseVersionId ? ', the image being edited' : ''}]`;
+        const version = findVersion(versions, versionId);
+        return version ? ` [a discarded branch: "${truncate(version.label, 60)}"]` : '';
+    };
+
+    const sections: string[] = [];
+
+    if (path.length > 1) {
+        const steps = path.map((version, index) => {
+            const label = index === 0 ? 'Original upload' : truncate(version.label, 120);
+            return `${index + 1}. ${label}${version.id === baseVersionId ? ' (this is the image you are editing)' : ''}`;
+        });
+        sections.push(`Edits that produced the image, oldest first:\n${steps.join('\n')}`);
+    }
+
+    const olderMessages = history.slice(0, -RECENT_TURNS);
+    const olderRequests = olderMessages.filter(message => message.role === 'user').slice(-OLDER_REQUESTS);
+    if (olderRequests.length > 0) {
+        const omitted = olderMessages.filter(message => message.role === 'user').length - olderRequests.length;
+        const list = olderRequests.map(message => `- "${truncate(message.text, 120)}"${describeVersion(message.versionId)}`);
+        sections.push(`Earlier requests${omitted > 0 ? ` (${omitted} older ones omitted)` : ''}:\n${list.join('\n')}`);
+    }
+
+    const recentMessages = history.slice(-RECENT_TURNS);
+    if (recentMessages.length > 0) {
+        const turns = recentMessages.map(message => {
+            const speaker = message.role === 'user' ? 'User' : 'You';
+            const attachment = message.imageFile ? ' (with an attached image)' : '';
+            return `${speaker}${attachment}: "${truncate(message.text)}"${describeVersion(message.versionId)}`;
+        });
+        sections.push(`Recent conversation:\n${turns.join('\n')}`);
+    }
+
+    return sections.join('\n\n');
+};
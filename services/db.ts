@@ -0,0 +1,59 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Shared IndexedDB connection for everything HomeCanvas persists locally.
+
+const DB_NAME = 'home-canvas';
+const DB_VERSION = 3;
+
+export const PROJECTS_STORE = 'projects';
+export const PRODUCTS_STORE = 'products';
+export const RESPONSES_STORE = 'responses';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Helper to turn an IDBRequest into a promise
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed.'));
+    });
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                return reject(new Error('IndexedDB is not available in this browser.'));
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                // Stores are only ever added, so each check is safe to run on any upgrade path
+                if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+                    const store = db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+                    store.createIndex('updatedAt', 'updatedAt');
+                }
+                if (!db.objectStoreNames.contains(PRODUCTS_STORE)) {
+                    db.createObjectStore(PRODUCTS_STORE, { keyPath: 'id' });
+                }
+                if (!db.objectStoreNames.contains(RESPONSES_STORE)) {
+                    const store = db.createObjectStore(RESPONSES_STORE, { keyPath: 'key' });
+                    store.createIndex('createdAt', 'createdAt');
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error ?? new Error('Could not open the local database.'));
+        });
+        // Allow a later call to retry if opening failed
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
+
+export const getStore = async (storeName: string, mode: IDBTransactionMode): Promise<IDBObjectStore> => {
+    const db = await openDatabase();
+    return db.transaction(storeName, mode).objectStore(storeName);
+};
@@ -0,0 +1,176 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { SceneVersion } from '../components/types';
+import { canvasToFile, createMaskCanvas, loadImageFromBlob } from './maskUtils';
+import { embedMetadata, ExportMetadata } from './imageMetadata';
+import { flattenVersionTree, getVersionPath } from './versionTree';
+import { createZip, ZipEntry } from './zipArchive';
+
+export type ExportFormat = 'png' | 'jpeg' | 'webp';
+
+export interface ExportOptions {
+    format: ExportFormat;
+    // Encoder quality between 0 and 1; ignored for PNG.
+    quality: number;
+    // Scale the image back up toward the size of the originally uploaded scene.
+    upscaleToOriginal: boolean;
+    includeMetadata: boolean;
+}
+
+const FORMAT_MIME_TYPES: Record<ExportFormat, string> = {
+    png: 'image/png',
+    jpeg: 'image/jpeg',
+    webp: 'image/webp',
+};
+
+const FORMAT_EXTENSIONS: Record<ExportFormat, string> = {
+    png: 'png',
+    jpeg: 'jpg',
+    webp: 'webp',
+};
+
+// Turns free text into something safe to use in a file name
+const slugify = (value: string): string => {
+    const slug = value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+    return slug.slice(0, 40) || 'scene';
+};
+
+export const getExportFileName = (projectName: string, label: string, format: ExportFormat): string => {
+    return `${slugify(projectName)}-${slugify(label)}.${FORMAT_EXTENSIONS[format]}`;
+};
+
+/**
+ * Computes the output size. Generated images are capped at the model's working
+ * resolution, so upscaling grows them toward the original upload while keeping
+ * their aspect ratio. Images are never scaled down.
+ */
+export const getExportSize = (
+    size: { width: number; height: number },
+    originalSize: { width: number; height: number } | null,
+    upscaleToOriginal: boolean
+): { width: number; height: number } => {
+    if (!upscaleToOriginal || !originalSize) return size;
+    const factor = Math.max(1, Math.min(originalSize.width / size.width, originalSize.height / size.height));
+    return { width: Math.round(size.width * factor), height: Math.round(size.height * factor) };
+};
+
+// Collects the products and prompts that led to a version, from the original upload onward
+export const buildVersionMetadata = (versions: SceneVersion[], version: SceneVersion, projectName: string): ExportMetadata => {
+    const path = getVersionPath(versions, version.id);
+    const products = Array.from(new Set(path.flatMap(step => step.products ?? [])));
+    const prompts = path.flatMap(step => step.prompt ? [step.prompt] : []);
+    return {
+        title: `${projectName} – ${version.label}`,
+        createdAt: version.createdAt,
+        exportedAt: Date.now(),
+        products,
+        prompts,
+    };
+};
+
+// Reads the pixel size of the root version, i.e. the scene as it was uploaded
+export const getOriginalSceneSize = async (versions: SceneVersion[], versionId: string): Promise<{ width: number; height: number } | null> => {
+    const root = getVersionPath(versions, versionId)[0];
+    if (!root) return null;
+    const img = await loadImageFromBlob(root.image);
+    return { width: img.naturalWidth, height: img.naturalHeight };
+};
+
+/**
+ * Re-encodes a scene image for download.
+ * @param image The scene image to export.
+ * @param options Format, quality and sizing options.
+ * @param originalSize Size of the original upload, used when upscaling.
+ * @param metadata Details to embed, or null to export the pixels only.
+ * @returns The encoded image.
+ */
+export const renderExport = async (
+    image: File,
+    options: ExportOptions,
+    originalSize: { width: number; height: number } | null,
+    metadata: ExportMetadata | null
+): Promise<Blob> => {
+    const img = await loadImageFromBlob(image);
+    const size = getExportSize({ width: img.naturalWidth, height: img.naturalHeight }, originalSize, options.upscaleToOriginal);
+
+    const canvas = createMaskCanvas(size.width, size.height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get canvas context for export.');
+    }
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'high';
+    if (options.format === 'jpeg') {
+        // JPEG has no alpha; flatten onto white instead of the default black
+        ctx.fillStyle = 'white';
+        ctx.fillRect(0, 0, size.width, size.height);
+    }
+    ctx.drawImage(img, 0, 0, size.width, size.height);
+
+    const mimeType = FORMAT_MIME_TYPES[options.format];
+    const quality = options.format === 'png' ? undefined : options.quality;
+    const encoded = await canvasToFile(canvas, image.name, mimeType, quality);
+
+    return metadata && options.includeMetadata ? embedMetadata(encoded, metadata, size) : encoded;
+};
+
+/**
+ * Exports every version in the history tree as a ZIP archive, together with a
+ * `history.json` describing how the versions relate to each other.
+ */
+export const exportHistoryZip = async (
+    versions: SceneVersion[],
+    projectName: string,
+    options: ExportOptions
+): Promise<Blob> => {
+    const rows = flattenVersionTree(versions);
+    if (rows.length === 0) {
+        throw new Error('There is no history to export.');
+    }
+    const originalSize = await getOriginalSceneSize(versions, rows[0].version.id);
+    const padLength = String(rows.length).length;
+
+    const entries: ZipEntry[] = [];
+    const manifest = [];
+    for (const [index, { version }] of rows.entries()) {
+        const fileName = `${String(index + 1).padStart(padLength, '0')}-${slugify(version.label)}.${FORMAT_EXTENSIONS[options.format]}`;
+        const metadata = buildVersionMetadata(versions, version, projectName);
+        entries.push({
+            name: `images/${fileName}`,
+            data: await renderExport(version.image, options, originalSize, metadata),
+            modifiedAt: version.createdAt,
+        });
+        manifest.push({
+            id: version.id,
+            parentId: version.parentId,
+            file: `images/${fileName}`,
+            label: version.label,
+            operation: version.operation,
+            prompt: version.prompt,
+            products: version.products ?? [],
+            createdAt: new Date(version.createdAt).toISOString(),
+        });
+    }
+
+    entries.push({
+        name: 'history.json',
+        data: JSON.stringify({ project: projectName, exportedAt: new Date().toISOString(), versions: manifest }, null, 2),
+    });
+    return createZip(entries);
+};
+
+// Triggers a browser download for the given Blob
+export const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    // Give the browser a moment to start the download before releasing the URL
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,106 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import {
+    DEFAULT_FLOOR_QUAD,
+    findVanishingPoint,
+    FloorQuad,
+    getDepthScale,
+    getFootprintPolygon,
+    parseFloorQuad,
+    planeToImage,
+} from './floorPlane';
+
+// A floor seen straight from above: the homography is a plain scale and offset
+const SQUARE_QUAD: FloorQuad = [
+    { x: 10, y: 90 },
+    { x: 90, y: 90 },
+    { x: 90, y: 10 },
+    { x: 10, y: 10 },
+];
+
+describe('planeToImage', () => {
+    it('maps the unit square onto the corners of the quad', () => {
+        const corners = [[0, 0], [1, 0], [1, 1], [0, 1]].map(([u, v]) => planeToImage(DEFAULT_FLOOR_QUAD, u, v));
+        corners.forEach((corner, index) => {
+            expect(corner.x).toBeCloseTo(DEFAULT_FLOOR_QUAD[index].x);
+            expect(corner.y).toBeCloseTo(DEFAULT_FLOOR_QUAD[index].y);
+        });
+    });
+
+    it('puts the plane center at the crossing of the diagonals', () => {
+        const center = planeToImage(DEFAULT_FLOOR_QUAD, 0.5, 0.5);
+        const [nearLeft, nearRight, farRight, farLeft] = DEFAULT_FLOOR_QUAD;
+        // Both diagonals pass through the mapped center
+        const onLine = (a: { x: number; y: number }, b: { x: number; y: number }) =>
+            (b.x - a.x) * (center.y - a.y) - (b.y - a.y) * (center.x - a.x);
+        expect(onLine(nearLeft, farRight)).toBeCloseTo(0);
+        expect(onLine(nearRight, farLeft)).toBeCloseTo(0);
+    });
+});
+
+describe('findVanishingPoint', () => {
+    it('finds where the receding edges meet', () => {
+        const point = findVanishingPoint(DEFAULT_FLOOR_QUAD);
+        expect(point).not.toBeNull();
+        expect(point!.x).toBeCloseTo(50);
+        expect(point!.y).toBeLessThan(62);
+    });
+
+    it('returns null for parallel edges', () => {
+        expect(findVanishingPoint(SQUARE_QUAD)).toBeNull();
+    });
+});
+
+describe('getDepthScale', () => {
+    it('is 1 on the near edge and smaller further away', () => {
+        expect(getDepthScale(DEFAULT_FLOOR_QUAD, 95)).toBeCloseTo(1);
+        expect(getDepthScale(DEFAULT_FLOOR_QUAD, 62)).toBeLessThan(1);
+    });
+
+    it('is 1 without perspective', () => {
+        expect(getDepthScale(SQUARE_QUAD, 30)).toBe(1);
+    });
+});
+
+describe('getFootprintPolygon', () => {
+    it('is centered on the product and as wide as requested', () => {
+        const polygon = getFootprintPolygon(SQUARE_QUAD, { x: 50, y: 50 }, 20, 0, 1, 0.5);
+        expect(polygon).toHaveLength(4);
+        const [frontLeft, frontRight, backRight, backLeft] = polygon!;
+        expect(frontRight.x - frontLeft.x).toBeCloseTo(20);
+        expect((frontLeft.x + backRight.x) / 2).toBeCloseTo(50);
+        expect((frontLeft.y + backRight.y) / 2).toBeCloseTo(50);
+        // Half as deep as wide
+        expect(Math.abs(backLeft.y - frontLeft.y)).toBeCloseTo(10);
+    });
+
+    it('turns with the rotation', () => {
+        const polygon = getFootprintPolygon(SQUARE_QUAD, { x: 50, y: 50 }, 20, 90, 1, 0.5)!;
+        const [frontLeft, frontRight] = polygon;
+        // A quarter turn makes the front edge run along the depth axis
+        expect(frontRight.x - frontLeft.x).toBeCloseTo(0);
+    });
+});
+
+describe('parseFloorQuad', () => {
+    it('reads 0-1000 [y, x] corners, also inside a code fence', () => {
+        const quad = parseFloorQuad('```json\n{"floor": [[950, 50], [950, 950], [600, 700], [600, 300]]}\n```');
+        expect(quad).toEqual([
+            { x: 5, y: 95 },
+            { x: 95, y: 95 },
+            { x: 70, y: 60 },
+            { x: 30, y: 60 },
+        ]);
+    });
+
+    it('rejects a missing floor, malformed corners and an upside-down quad', () => {
+        expect(parseFloorQuad('{"floor": null}')).toBeNull();
+        expect(parseFloorQuad('{"floor": [[1, 2], [3, 4]]}')).toBeNull();
+        expect(parseFloorQuad('{"floor": [[600, 50], [600, 950], [950, 700], [950, 300]]}')).toBeNull();
+        expect(parseFloorQuad('not json')).toBeNull();
+    });
+});
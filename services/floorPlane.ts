@@ -0,0 +1,205 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Floor plane geometry for perspective-aware placement. The floor is a
+// quadrilateral drawn on the scene (in percent of the image's width and
+// height) that is treated as a square patch of flat floor seen through the
+// camera. A homography maps plane coordinates (u to the right, v away from
+// the camera, both 0-1 across the quad) onto the image.
+
+export interface PlanePoint {
+    x: number;
+    y: number;
+}
+
+// Corners in order: near-left, near-right, far-right, far-left.
+export type FloorQuad = [PlanePoint, PlanePoint, PlanePoint, PlanePoint];
+
+// Row-major 3x3 matrix with the last entry fixed at 1.
+type Homography = [number, number, number, number, number, number, number, number, number];
+
+// A typical eye-level interior shot: the floor fills the lower part of the frame and recedes to the middle.
+export const DEFAULT_FLOOR_QUAD: FloorQuad = [
+    { x: 5, y: 95 },
+    { x: 95, y: 95 },
+    { x: 72, y: 62 },
+    { x: 28, y: 62 },
+];
+
+// Products cannot shrink or grow without bound as they approach the horizon or the camera.
+const MIN_DEPTH_SCALE = 0.1;
+const MAX_DEPTH_SCALE = 4;
+
+// Maps the unit square onto the quad (Heckbert's square-to-quad construction).
+const computeHomography = (quad: FloorQuad): Homography => {
+    const [p0, p1, p2, p3] = quad;
+    const sx = p0.x - p1.x + p2.x - p3.x;
+    const sy = p0.y - p1.y + p2.y - p3.y;
+    let g = 0;
+    let h = 0;
+    if (Math.abs(sx) > 1e-9 || Math.abs(sy) > 1e-9) {
+        const dx1 = p1.x - p2.x, dx2 = p3.x - p2.x;
+        const dy1 = p1.y - p2.y, dy2 = p3.y - p2.y;
+        const denominator = dx1 * dy2 - dx2 * dy1;
+        if (Math.abs(denominator) > 1e-9) {
+            g = (sx * dy2 - dx2 * sy) / denominator;
+            h = (dx1 * sy - sx * dy1) / denominator;
+        }
+    }
+    return [
+        p1.x - p0.x + g * p1.x, p3.x - p0.x + h * p3.x, p0.x,
+        p1.y - p0.y + g * p1.y, p3.y - p0.y + h * p3.y, p0.y,
+        g, h, 1,
+    ];
+};
+
+const invertHomography = (m: Homography): Homography | null => {
+    const [a, b, c, d, e, f, g, h, i] = m;
+    const A = e * i - f * h, B = -(d * i - f * g), C = d * h - e * g;
+    const determinant = a * A + b * B + c * C;
+    if (Math.abs(determinant) < 1e-12) {
+        return null;
+    }
+    const inverse: Homography = [
+        A, -(b * i - c * h), b * f - c * e,
+        B, a * i - c * g, -(a * f - c * d),
+        C, -(a * h - b * g), a * e - b * d,
+    ];
+    return inverse.map(value => value / determinant) as Homography;
+};
+
+const applyHomography = (m: Homography, x: number, y: number): PlanePoint => {
+    const w = m[6] * x + m[7] * y + m[8];
+    return { x: (m[0] * x + m[1] * y + m[2]) / w, y: (m[3] * x + m[4] * y + m[5]) / w };
+};
+
+// Point where two infinite lines (a1-a2 and b1-b2) cross, or null when they are (nearly) parallel.
+const intersectLines = (a1: PlanePoint, a2: PlanePoint, b1: PlanePoint, b2: PlanePoint): PlanePoint | null => {
+    const denominator = (a1.x - a2.x) * (b1.y - b2.y) - (a1.y - a2.y) * (b1.x - b2.x);
+    if (Math.abs(denominator) < 1e-6) {
+        return null;
+    }
+    const t = ((a1.x - b1.x) * (b1.y - b2.y) - (a1.y - b1.y) * (b1.x - b2.x)) / denominator;
+    return { x: a1.x + t * (a2.x - a1.x), y: a1.y + t * (a2.y - a1.y) };
+};
+
+/**
+ * Vanishing point of the floor's receding edges (near-left to far-left and
+ * near-right to far-right). Returns null when the edges do not converge.
+ */
+export const findVanishingPoint = (quad: FloorQuad): PlanePoint | null => {
+    const [nearLeft, nearRight, farRight, farLeft] = quad;
+    const point = intersectLines(nearLeft, farLeft, nearRight, farRight);
+    // Edges that converge towards the camera are not a valid floor
+    if (!point || point.y >= Math.min(nearLeft.y, nearRight.y)) {
+        return null;
+    }
+    return point;
+};
+
+/**
+ * How much larger or smaller an object standing at `yPercent` appears than the
+ * same object standing on the near edge of the floor. For a level camera the
+ * apparent size is proportional to the distance below the horizon.
+ */
+export const getDepthScale = (quad: FloorQuad, yPercent: number): number => {
+    const vanishingPoint = findVanishingPoint(quad);
+    if (!vanishingPoint) {
+        return 1;
+    }
+    const nearY = (quad[0].y + quad[1].y) / 2;
+    const scale = (yPercent - vanishingPoint.y) / (nearY - vanishingPoint.y);
+    return Math.min(MAX_DEPTH_SCALE, Math.max(MIN_DEPTH_SCALE, scale));
+};
+
+// Maps plane coordinates back to the image, in percent.
+export const planeToImage = (quad: FloorQuad, u: number, v: number): PlanePoint => {
+    return applyHomography(computeHomography(quad), u, v);
+};
+
+/**
+ * Footprint of a product on the floor as an image-space polygon (percent
+ * coordinates, in the order front-left, front-right, back-right, back-left).
+ * @param center Where the product stands, in percent of the image.
+ * @param widthPercent The product's on-screen width in percent of the image width.
+ * @param rotation Turn around the vertical axis in degrees, positive is clockwise seen from above.
+ * @param aspectRatio The image's width divided by its height.
+ * @param depthRatio The footprint's depth relative to its width.
+ */
+export const getFootprintPolygon = (
+    quad: FloorQuad,
+    center: PlanePoint,
+    widthPercent: number,
+    rotation: number,
+    aspectRatio: number,
+    depthRatio = 0.6
+): PlanePoint[] | null => {
+    const homography = computeHomography(quad);
+    const inverse = invertHomography(homography);
+    if (!inverse) {
+        return null;
+    }
+    const { x: u, y: v } = applyHomography(inverse, center.x, center.y);
+
+    // Measure how wide one plane unit appears at this spot (in x-percent units) to size the footprint
+    const STEP = 0.01;
+    const here = applyHomography(homography, u, v);
+    const right = applyHomography(homography, u + STEP, v);
+    const unitWidth = Math.hypot(right.x - here.x, (right.y - here.y) / aspectRatio) / STEP;
+    if (!Number.isFinite(unitWidth) || unitWidth === 0) {
+        return null;
+    }
+    const halfWidth = widthPercent / unitWidth / 2;
+    const halfDepth = halfWidth * depthRatio;
+
+    const radians = (rotation * Math.PI) / 180;
+    const cos = Math.cos(radians);
+    const sin = Math.sin(radians);
+    const corners = [
+        { x: -halfWidth, y: -halfDepth },
+        { x: halfWidth, y: -halfDepth },
+        { x: halfWidth, y: halfDepth },
+        { x: -halfWidth, y: halfDepth },
+    ];
+    return corners.map(corner => applyHomography(
+        homography,
+        u + corner.x * cos + corner.y * sin,
+        v - corner.x * sin + corner.y * cos
+    ));
+};
+
+// "(12%, 80%)" style list used in prompts.
+export const formatPolygon = (points: PlanePoint[]): string => {
+    return points.map(point => `(${Math.round(point.x)}%, ${Math.round(point.y)}%)`).join(', ');
+};
+
+/**
+ * Reads a floor quad from a model reply of the form
+ * `{"floor": [[y, x], [y, x], [y, x], [y, x]]}` with 0-1000 normalized
+ * coordinates in near-left, near-right, far-right, far-left order.
+ */
+export const parseFloorQuad = (text: string): FloorQuad | null => {
+    try {
+        const cleaned = text.replace(/^```(?:json)?\s*|\s*```$/g, '').trim();
+        const parsed = JSON.parse(cleaned) as { floor?: unknown };
+        const corners = parsed.floor;
+        if (!Array.isArray(corners) || corners.length !== 4) {
+            return null;
+        }
+        const points = corners.map(corner => {
+            if (!Array.isArray(corner) || corner.length !== 2 || !corner.every(value => typeof value === 'number')) {
+                throw new Error('Invalid floor corner.');
+            }
+            return { x: corner[1] / 10, y: corner[0] / 10 };
+        });
+        const quad = points as FloorQuad;
+        // The near edge must be lower in the frame than the far edge
+        const nearY = (quad[0].y + quad[1].y) / 2;
+        const farY = (quad[2].y + quad[3].y) / 2;
+        return nearY > farY ? quad : null;
+    } catch {
+        return null;
+    }
+};
@@ -0,0 +1,147 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { editImageWithChat, generateCompositeImage, ProductPlacement } from './geminiService';
+import { blendIntoScene, compositeRegionIntoScene, inlineImageToBlob } from './imagePipeline';
+import { createImageModelProvider, ImageModelProvider, setImageModelProvider } from './providers';
+
+// Canvas work needs a browser, so the image jobs are replaced with stand-ins that keep
+// their inputs recognizable; the base64 helpers are kept as they are.
+vi.mock('./imagePipeline', async (importOriginal) => ({
+    ...await importOriginal<typeof import('./imagePipeline')>(),
+    prepareSceneImages: vi.fn(async (scene: Blob, _targetDimension: number, options: { markers?: unknown[] | null; regionMask?: Blob | null } = {}) => ({
+        width: 800,
+        height: 600,
+        padded: new Blob(['padded scene'], { type: 'image/jpeg' }),
+        marked: options.markers ? new Blob(['marked scene'], { type: 'image/jpeg' }) : null,
+        highlighted: options.regionMask ? new Blob(['highlighted scene'], { type: 'image/jpeg' }) : null,
+    })),
+    padImageToSquare: vi.fn(async (image: Blob) => new Blob(['padded ', image], { type: 'image/png' })),
+    cropImageToScene: vi.fn(async (image: Blob) => image),
+    blendIntoScene: vi.fn(async (_scene: Blob, images: Blob[]) => images),
+    compositeRegionIntoScene: vi.fn(async (_scene: Blob, images: Blob[]) => images),
+}));
+
+// Node has no FileReader; the debug image is read as a data URL
+class TestFileReader {
+    result: string | null = null;
+    onload: (() => void) | null = null;
+    onerror: ((error: unknown) => void) | null = null;
+
+    readAsDataURL(blob: Blob) {
+        blob.arrayBuffer().then(buffer => {
+            this.result = `data:${blob.type};base64,${Buffer.from(buffer).toString('base64')}`;
+            this.onload?.();
+        }, error => this.onerror?.(error));
+    }
+}
+
+const SCENE = new File(['scene'], 'scene.jpg', { type: 'image/jpeg' });
+
+const PLACEMENT: ProductPlacement = {
+    image: new File(['sofa'], 'sofa.png', { type: 'image/png' }),
+    description: 'a green sofa',
+    xPercent: 40,
+    yPercent: 70,
+    scale: 1,
+    rotation: 0,
+    flipHorizontal: false,
+};
+
+const readText = (blob: Blob) => blob.text();
+
+let provider: ImageModelProvider;
+
+beforeEach(() => {
+    vi.stubGlobal('FileReader', TestFileReader);
+    // The pipeline logs every step, and the response cache warns that IndexedDB is missing
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    provider = createImageModelProvider('mock');
+    setImageModelProvider(provider);
+});
+
+afterEach(() => {
+    setImageModelProvider(null);
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    vi.mocked(blendIntoScene).mockClear();
+    vi.mocked(compositeRegionIntoScene).mockClear();
+});
+
+describe('generateCompositeImage', () => {
+    it('composes every variant from the clean scene and blends them into the scene in one pass', async () => {
+        const compose = vi.spyOn(provider, 'compose');
+        const describeLocation = vi.spyOn(provider, 'describeLocation');
+        const stages: string[] = [];
+
+        const result = await generateCompositeImage([PLACEMENT], SCENE, 'a living room', {
+            variantCount: 2,
+            verifyPlacement: false,
+            useCache: false,
+            onProgress: event => { if (event.type === 'stage-start') stages.push(event.stage); },
+        });
+
+        // The location is described from the marked scene; the composite is made from the clean one
+        expect(await readText(inlineImageToBlob(describeLocation.mock.calls[0][1]))).toBe('marked scene');
+        expect(compose).toHaveBeenCalledTimes(2);
+        const [prompt, images] = compose.mock.calls[0];
+        expect(prompt).toContain('a green sofa');
+        expect(prompt).toContain('mock description');
+        expect(images).toHaveLength(2);
+        expect(await readText(inlineImageToBlob(images[1]))).toBe('padded scene');
+
+        // The mock hands the scene back, and both variants are blended into the scene together
+        expect(blendIntoScene).toHaveBeenCalledTimes(1);
+        expect(vi.mocked(blendIntoScene).mock.calls[0][0]).toBe(SCENE);
+        expect(await Promise.all(result.finalImages.map(readText))).toEqual(['padded scene', 'padded scene']);
+        expect(result.placementReports).toEqual([null, null]);
+        expect(result.cachedVariantCount).toBe(0);
+        expect(result.debugImageUrl).toBe(`data:image/jpeg;base64,${Buffer.from('marked scene').toString('base64')}`);
+        expect(stages).toEqual(expect.arrayContaining(['resizing', 'marking', 'describing', 'composing', 'blending']));
+    });
+
+    it('needs at least one product', async () => {
+        await expect(generateCompositeImage([], SCENE, 'a living room')).rejects.toThrow('At least one product');
+    });
+
+    it('stops when cancelled', async () => {
+        const controller = new AbortController();
+        controller.abort();
+        await expect(generateCompositeImage([PLACEMENT], SCENE, 'a living room', { signal: controller.signal, useCache: false }))
+            .rejects.toMatchObject({ name: 'AbortError' });
+    });
+});
+
+describe('editImageWithChat', () => {
+    it('returns the reply and blends each edited variant into the scene', async () => {
+        const edit = vi.spyOn(provider, 'edit');
+
+        const result = await editImageWithChat('Make the walls blue', SCENE, null, { variantCount: 2, useCache: false });
+
+        expect(edit).toHaveBeenCalledTimes(2);
+        expect(edit.mock.calls[0][0]).toContain('Make the walls blue');
+        expect(result.text).toBe('Mock edit applied. The scene is returned unchanged.');
+        expect(result.images).toHaveLength(2);
+        expect(blendIntoScene).toHaveBeenCalledTimes(1);
+        expect(compositeRegionIntoScene).not.toHaveBeenCalled();
+    });
+
+    it('shows the model the painted region and keeps the edit inside it', async () => {
+        const edit = vi.spyOn(provider, 'edit');
+        const regionMask = new Blob(['mask'], { type: 'image/png' });
+        const content = new File(['tiles'], 'tiles.png', { type: 'image/png' });
+
+        const result = await editImageWithChat('Use these tiles', SCENE, content, { regionMask, useCache: false });
+
+        // Scene, content image, then the highlighted region
+        const images = edit.mock.calls[0][1];
+        expect(await Promise.all(images.map(image => readText(inlineImageToBlob(image))))).toEqual(['padded scene', 'padded tiles', 'highlighted scene']);
+        expect(compositeRegionIntoScene).toHaveBeenCalledWith(SCENE, expect.any(Array), regionMask);
+        expect(blendIntoScene).not.toHaveBeenCalled();
+        expect(result.images).toHaveLength(1);
+    });
+});
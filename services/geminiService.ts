@@ -4,517 +4,745 @@
 */
 
 
-import { GoogleGenAI, GenerateContentResponse, Modality, Part } from "@google/genai";
+import { getImageModelProvider, InlineImage, ModelImageResult, ModelUsage } from './providers';
+import { getMarkerColor, PreparedScene, ProductSegmentation } from './imageOps';
+import {
+    blendIntoScene,
+    blobToInlineImage,
+    compositeRegionIntoScene,
+    cropImageToScene,
+    cutOutProduct,
+    detectSceneChanges,
+    inlineImageToBlob,
+    padImageToSquare,
+    prepareSceneImages,
+    scaleImageToFit,
+} from './imagePipeline';
+import { createProgressTracker, ProgressListener } from './pipelineProgress';
+import { abortable, isAbortError, throwIfAborted } from './abort';
+import { ModelError } from './modelErrors';
+import { FloorQuad, formatPolygon, parseFloorQuad, PlanePoint } from './floorPlane';
+import { formatDimensions } from './sceneScale';
+import { ProductDimensions } from '../components/types';
+import {
+    buildCorrectionNote,
+    FoundBox,
+    getPlacementError,
+    measurePlacement,
+    parseProductBoxes,
+    PlacementReport,
+    renderVerificationImage,
+} from './placementVerification';
+import { PromptTemplateSet, renderPromptTemplate, resolvePromptTemplates } from './promptTemplates';
+import { createCacheKey, readCachedResponse, writeCachedResponse } from './responseCache';
+import { UsageCall, UsageListener } from './usage';
+
+// Passes a call's usage on to the listener, when the provider reported any
+const reportUsage = (onUsage: UsageListener | undefined, call: UsageCall, usage: ModelUsage | null) => {
+    if (usage) onUsage?.(call, usage);
+};
 
-// Helper to get intrinsic image dimensions from a File object
-const getImageDimensions = (file: File): Promise<{ width: number; height: number }> => {
+// Helper to convert a Blob to a data URL string, for the debug view
+const blobToDataUrl = (blob: Blob): Promise<string> => {
     return new Promise((resolve, reject) => {
         const reader = new FileReader();
-        reader.readAsDataURL(file);
-        reader.onload = (event) => {
-            if (!event.target?.result) {
-                return reject(new Error("Failed to read file."));
-            }
-            const img = new Image();
-            img.src = event.target.result as string;
-            img.onload = () => {
-                resolve({ width: img.naturalWidth, height: img.naturalHeight });
-            };
-            img.onerror = (err) => reject(new Error(`Image load error: ${err}`));
-        };
-        reader.onerror = (err) => reject(new Error(`File reader error: ${err}`));
+        reader.readAsDataURL(blob);
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = error => reject(error);
     });
 };
 
-// Helper to crop a square image back to an original aspect ratio, removing padding.
-const cropToOriginalAspectRatio = (
-    imageDataUrl: string,
-    originalWidth: number,
-    originalHeight: number,
-    targetDimension: number
-): Promise<string> => {
-    return new Promise((resolve, reject) => {
-        const img = new Image();
-        img.src = imageDataUrl;
-        img.onload = () => {
-            // Re-calculate the dimensions of the content area within the padded square image
-            const aspectRatio = originalWidth / originalHeight;
-            let contentWidth, contentHeight;
-            if (aspectRatio > 1) { // Landscape
-                contentWidth = targetDimension;
-                contentHeight = targetDimension / aspectRatio;
-            } else { // Portrait or square
-                contentHeight = targetDimension;
-                contentWidth = targetDimension * aspectRatio;
-            }
-
-            // Calculate the top-left offset of the content area
-            const x = (targetDimension - contentWidth) / 2;
-            const y = (targetDimension - contentHeight) / 2;
-
-            const canvas = document.createElement('canvas');
-            // Set canvas to the final, un-padded dimensions
-            canvas.width = contentWidth;
-            canvas.height = contentHeight;
-
-            const ctx = canvas.getContext('2d');
-            if (!ctx) {
-                return reject(new Error('Could not get canvas context for cropping.'));
-            }
-            
-            // Draw the relevant part of the square generated image onto the new, smaller canvas
-            ctx.drawImage(img, x, y, contentWidth, contentHeight, 0, 0, contentWidth, contentHeight);
-            
-            // Return the data URL of the newly cropped image
-            resolve(canvas.toDataURL('image/jpeg', 0.95));
-        };
-        img.onerror = (err) => reject(new Error(`Image load error during cropping: ${err}`));
-    });
+// Splits a "Marker N: ..." response into one description per marker.
+// Falls back to the full text for any marker the model did not label.
+const parseMarkerDescriptions = (text: string, markerCount: number): string[] => {
+    if (markerCount === 1) {
+        return [text.trim()];
+    }
+    const descriptions: string[] = new Array(markerCount).fill('');
+    const markerPattern = /marker\s*#?(\d+)\s*[:\-]\s*(.+)/i;
+    for (const line of text.split('\n')) {
+        const match = line.match(markerPattern);
+        if (!match) continue;
+        const index = parseInt(match[1], 10) - 1;
+        if (index >= 0 && index < markerCount) {
+            descriptions[index] = match[2].trim();
+        }
+    }
+    return descriptions.map(description => description || text.trim());
 };
 
+// Translates a relative scale multiplier into an explicit instruction for the model.
+const buildScaleInstruction = (scale: number): string => {
+    if (scale === 1) {
+        return "The product should be scaled appropriately to a realistic size for the scene.";
+    }
+    const percentage = Math.round((scale - 1) * 100);
+    if (percentage > 0) {
+        return `The product MUST be scaled to appear approximately ${percentage}% larger than its default proportional size.`;
+    }
+    return `The product MUST be scaled to appear approximately ${-percentage}% smaller than its default proportional size.`;
+};
 
-// New resize logic inspired by the reference to enforce a consistent aspect ratio without cropping.
-// It resizes the image to fit within a square and adds padding, ensuring a consistent
-// input size for the AI model, which enhances stability.
-const resizeImage = (file: File, targetDimension: number): Promise<File> => {
-    return new Promise((resolve, reject) => {
-        const reader = new FileReader();
-        reader.readAsDataURL(file);
-        reader.onload = (event) => {
-            if (!event.target?.result) {
-                return reject(new Error("Failed to read file."));
-            }
-            const img = new Image();
-            img.src = event.target.result as string;
-            img.onload = () => {
-                const canvas = document.createElement('canvas');
-                canvas.width = targetDimension;
-                canvas.height = targetDimension;
-
-                const ctx = canvas.getContext('2d');
-                if (!ctx) {
-                    return reject(new Error('Could not get canvas context.'));
-                }
-
-                // Fill the canvas with a neutral background to avoid transparency issues
-                // and ensure a consistent input format for the model.
-                ctx.fillStyle = 'black';
-                ctx.fillRect(0, 0, targetDimension, targetDimension);
-
-                // Calculate new dimensions to fit inside the square canvas while maintaining aspect ratio
-                const aspectRatio = img.width / img.height;
-                let newWidth, newHeight;
-
-                if (aspectRatio > 1) { // Landscape image
-                    newWidth = targetDimension;
-                    newHeight = targetDimension / aspectRatio;
-                } else { // Portrait or square image
-                    newHeight = targetDimension;
-                    newWidth = targetDimension * aspectRatio;
-                }
-
-                // Calculate position to center the image on the canvas
-                const x = (targetDimension - newWidth) / 2;
-                const y = (targetDimension - newHeight) / 2;
-                
-                // Draw the resized image onto the centered position
-                ctx.drawImage(img, x, y, newWidth, newHeight);
-
-                canvas.toBlob((blob) => {
-                    if (blob) {
-                        resolve(new File([blob], file.name, {
-                            type: 'image/jpeg', // Force jpeg to handle padding color consistently
-                            lastModified: Date.now()
-                        }));
-                    } else {
-                        reject(new Error('Canvas to Blob conversion failed.'));
-                    }
-                }, 'image/jpeg', 0.95);
-            };
-            img.onerror = (err) => reject(new Error(`Image load error: ${err}`));
-        };
-        reader.onerror = (err) => reject(new Error(`File reader error: ${err}`));
-    });
+// Translates a turn around the vertical axis into an explicit instruction, or null when unrotated.
+const buildRotationInstruction = (rotation: number): string | null => {
+    const degrees = Math.round(rotation);
+    if (degrees === 0) {
+        return null;
+    }
+    const direction = degrees > 0 ? 'clockwise' : 'counter-clockwise';
+    return `The product MUST be turned approximately ${Math.abs(degrees)} degrees ${direction} (as seen from above) around its own vertical axis, so it faces a different direction than in the product image.`;
 };
 
-// Helper function to convert a File object to a Gemini API Part
-const fileToPart = async (file: File): Promise<{ inlineData: { mimeType: string; data: string; } }> => {
-    const dataUrl = await new Promise<string>((resolve, reject) => {
-        const reader = new FileReader();
-        reader.readAsDataURL(file);
-        reader.onload = () => resolve(reader.result as string);
-        reader.onerror = error => reject(error);
-    });
-    
-    const arr = dataUrl.split(',');
-    if (arr.length < 2) throw new Error("Invalid data URL");
-    const mimeMatch = arr[0].match(/:(.*?);/);
-    if (!mimeMatch || !mimeMatch[1]) throw new Error("Could not parse MIME type from data URL");
-    
-    const mimeType = mimeMatch[1];
-    const data = arr[1];
-    return { inlineData: { mimeType, data } };
+const buildFlipInstruction = (flipHorizontal: boolean): string | null => {
+    if (!flipHorizontal) {
+        return null;
+    }
+    return "The product MUST be mirrored horizontally (left and right swapped) compared to the product image.";
 };
 
-// Helper to convert File to a data URL string
-const fileToDataUrl = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-        const reader = new FileReader();
-        reader.readAsDataURL(file);
-        reader.onload = () => resolve(reader.result as string);
-        reader.onerror = error => reject(error);
-    });
+export interface ProductPlacement {
+    image: File;
+    description: string;
+    xPercent: number;
+    yPercent: number;
+    scale: number;
+    rotation: number;
+    flipHorizontal: boolean;
+    // Where the product's base meets the floor, as an image-space polygon in percent
+    // (front-left, front-right, back-right, back-left). Only set when a floor plane is drawn.
+    footprint?: PlanePoint[] | null;
+    // Real-world size of the product, when known.
+    dimensions?: ProductDimensions | null;
+    // On-image size from the dimensions and the scene's calibrated scale, in percent of the scene's width and height.
+    targetSize?: { widthPercent: number; heightPercent: number } | null;
+    // Width the product was staged at, in percent of the scene's width. Used to check the size in the result.
+    expectedWidthPercent?: number | null;
+}
+
+// Template variables for one product's transformations (see the 'placement-product' template).
+const buildTransformationVariables = (placement: ProductPlacement) => {
+    let scaleInstruction: string;
+    if (placement.targetSize) {
+        const { widthPercent, heightPercent } = placement.targetSize;
+        scaleInstruction = `The product MUST be shown true to its real-world size: about ${widthPercent.toFixed(1)}% of the scene's width wide and ${heightPercent.toFixed(1)}% of the scene's height tall at its location. These sizes come from a measured reference in the scene; do not resize the product to what looks typical.`;
+    } else if (placement.footprint) {
+        scaleInstruction = 'The product MUST be sized so that its base exactly fills the footprint given below, following the floor\'s perspective at that depth.';
+    } else {
+        scaleInstruction = buildScaleInstruction(placement.scale);
+    }
+    return {
+        scaleInstruction,
+        dimensions: placement.dimensions ? formatDimensions(placement.dimensions) : '',
+        flipInstruction: buildFlipInstruction(placement.flipHorizontal) ?? '',
+        rotationInstruction: buildRotationInstruction(placement.rotation) ?? '',
+    };
 };
 
-// Helper to draw a marker on an image and return a new File object
-const markImage = async (
-    paddedSquareFile: File, 
-    position: { xPercent: number; yPercent: number; },
-    originalDimensions: { originalWidth: number; originalHeight: number; }
-): Promise<File> => {
-    return new Promise((resolve, reject) => {
-        const reader = new FileReader();
-        reader.readAsDataURL(paddedSquareFile);
-        reader.onload = (event) => {
-            if (!event.target?.result) {
-                return reject(new Error("Failed to read file for marking."));
-            }
-            const img = new Image();
-            img.src = event.target.result as string;
-            img.onload = () => {
-                const canvas = document.createElement('canvas');
-                canvas.width = img.width;
-                canvas.height = img.height;
-                const targetDimension = canvas.width;
-
-                const ctx = canvas.getContext('2d');
-                if (!ctx) {
-                    return reject(new Error('Could not get canvas context for marking.'));
-                }
-
-                // Draw the original (padded) image
-                ctx.drawImage(img, 0, 0);
-
-                // Recalculate the content area's dimensions and offset within the padded square canvas.
-                // This is crucial to translate the content-relative percentages to the padded canvas coordinates.
-                const { originalWidth, originalHeight } = originalDimensions;
-                const aspectRatio = originalWidth / originalHeight;
-                let contentWidth, contentHeight;
-
-                if (aspectRatio > 1) { // Landscape
-                    contentWidth = targetDimension;
-                    contentHeight = targetDimension / aspectRatio;
-                } else { // Portrait or square
-                    contentHeight = targetDimension;
-                    contentWidth = targetDimension * aspectRatio;
-                }
-                
-                const offsetX = (targetDimension - contentWidth) / 2;
-                const offsetY = (targetDimension - contentHeight) / 2;
-
-                // Calculate the marker's coordinates relative to the actual image content
-                const markerXInContent = (position.xPercent / 100) * contentWidth;
-                const markerYInContent = (position.yPercent / 100) * contentHeight;
-
-                // The final position on the canvas is the content's offset plus the relative position
-                const finalMarkerX = offsetX + markerXInContent;
-                const finalMarkerY = offsetY + markerYInContent;
-
-                // Make radius proportional to image size, but with a minimum
-                const markerRadius = Math.max(5, Math.min(canvas.width, canvas.height) * 0.015);
-
-                // Draw the marker (red circle with white outline) at the corrected coordinates
-                ctx.beginPath();
-                ctx.arc(finalMarkerX, finalMarkerY, markerRadius, 0, 2 * Math.PI, false);
-                ctx.fillStyle = 'red';
-                ctx.fill();
-                ctx.lineWidth = markerRadius * 0.2;
-                ctx.strokeStyle = 'white';
-                ctx.stroke();
-
-                canvas.toBlob((blob) => {
-                    if (blob) {
-                        resolve(new File([blob], `marked-${paddedSquareFile.name}`, {
-                            type: 'image/jpeg',
-                            lastModified: Date.now()
-                        }));
-                    } else {
-                        reject(new Error('Canvas to Blob conversion failed during marking.'));
-                    }
-                }, 'image/jpeg', 0.95);
-            };
-            img.onerror = (err) => reject(new Error(`Image load error during marking: ${err}`));
-        };
-        reader.onerror = (err) => reject(new Error(`File reader error during marking: ${err}`));
+// Stands in for the location descriptions when a prompt is previewed before they are generated
+const LOCATION_PREVIEW_PLACEHOLDER = '[Described by the model from the marked scene when the request is sent]';
+
+/**
+ * Renders the location-description and composite prompts for a placement.
+ * @param placements The products to place.
+ * @param templates Template texts to use; defaults to the built-in templates.
+ * @param locationDescriptions One per product. Omit to preview the prompts before the descriptions exist.
+ */
+export const buildPlacementPrompts = (
+    placements: ProductPlacement[],
+    templates: PromptTemplateSet = resolvePromptTemplates(),
+    locationDescriptions?: string[]
+): { descriptionPrompt: string; compositePrompt: string } => {
+    const markerList = placements
+        .map((placement, index) => `- Marker ${index + 1} (${getMarkerColor(index).name})${placement.footprint ? ', with its floor footprint outlined in the same color' : ''}`)
+        .join('\n');
+    const descriptionPrompt = renderPromptTemplate(templates['location-description'], {
+        markerCount: placements.length,
+        markerList,
+    });
+
+    const productRoles = placements
+        .map((placement, index) => `- **Image ${index + 1} (Product ${index + 1}):** ${placement.description}. This is an object to be placed, usually supplied as a cut-out on a transparent background. Ignore any background completely.`)
+        .join('\n');
+    const productSteps = placements
+        .map((placement, index) => renderPromptTemplate(templates['placement-product'], {
+            productNumber: index + 1,
+            ...buildTransformationVariables(placement),
+            locationDescription: locationDescriptions?.[index] ?? LOCATION_PREVIEW_PLACEHOLDER,
+            footprint: placement.footprint ? formatPolygon(placement.footprint) : '',
+        }))
+        .join('\n');
+    const compositePrompt = renderPromptTemplate(templates.placement, {
+        productRoles,
+        sceneImageNumber: placements.length + 1,
+        productSteps,
     });
+    return { descriptionPrompt, compositePrompt };
+};
+
+export interface CompositeOptions {
+    // How many alternative compositions to request in parallel from the same prompt.
+    variantCount?: number;
+    // Receives stage changes, timings and the location description as they happen.
+    onProgress?: ProgressListener;
+    // Cancels the model calls and any remaining image processing.
+    signal?: AbortSignal;
+    // Locates the products in each result and compares them with the requested placements. Defaults to true.
+    verifyPlacement?: boolean;
+    // How many more times a variant is generated when its products drift out of tolerance.
+    maxPlacementRetries?: number;
+    // Prompt template texts, with any user or project edits applied.
+    templates?: PromptTemplateSet;
+    // Reuses stored results for identical inputs. False regenerates anyway and replaces them. Defaults to true.
+    useCache?: boolean;
+    // Receives the billed tokens of every model call made (cached results cost nothing and are not reported).
+    onUsage?: UsageListener;
+}
+
+// Version of the stored composite entries; part of their keys, so entries in an older shape are never read
+const COMPOSITE_CACHE_FORMAT = 2;
+
+// What is stored per composite variant: the cropped result before blending, with its placement check
+interface CachedCompositeVariant {
+    image: Blob;
+    placementReport: PlacementReport | null;
+}
+
+// Asks the model for a bounding box around each placed product in a generated image
+const locateProducts = async (image: Blob, placements: ProductPlacement[], signal?: AbortSignal, onUsage?: UsageListener): Promise<(FoundBox | null)[] | null> => {
+    const provider = getImageModelProvider();
+    const productList = placements
+        .map((placement, index) => `${index + 1}. ${placement.description}`)
+        .join('\n');
+    const locatePrompt = `
+You are given a photo of a room into which the following product(s) were placed:
+${productList}
+
+Find each product in the photo and return its tight bounding box as "box_2d": [ymin, xmin, ymax, xmax], normalized to 0-1000.
+Output ONLY a JSON array in the form [{"product": 1, "box_2d": [ymin, xmin, ymax, xmax]}]. Leave out any product that is not visible.
+`;
+    const { text, usage } = await provider.describeLocation(locatePrompt, await abortable(blobToInlineImage(image), signal), signal);
+    reportUsage(onUsage, 'locate-products', usage);
+    return parseProductBoxes(text, placements.length);
 };
 
+// Checks where the products landed in a composite (already cropped to the scene's aspect ratio).
+// Returns null when the products could not be located.
+const checkPlacement = async (
+    image: Blob,
+    placements: ProductPlacement[],
+    scene: PreparedScene,
+    targetDimension: number,
+    signal?: AbortSignal,
+    onUsage?: UsageListener
+): Promise<PlacementReport | null> => {
+    let method: PlacementReport['method'] = 'model';
+    let boxes: (FoundBox | null)[] | null = null;
+    try {
+        boxes = await locateProducts(image, placements, signal, onUsage);
+    } catch (error) {
+        if (isAbortError(error)) throw error;
+        console.error('Failed to locate the products in the result:', error);
+    }
+    // A single product is also where the image changed
+    if (!boxes && placements.length === 1) {
+        const { bounds } = await abortable(detectSceneChanges(image, scene, targetDimension), signal);
+        boxes = [bounds];
+        method = 'changed-region';
+    }
+    if (!boxes) {
+        return null;
+    }
+    // The image is cropped to the scene's aspect ratio
+    const checks = measurePlacement(placements, boxes, scene.width / scene.height);
+    const annotatedImageUrl = await abortable(renderVerificationImage(image, checks), signal);
+    return { checks, passed: checks.every(check => check.withinTolerance), method, attempts: 1, annotatedImageUrl };
+};
 
 /**
  * Generates a composite image using a multi-modal AI model.
- * The model takes a product image, a scene image, and a text prompt
- * to generate a new image with the product placed in the scene.
- * @param objectImage The file for the object to be placed.
- * @param objectDescription A text description of the object.
+ * The model takes one or more product images, a scene image, and a text prompt
+ * to generate a new image with every product placed in the scene in a single pass.
+ * @param placements The products to place, each with its position, scale and optional floor footprint.
  * @param environmentImage The file for the background environment.
  * @param environmentDescription A text description of the environment.
- * @param placementConfig The placement details including position and scale.
- * @returns A promise that resolves to an object containing the base64 data URL of the generated image and the debug image.
+ * @param options Variant count, progress listener, placement checking, caching and usage reporting.
+ * @returns A promise that resolves to an object containing the generated variants as JPEG Blobs, the debug image,
+ * a placement report per variant (null when unchecked) and how many variants came from the response cache.
  */
 export const generateCompositeImage = async (
-    objectImage: File, 
-    objectDescription: string,
+    placements: ProductPlacement[],
     environmentImage: File,
     environmentDescription: string,
-    placementConfig: { xPercent: number; yPercent: number; scale: number; }
-): Promise<{ finalImageUrl: string; debugImageUrl: string; finalPrompt: string; }> => {
-  console.log('Starting multi-step image generation process...');
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
+    options: CompositeOptions = {}
+): Promise<{ finalImages: Blob[]; debugImageUrl: string; finalPrompt: string; placementReports: (PlacementReport | null)[]; cachedVariantCount: number; }> => {
+  const { variantCount = 1, onProgress, signal, verifyPlacement = true, maxPlacementRetries = 1, templates = resolvePromptTemplates(), useCache = true, onUsage } = options;
+  if (placements.length === 0) {
+    throw new Error("At least one product must be staged before generating.");
+  }
+  console.log(`Starting multi-step image generation process for ${placements.length} product(s)...`);
+  const provider = getImageModelProvider();
+  const progress = createProgressTracker(onProgress);
 
-  // Get original scene dimensions for final cropping and correct marker placement
-  const { width: originalWidth, height: originalHeight } = await getImageDimensions(environmentImage);
-  
   // Define standard dimension for model inputs
   const MAX_DIMENSION = 1024;
-  
-  // STEP 1: Prepare images by resizing
-  console.log('Resizing product and scene images...');
-  const resizedObjectImage = await resizeImage(objectImage, MAX_DIMENSION);
-  const resizedEnvironmentImage = await resizeImage(environmentImage, MAX_DIMENSION);
-
-  // STEP 2: Mark the resized scene image for the description model and debug view
-  console.log('Marking scene image for analysis...');
-  // Pass original dimensions to correctly calculate marker position on the padded image
-  const markedResizedEnvironmentImage = await markImage(resizedEnvironmentImage, placementConfig, { originalWidth, originalHeight });
-
-  // The debug image is now the marked one.
-  const debugImageUrl = await fileToDataUrl(markedResizedEnvironmentImage);
-
-
-  // STEP 3: Generate semantic location description with Gemini 2.5 Flash using the MARKED image
-  // Fix: Use recommended model name in log message.
-  console.log('Generating semantic location description with gemini-2.5-flash...');
-  
-  const markedEnvironmentImagePart = await fileToPart(markedResizedEnvironmentImage);
 
-  const descriptionPrompt = `
-You are an expert scene analyst. I will provide you with an image that has a red marker on it.
-Your task is to provide a very dense, semantic description of what is at the exact location of the red marker.
-Be specific about surfaces, objects, and spatial relationships. This description will be used to guide another AI in placing a new object.
+  // STEP 1: Prepare images by resizing (off the main thread)
+  console.log('Resizing product images...');
+  progress.stage('resizing');
+  const resizedObjectImages = await abortable(Promise.all(placements.map(placement => padImageToSquare(placement.image, MAX_DIMENSION, { transparentPadding: true }))), signal);
 
-Example semantic descriptions:
-- "The product location is on the dark grey fabric of the sofa cushion, in the middle section, slightly to the left of the white throw pillow."
-- "The product location is on the light-colored wooden floor, in the patch of sunlight coming from the window, about a foot away from the leg of the brown leather armchair."
-- "The product location is on the white marble countertop, just to the right of the stainless steel sink and behind the green potted plant."
+  // STEP 2: Resize and mark the scene for the description model and debug view. The scene is decoded
+  // once for both, and its size is kept for cropping the results back to the scene's aspect ratio.
+  console.log('Resizing and marking scene image for analysis...');
+  progress.stage('marking');
+  const preparedScene = await abortable(prepareSceneImages(environmentImage, MAX_DIMENSION, { markers: placements }), signal);
+  const markedResizedEnvironmentImage = preparedScene.marked as Blob;
 
-On top of the semantic description above, give a rough relative-to-image description.
-
-Example relative-to-image descriptions:
-- "The product location is about 10% away from the bottom-left of the image."
-- "The product location is about 20% away from the right of the image."
-
-Provide only the two descriptions concatenated in a few sentences.
-`;
-  
-  let semanticLocationDescription = '';
-  try {
-    const descriptionResponse = await ai.models.generateContent({
-      // Fix: Use 'gemini-2.5-flash' model for general text tasks as per guidelines.
-      model: 'gemini-2.5-flash',
-      contents: { parts: [{ text: descriptionPrompt }, markedEnvironmentImagePart] }
-    });
-    semanticLocationDescription = descriptionResponse.text;
-    console.log('Generated description:', semanticLocationDescription);
-  } catch (error) {
-    console.error('Failed to generate semantic location description:', error);
-    // Fallback to a generic statement if the description generation fails
-    semanticLocationDescription = `at the specified location.`;
+  // The debug image is now the marked one.
+  const debugImageUrl = await abortable(blobToDataUrl(markedResizedEnvironmentImage), signal);
+
+
+  // STEP 3: Generate semantic location descriptions using the MARKED image
+  console.log(`Generating semantic location description with ${provider.name}...`);
+  progress.stage('describing');
+
+  const { descriptionPrompt } = buildPlacementPrompts(placements, templates);
+  // The description only depends on where the markers are, not on which products go there
+  const descriptionKey = await abortable(createCacheKey('location-description', {
+    model: provider.models.text,
+    prompt: descriptionPrompt,
+    scene: environmentImage,
+    markers: placements.map(placement => ({ xPercent: placement.xPercent, yPercent: placement.yPercent, footprint: placement.footprint ?? null })),
+  }), signal);
+
+  let semanticLocationDescriptions = useCache ? await abortable(readCachedResponse<string[]>(descriptionKey), signal) : null;
+  if (semanticLocationDescriptions) {
+    console.log('Reusing the cached location description.');
+    progress.emit({ type: 'cache-hit', stage: 'describing' });
+  } else {
+    const markedEnvironmentImage = await abortable(blobToInlineImage(markedResizedEnvironmentImage), signal);
+    try {
+      const { text: descriptionText, usage } = await provider.describeLocation(descriptionPrompt, markedEnvironmentImage, signal);
+      reportUsage(onUsage, 'describe-location', usage);
+      console.log('Generated description:', descriptionText);
+      semanticLocationDescriptions = parseMarkerDescriptions(descriptionText, placements.length);
+      await writeCachedResponse(descriptionKey, 'location-description', semanticLocationDescriptions);
+    } catch (error) {
+      // A cancelled request must not fall through to the generic description
+      if (isAbortError(error)) throw error;
+      console.error('Failed to generate semantic location description:', error);
+      // Fallback to a generic statement if the description generation fails
+      semanticLocationDescriptions = placements.map((_, index) => `at the location of marker ${index + 1}.`);
+    }
   }
+  progress.emit({ type: 'location-description', descriptions: semanticLocationDescriptions });
 
-  // STEP 4: Generate composite image using the CLEAN image and the description
+  // STEP 4: Generate composite image using the CLEAN image and the descriptions
   console.log('Preparing to generate composite image...');
   
-  const objectImagePart = await fileToPart(resizedObjectImage);
-  const cleanEnvironmentImagePart = await fileToPart(resizedEnvironmentImage); // IMPORTANT: Use clean image
-  
-  const { scale } = placementConfig;
-
-  let scaleInstruction = "The product should be scaled appropriately to a realistic size for the scene.";
-  if (scale !== 1) {
-    const percentage = Math.round((scale - 1) * 100);
-    if (percentage > 0) {
-      scaleInstruction = `The product MUST be scaled to appear approximately ${percentage}% larger than its default proportional size.`;
-    } else {
-      scaleInstruction = `The product MUST be scaled to appear approximately ${-percentage}% smaller than its default proportional size.`;
-    }
+  const objectInlineImages = await abortable(Promise.all(resizedObjectImages.map(blobToInlineImage)), signal);
+  const cleanEnvironmentImage = await abortable(blobToInlineImage(preparedScene.padded), signal); // IMPORTANT: Use clean image
+  const { compositePrompt: prompt } = buildPlacementPrompts(placements, templates, semanticLocationDescriptions);
+
+  // Each variant has its own key, so asking for more variants later reuses the ones already made.
+  // Verification calls the text model and may regenerate, so its settings are part of the key too.
+  const variantKeys = await abortable(Promise.all(Array.from({ length: variantCount }, (_, variant) => createCacheKey('composite', {
+    format: COMPOSITE_CACHE_FORMAT,
+    model: provider.models.image,
+    verifyModel: verifyPlacement ? provider.models.text : null,
+    maxPlacementRetries: verifyPlacement ? maxPlacementRetries : 0,
+    prompt,
+    scene: environmentImage,
+    products: placements.map(placement => placement.image),
+    placements: placements.map(({ xPercent, yPercent, scale, rotation, flipHorizontal, footprint, dimensions, targetSize, expectedWidthPercent }) => (
+      { xPercent, yPercent, scale, rotation, flipHorizontal, footprint, dimensions, targetSize, expectedWidthPercent }
+    )),
+    variant,
+  }))), signal);
+  const cachedVariants = useCache
+    ? await abortable(Promise.all(variantKeys.map(key => readCachedResponse<CachedCompositeVariant>(key))), signal)
+    : variantKeys.map(() => null);
+  const missingVariants = variantKeys.map((_, variant) => variant).filter(variant => !cachedVariants[variant]);
+  const cachedVariantCount = variantCount - missingVariants.length;
+  if (cachedVariantCount > 0) {
+    console.log(`Reusing ${cachedVariantCount} cached variant(s).`);
+    progress.emit({ type: 'cache-hit', stage: 'composing' });
   }
-  
-  const prompt = `
-**TASK:**
-You are a master photo editor. Your task is to perfectly integrate the 'product' image into the 'scene' image.
-
-**IMAGE ROLES:**
-- **Image 1 (Product):** This is the object to be placed. Ignore its background completely.
-- **Image 2 (Scene):** This is the environment for the product.
 
-**CRITICAL EXECUTION ORDER (Follow these steps exactly):**
-
-1.  **TRANSFORMATION (APPLY FIRST):** Before placing the product, you MUST apply the following transformations:
-    - **Scale:** ${scaleInstruction}
-
-2.  **PLACEMENT (APPLY SECOND):** Place the fully transformed product at this precise location in the scene: "${semanticLocationDescription}". Do not deviate from this location.
-
-3.  **INTEGRATION (APPLY LAST):**
-    - The final image's style, lighting, shadows, reflections, and camera perspective MUST perfectly match the original scene.
-    - You must re-render the product to fit the context, casting realistic shadows and receiving scene lighting.
-    - Ensure the final product size is proportional and realistic for the environment.
-    - The product MUST be clearly visible in the final image.
+  let received = cachedVariantCount;
+  let responses: PromiseSettledResult<ModelImageResult>[] = [];
+  if (missingVariants.length > 0) {
+    console.log(`Sending images and augmented prompt for ${missingVariants.length} variant(s)...`);
+    progress.stage('composing');
+
+    // Each variant is an independent request with the same inputs, so they can run in parallel
+    responses = await Promise.allSettled(
+      missingVariants.map(async () => {
+        const response = await provider.compose(prompt, [...objectInlineImages, cleanEnvironmentImage], signal); // IMPORTANT: Use clean image
+        reportUsage(onUsage, 'compose', response.usage);
+        progress.emit({ type: 'variant-received', received: ++received, total: variantCount });
+        return response;
+      })
+    );
+    console.log('Received response(s).');
+  }
+  throwIfAborted(signal);
 
-**FINAL OUTPUT RULES:**
-- The output MUST be the final, composed image ONLY.
-- DO NOT output any text, descriptions, explanations, or analysis.
-`;
+  const cropToScene = (image: InlineImage) => abortable(cropImageToScene(inlineImageToBlob(image), preparedScene, MAX_DIMENSION), signal);
 
-  const textPart = { text: prompt };
-  
-  console.log('Sending images and augmented prompt...');
-  
-  const response: GenerateContentResponse = await ai.models.generateContent({
-    model: 'gemini-2.5-flash-image-preview',
-    contents: { parts: [objectImagePart, cleanEnvironmentImagePart, textPart] }, // IMPORTANT: Use clean image
+  // Cropped results in variant order; cached ones already went through verification
+  const variants: { index: number; image: Blob; placementReport: PlacementReport | null; cached: boolean }[] = [];
+  cachedVariants.forEach((cached, index) => {
+    if (cached) variants.push({ index, ...cached, cached: true });
   });
+  progress.stage('cropping');
+  for (const [responseIndex, result] of responses.entries()) {
+    if (result.status === 'rejected') {
+      console.error('A variant request failed:', result.reason);
+      continue;
+    }
+    if (!result.value.image) {
+      console.error("Model response did not contain an image part.", result.value);
+      continue;
+    }
+    console.log(`Received image data (${result.value.image.mimeType}), length:`, result.value.image.data.length);
+    console.log('Cropping generated image to original aspect ratio...');
+    variants.push({ index: missingVariants[responseIndex], image: await cropToScene(result.value.image), placementReport: null, cached: false });
+  }
+  variants.sort((a, b) => a.index - b.index);
+  const newVariants = variants.filter(variant => !variant.cached);
+
+  // STEP 5: Check where the products landed, regenerating variants that drifted too far
+  if (verifyPlacement && newVariants.length > 0) {
+    progress.stage('verifying');
+    for (const variant of newVariants) {
+      let report = await checkPlacement(variant.image, placements, preparedScene, MAX_DIMENSION, signal, onUsage);
+      let attempts = 1;
+      while (report && !report.passed && attempts <= maxPlacementRetries) {
+        attempts++;
+        console.log(`Variant ${variant.index + 1} missed its placement; retrying (attempt ${attempts})...`);
+        const retryPrompt = `${prompt}\n${buildCorrectionNote(report)}\n`;
+        let retryImage: Blob;
+        try {
+          const response = await provider.compose(retryPrompt, [...objectInlineImages, cleanEnvironmentImage], signal);
+          reportUsage(onUsage, 'compose', response.usage);
+          if (!response.image) {
+            console.error('Retry response did not contain an image part.', response);
+            continue;
+          }
+          retryImage = await cropToScene(response.image);
+        } catch (error) {
+          if (isAbortError(error)) throw error;
+          console.error('A placement retry failed:', error);
+          break;
+        }
+        const retryReport = await checkPlacement(retryImage, placements, preparedScene, MAX_DIMENSION, signal, onUsage);
+        // Keep whichever attempt landed closer to the requested placement
+        if (retryReport && getPlacementError(retryReport) < getPlacementError(report)) {
+          variant.image = retryImage;
+          report = retryReport;
+        }
+      }
+      variant.placementReport = report && { ...report, attempts };
+    }
+  }
+  for (const variant of newVariants) {
+    await writeCachedResponse<CachedCompositeVariant>(variantKeys[variant.index], 'composite', { image: variant.image, placementReport: variant.placementReport });
+  }
 
-  console.log('Received response.');
-  
-  const imagePartFromResponse = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
+  // Only the changed region is taken from the model, so the rest keeps its full resolution
+  progress.stage('blending');
+  console.log('Blending changed regions into the full-resolution scene...');
+  const finalImages = await abortable(blendIntoScene(environmentImage, variants.map(variant => variant.image)), signal);
+  progress.finish();
 
-  if (imagePartFromResponse?.inlineData) {
-    const { mimeType, data } = imagePartFromResponse.inlineData;
-    console.log(`Received image data (${mimeType}), length:`, data.length);
-    const generatedSquareImageUrl = `data:${mimeType};base64,${data}`;
-    
-    console.log('Cropping generated image to original aspect ratio...');
-    const finalImageUrl = await cropToOriginalAspectRatio(
-        generatedSquareImageUrl,
-        originalWidth,
-        originalHeight,
-        MAX_DIMENSION
-    );
-    
-    return { finalImageUrl, debugImageUrl, finalPrompt: prompt };
+  if (finalImages.length > 0) {
+    const placementReports = variants.map(variant => variant.placementReport);
+    return { finalImages, debugImageUrl, finalPrompt: prompt, placementReports, cachedVariantCount };
+  }
+
+  // Surface the underlying error when every request failed outright
+  const firstFailure = responses.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+  if (firstFailure) {
+    throw firstFailure.reason;
   }
+  throw new ModelError('no-image', "The AI model did not return an image. Please try again.");
+};
+
+export interface ChatEditOptions {
+    // PNG mask (opaque = editable) painted over the scene. When given, the model is shown the
+    // region and its output is blended back only inside the mask, so the rest of the scene
+    // stays pixel-identical at full resolution.
+    regionMask?: Blob | null;
+    // How many alternative edits to request in parallel.
+    variantCount?: number;
+    // Summary of the conversation and edit history so far (see `buildChatContext`).
+    conversationContext?: string;
+    // Receives stage changes and timings as they happen.
+    onProgress?: ProgressListener;
+    // Cancels the model calls and any remaining image processing.
+    signal?: AbortSignal;
+    // Prompt template texts, with any user or project edits applied.
+    templates?: PromptTemplateSet;
+    // Reuses stored replies for identical inputs. False regenerates anyway and replaces them. Defaults to true.
+    useCache?: boolean;
+    // Receives the billed tokens of every model call made (cached replies cost nothing and are not reported).
+    onUsage?: UsageListener;
+}
+
+export interface ChatEditPromptInput {
+    // The user's request.
+    request: string;
+    hasContentImage: boolean;
+    hasRegion: boolean;
+    conversationContext?: string;
+}
 
-  console.error("Model response did not contain an image part.", response);
-  throw new Error("The AI model did not return an image. Please try again.");
+/**
+ * Renders the prompt for a chat edit. The scene is always image 1, followed
+ * by the content image and then the region highlight when present.
+ */
+export const buildChatEditPrompt = (input: ChatEditPromptInput, templates: PromptTemplateSet = resolvePromptTemplates()): string => {
+    const { request, hasContentImage, hasRegion, conversationContext = '' } = input;
+    const template = hasContentImage ? templates['chat-edit-with-content'] : templates['chat-edit'];
+    return renderPromptTemplate(template, {
+        userRequest: request,
+        conversationContext,
+        regionImageNumber: hasRegion ? (hasContentImage ? 3 : 2) : '',
+    });
 };
 
+/**
+ * Edits the scene according to a chat prompt.
+ * @param prompt The user's request.
+ * @param imageToEdit The scene image to edit.
+ * @param newContentImage Optional texture or object image to use in the edit.
+ * @param options Region mask, variant count, conversation context, caching and usage reporting.
+ * @returns The model's text reply, the edited variants as Blobs and how many variants came from the response cache.
+ */
 export const editImageWithChat = async (
     prompt: string,
     imageToEdit: File,
-    newContentImage: File | null
-): Promise<{ text: string | null; imageUrl: string | null; }> => {
+    newContentImage: File | null,
+    options: ChatEditOptions = {}
+): Promise<{ text: string | null; images: Blob[]; cachedVariantCount: number; }> => {
+    const { regionMask = null, variantCount = 1, conversationContext = '', onProgress, signal, templates = resolvePromptTemplates(), useCache = true, onUsage } = options;
     console.log('Starting image editing with chat prompt...');
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
+    const provider = getImageModelProvider();
+    const progress = createProgressTracker(onProgress);
     
     // Define standard dimension for model inputs
     const MAX_DIMENSION = 1024;
     
-    // Get original scene dimensions for final cropping
-    const { width: originalWidth, height: originalHeight } = await getImageDimensions(imageToEdit);
-
-    const parts: Part[] = [];
+    const images: InlineImage[] = [];
     
-    // Resize the main image to edit and add it to parts
+    // Resize the main image to edit (and highlight the painted region, if any) off the main thread.
+    // The scene is decoded once for both, and its size is kept for the final cropping.
     console.log('Resizing scene image for chat edit...');
-    const resizedImageToEdit = await resizeImage(imageToEdit, MAX_DIMENSION);
-    const imageToEditPart = await fileToPart(resizedImageToEdit);
-    parts.push(imageToEditPart);
+    progress.stage('resizing');
+    const preparedScene = await abortable(prepareSceneImages(imageToEdit, MAX_DIMENSION, { regionMask }), signal);
+    images.push(await abortable(blobToInlineImage(preparedScene.padded), signal));
     
     // If there's a second image (e.g., a texture), resize it and add to parts
     if (newContentImage) {
         console.log('Resizing content image for chat edit...');
-        const resizedNewContentImage = await resizeImage(newContentImage, MAX_DIMENSION);
-        const newContentImagePart = await fileToPart(resizedNewContentImage);
-        parts.push(newContentImagePart);
+        const resizedNewContentImage = await abortable(padImageToSquare(newContentImage, MAX_DIMENSION), signal);
+        images.push(await abortable(blobToInlineImage(resizedNewContentImage), signal));
     }
 
-    let fullPrompt = '';
-    if (newContentImage) {
-        fullPrompt = `
-**Role:** You are a helpful and expert AI photo editor.
-**Task:** Your ONLY task is to edit the 'scene' image based on the user's request, using content from the 'content' image.
-**IMAGE ROLES:**
-- **Image 1 (Scene):** This is the main image that you MUST edit.
-- **Image 2 (Content):** This image provides the texture, pattern, or object to be used in the edit. For example, it could be a wallpaper pattern or a new painting.
-
-**User's Request:** "${prompt}"
-
-**Instructions:**
-- Analyze the user's request to understand how to apply the 'content' image to the 'scene' image.
-- For example, if the user says "change the wallpaper on the right wall", use the pattern from the 'content' image and apply it as wallpaper to the right wall in the 'scene' image.
-- The integration MUST be photorealistic, matching the scene's lighting, perspective, and shadows.
-
-**Output Requirements:**
-1.  **MUST** return the final, edited image.
-2.  **MUST** also return a short, friendly text response confirming the exact change you made.
-If you are unable to fulfill the request, you must explain why in the text response and do not return an edited image.
-`;
-    } else {
-        fullPrompt = `
-**Role:** You are a helpful and expert AI photo editor.
-**Task:** Your ONLY task is to edit the single image provided, based on the user's request. Do not add any new objects unless explicitly asked.
-**User's Request:** "${prompt}"
-
-**Output Requirements:**
-1.  **MUST** return the final, edited image.
-2.  **MUST** also return a short, friendly text response confirming the exact change you made.
-If you are unable to fulfill the request, you must explain why in the text response and do not return an edited image.
-`;
+    // If a region was painted, show the model the scene with that region highlighted
+    let regionImageNumber: number | null = null;
+    if (preparedScene.highlighted) {
+        images.push(await abortable(blobToInlineImage(preparedScene.highlighted), signal));
+        regionImageNumber = images.length;
     }
+
+    const fullPrompt = buildChatEditPrompt({
+        request: prompt,
+        hasContentImage: !!newContentImage,
+        hasRegion: regionImageNumber !== null,
+        conversationContext,
+    }, templates);
     
-    const textPart = { text: fullPrompt };
-    parts.push(textPart);
-    
-    console.log('Sending resized image(s) and prompt for editing...');
-    
-    const response: GenerateContentResponse = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image-preview',
-        contents: { parts },
-        config: {
-            responseModalities: [Modality.IMAGE, Modality.TEXT],
-        },
-    });
-    
-    console.log('Received response for image editing.');
+    // The model's replies are cached as they are; cropping and blending are cheap to redo
+    const variantKeys = await abortable(Promise.all(Array.from({ length: variantCount }, (_, variant) => createCacheKey('edit', {
+        model: provider.models.image,
+        prompt: fullPrompt,
+        scene: imageToEdit,
+        content: newContentImage,
+        region: regionMask,
+        variant,
+    }))), signal);
+    const cachedResponses = useCache
+        ? await abortable(Promise.all(variantKeys.map(key => readCachedResponse<ModelImageResult>(key))), signal)
+        : variantKeys.map(() => null);
+    const missingVariants = variantKeys.map((_, variant) => variant).filter(variant => !cachedResponses[variant]);
+    const cachedVariantCount = variantCount - missingVariants.length;
+    if (cachedVariantCount > 0) {
+        console.log(`Reusing ${cachedVariantCount} cached edit variant(s).`);
+        progress.emit({ type: 'cache-hit', stage: 'editing' });
+    }
+
+    let received = cachedVariantCount;
+    const newResponses: PromiseSettledResult<ModelImageResult>[] = [];
+    if (missingVariants.length > 0) {
+        console.log(`Sending resized image(s) and prompt for ${missingVariants.length} edit variant(s)...`);
+        progress.stage('editing');
+
+        newResponses.push(...await Promise.allSettled(
+            missingVariants.map(async variant => {
+                const response = await provider.edit(fullPrompt, images, signal);
+                reportUsage(onUsage, 'edit', response.usage);
+                progress.emit({ type: 'variant-received', received: ++received, total: variantCount });
+                await writeCachedResponse(variantKeys[variant], 'edit', response);
+                return response;
+            })
+        ));
+        console.log('Received response(s) for image editing.');
+    }
+    throwIfAborted(signal);
+
+    // Back in variant order, with the cached replies in their slots
+    const responses = cachedResponses.map((cached, variant): PromiseSettledResult<ModelImageResult> => cached
+        ? { status: 'fulfilled', value: cached }
+        : newResponses[missingVariants.indexOf(variant)]);
     
     let text: string | null = null;
-    let finalImageUrl: string | null = null;
     
-    const responseParts = response.candidates?.[0]?.content?.parts;
-    if (responseParts) {
-        for (const part of responseParts) {
-            if (part.text) {
-                text = part.text;
-            } else if (part.inlineData) {
-                const { mimeType, data } = part.inlineData;
-                const generatedSquareImageUrl = `data:${mimeType};base64,${data}`;
-                
-                // Crop the generated square image back to the original aspect ratio
-                console.log('Cropping generated chat image to original aspect ratio...');
-                finalImageUrl = await cropToOriginalAspectRatio(
-                    generatedSquareImageUrl,
-                    originalWidth,
-                    originalHeight,
-                    MAX_DIMENSION
-                );
-            }
+    progress.stage('cropping');
+    const croppedImages: Blob[] = [];
+    for (const result of responses) {
+        if (result.status === 'rejected') {
+            console.error('An edit variant request failed:', result.reason);
+            continue;
         }
+        const response = result.value;
+        // Keep the first reply; the variants usually describe the same change
+        text = text ?? response.text;
+        if (!response.image) continue;
+        
+        // Crop the generated square image back to the original aspect ratio
+        console.log('Cropping generated chat image to original aspect ratio...');
+        croppedImages.push(await abortable(cropImageToScene(inlineImageToBlob(response.image), preparedScene, MAX_DIMENSION), signal));
+    }
+
+    // The scene is decoded once for all variants
+    progress.stage('blending');
+    let editedImages: Blob[];
+    if (regionMask) {
+        // Keep the model's changes inside the painted region only
+        console.log('Compositing edited region back into the original scene...');
+        editedImages = await abortable(compositeRegionIntoScene(imageToEdit, croppedImages, regionMask), signal);
+    } else {
+        console.log('Blending changed regions into the full-resolution scene...');
+        editedImages = await abortable(blendIntoScene(imageToEdit, croppedImages), signal);
     }
+    progress.finish();
     
-    if (!text && !finalImageUrl) {
-        console.error("Model response did not contain text or an image part.", response);
-        throw new Error("The AI model did not return an edited image or a text response.");
+    if (!text && editedImages.length === 0) {
+        const firstFailure = responses.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+        if (firstFailure) {
+            throw firstFailure.reason;
+        }
+        console.error("Model response did not contain text or an image part.", responses);
+        throw new ModelError('no-image', "The AI model did not return an edited image or a text response.");
     }
     
-    return { text, imageUrl: finalImageUrl };
-};
\ No newline at end of file
+    return { text, images: editedImages, cachedVariantCount };
+};
+
+// Decodes a base64 data URL into a Blob
+const dataUrlToBlob = (dataUrl: string): Blob => {
+    const arr = dataUrl.split(',');
+    if (arr.length < 2) throw new Error("Invalid data URL");
+    const mimeMatch = arr[0].match(/:(.*?);/);
+    const bstr = atob(arr[1]);
+    const u8arr = new Uint8Array(bstr.length);
+    for (let i = 0; i < bstr.length; i++) {
+        u8arr[i] = bstr.charCodeAt(i);
+    }
+    return new Blob([u8arr], { type: mimeMatch?.[1] ?? 'image/png' });
+};
+
+interface SegmentationItem {
+    box_2d: [number, number, number, number];
+    mask: string;
+    label?: string;
+}
+
+/**
+ * Produces a cut-out of the product with its background made transparent.
+ * The model is asked for a segmentation mask first; if it returns nothing usable
+ * (or the mock provider is active), a local border-colour estimate is used instead.
+ * @param productImage The uploaded product photo.
+ * @param signal Optional signal to cancel the segmentation request.
+ * @param onUsage Optional listener for the billed tokens of the segmentation request.
+ * @returns A PNG file of the product on a transparent background.
+ */
+export const removeProductBackground = async (productImage: File, signal?: AbortSignal, onUsage?: UsageListener): Promise<File> => {
+    console.log('Preparing product cut-out...');
+    const provider = getImageModelProvider();
+
+    // Segmentation coordinates are relative to the image we send, so send an
+    // unpadded copy that keeps the original aspect ratio.
+    const MAX_DIMENSION = 1024;
+    const scaledImage = await abortable(scaleImageToFit(productImage, MAX_DIMENSION), signal);
+
+    const segmentationPrompt = `
+Give the segmentation mask for the single main product in this photo (the object being sold, e.g. a piece of furniture or decor).
+Output a JSON list with one entry containing the 2D bounding box in the key "box_2d", the segmentation mask in key "mask", and the text label in the key "label".
+`;
+
+    let segmentation: ProductSegmentation | null = null;
+    try {
+        const { text: responseText, usage } = await provider.segmentProduct(segmentationPrompt, await blobToInlineImage(scaledImage), signal);
+        reportUsage(onUsage, 'segment-product', usage);
+        const cleaned = responseText.replace(/^```(?:json)?\s*|\s*```$/g, '').trim();
+        const items = JSON.parse(cleaned || '[]') as SegmentationItem[];
+        // Prefer the largest detected object
+        const item = items
+            .filter(entry => Array.isArray(entry.box_2d) && entry.box_2d.length === 4 && typeof entry.mask === 'string')
+            .sort((a, b) => ((b.box_2d[2] - b.box_2d[0]) * (b.box_2d[3] - b.box_2d[1])) - ((a.box_2d[2] - a.box_2d[0]) * (a.box_2d[3] - a.box_2d[1])))[0];
+        if (item) {
+            const probabilityMap = dataUrlToBlob(item.mask.startsWith('data:') ? item.mask : `data:image/png;base64,${item.mask}`);
+            segmentation = { box: item.box_2d, probabilityMap };
+        }
+    } catch (error) {
+        if (isAbortError(error)) throw error;
+        console.warn('Segmentation failed, falling back to local estimate:', error);
+    }
+
+    const cutout = await abortable(cutOutProduct(productImage, segmentation), signal);
+    return new File([cutout], productImage.name.replace(/\.[^.]+$/, '') + '-cutout.png', { type: 'image/png', lastModified: Date.now() });
+};
+
+/**
+ * Asks the model where the floor is, as a quadrilateral that can seed the
+ * perspective floor plane. Returns null when no usable floor was found.
+ * @param sceneImage The scene to analyse.
+ * @param signal Optional signal to cancel the request.
+ * @param onUsage Optional listener for the billed tokens of the request.
+ */
+export const estimateFloorPlane = async (sceneImage: File, signal?: AbortSignal, onUsage?: UsageListener): Promise<FloorQuad | null> => {
+    console.log('Estimating floor plane...');
+    const provider = getImageModelProvider();
+
+    // Like segmentation, coordinates are relative to the image we send, so keep the aspect ratio
+    const MAX_DIMENSION = 1024;
+    const scaledImage = await abortable(scaleImageToFit(sceneImage, MAX_DIMENSION), signal);
+
+    const floorPrompt = `
+Find the largest visible area of flat floor (or ground) in this photo and describe it as a quadrilateral that follows the floor's perspective:
+its two near corners lie on a line parallel to the bottom of the photo, and its left and right edges follow lines on the floor that recede away from the camera (floorboards, tiles, rug or wall edges).
+Output JSON only, in the form {"floor": [[y, x], [y, x], [y, x], [y, x]]} with coordinates normalized to 0-1000, in the order near-left, near-right, far-right, far-left.
+If there is no visible floor, output {"floor": null}.
+`;
+
+    const { text: responseText, usage } = await provider.describeLocation(floorPrompt, await blobToInlineImage(scaledImage), signal);
+    reportUsage(onUsage, 'estimate-floor', usage);
+    const quad = parseFloorQuad(responseText);
+    if (!quad) {
+        console.warn('No usable floor plane in response:', responseText);
+    }
+    return quad;
+};
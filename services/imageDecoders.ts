@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Decoders for the upload formats most browsers can't read themselves: HEIC
+// (iPhone photos) and TIFF. Only Safari decodes these natively, so everywhere
+// else imageIngestion.ts converts them with these libraries first. The
+// libraries are large and rarely needed, so each is loaded on first use.
+
+export type DecodableFormat = 'heic' | 'tiff';
+
+const createCanvas = (width: number, height: number) => {
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get canvas context for image decoding.');
+    }
+    return { canvas, ctx };
+};
+
+// Canvas transforms that turn each EXIF orientation upright (1 is already upright)
+const ORIENTATION_TRANSFORMS: Record<number, (width: number, height: number) => [number, number, number, number, number, number]> = {
+    2: (width) => [-1, 0, 0, 1, width, 0],
+    3: (width, height) => [-1, 0, 0, -1, width, height],
+    4: (_, height) => [1, 0, 0, -1, 0, height],
+    5: () => [0, 1, 1, 0, 0, 0],
+    6: (_, height) => [0, 1, -1, 0, height, 0],
+    7: (width, height) => [0, -1, -1, 0, height, width],
+    8: (width) => [0, -1, 1, 0, 0, width],
+};
+
+const decodeHeic = async (file: Blob): Promise<Blob> => {
+    const { default: heic2any } = await import('heic2any');
+    // libheif applies the photo's rotation itself; only the first image of a burst or live photo is kept
+    const result = await heic2any({ blob: file, toType: 'image/png' });
+    return Array.isArray(result) ? result[0] : result;
+};
+
+// The decoded pixels carry no EXIF, so the TIFF's orientation is applied here
+const decodeTiff = async (file: Blob, orientation: number): Promise<Blob> => {
+    const UTIF = await import('utif2');
+    const buffer = await file.arrayBuffer();
+    const [page] = UTIF.decode(buffer);
+    if (!page) {
+        throw new Error('The TIFF file contains no image.');
+    }
+    UTIF.decodeImage(buffer, page);
+    const { width, height } = page;
+    const pixels = new ImageData(new Uint8ClampedArray(UTIF.toRGBA8(page)), width, height);
+
+    const decoded = createCanvas(width, height);
+    decoded.ctx.putImageData(pixels, 0, 0);
+    const transform = ORIENTATION_TRANSFORMS[orientation];
+    if (!transform) {
+        return decoded.canvas.convertToBlob({ type: 'image/png' });
+    }
+    const isQuarterTurn = orientation >= 5;
+    const upright = createCanvas(isQuarterTurn ? height : width, isQuarterTurn ? width : height);
+    upright.ctx.transform(...transform(width, height));
+    upright.ctx.drawImage(decoded.canvas, 0, 0);
+    return upright.canvas.convertToBlob({ type: 'image/png' });
+};
+
+/**
+ * Decodes a HEIC or TIFF file without the browser's help.
+ * @param file The uploaded file.
+ * @param format Its format, as detected from its bytes.
+ * @param orientation The EXIF orientation read from the file (used for TIFF).
+ * @returns The first image in the file as an upright PNG, without metadata.
+ */
+export const decodeWithLibrary = (file: Blob, format: DecodableFormat, orientation: number): Promise<Blob> =>
+    format === 'heic' ? decodeHeic(file) : decodeTiff(file, orientation);
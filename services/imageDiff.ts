@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createMaskCanvas, loadImageFromBlob } from './maskUtils';
+
+// Difference heatmaps for comparing two scene versions. Both images are
+// compared at the "after" image's aspect ratio, capped to a working size.
+
+const MAX_DIMENSION = 1024;
+// Per-channel difference (0-255) above which a pixel counts as changed, as in detail preservation
+const CHANGE_THRESHOLD = 28;
+// Differences at or above this are shown at full heat
+const FULL_HEAT = 160;
+
+export interface DifferenceHeatmap {
+    imageUrl: string;
+    // Share of pixels that changed noticeably
+    changedFraction: number;
+}
+
+// Black-red-yellow-white ramp for t in 0-1
+const heatColor = (t: number): [number, number, number] => {
+    const r = Math.min(1, t * 3);
+    const g = Math.min(1, Math.max(0, t * 3 - 1));
+    const b = Math.min(1, Math.max(0, t * 3 - 2));
+    return [r * 255, g * 255, b * 255];
+};
+
+/**
+ * Renders where `after` differs from `before` as a heatmap over a dimmed,
+ * greyscale copy of `after`.
+ */
+export const renderDifferenceHeatmap = async (before: Blob, after: Blob): Promise<DifferenceHeatmap> => {
+    const [beforeImg, afterImg] = await Promise.all([loadImageFromBlob(before), loadImageFromBlob(after)]);
+    const ratio = Math.min(1, MAX_DIMENSION / Math.max(afterImg.naturalWidth, afterImg.naturalHeight));
+    const width = Math.max(1, Math.round(afterImg.naturalWidth * ratio));
+    const height = Math.max(1, Math.round(afterImg.naturalHeight * ratio));
+
+    const readPixels = (image: HTMLImageElement) => {
+        const canvas = createMaskCanvas(width, height);
+        const ctx = canvas.getContext('2d', { willReadFrequently: true });
+        if (!ctx) {
+            throw new Error('Could not get canvas context for comparison.');
+        }
+        ctx.drawImage(image, 0, 0, width, height);
+        return ctx.getImageData(0, 0, width, height);
+    };
+    const beforePixels = readPixels(beforeImg).data;
+    const output = readPixels(afterImg);
+    const data = output.data;
+
+    let changed = 0;
+    for (let p = 0; p < data.length; p += 4) {
+        const diff = Math.max(
+            Math.abs(beforePixels[p] - data[p]),
+            Math.abs(beforePixels[p + 1] - data[p + 1]),
+            Math.abs(beforePixels[p + 2] - data[p + 2])
+        );
+        if (diff > CHANGE_THRESHOLD) changed++;
+
+        const grey = (data[p] * 0.299 + data[p + 1] * 0.587 + data[p + 2] * 0.114) * 0.35;
+        const heat = Math.min(1, diff / FULL_HEAT);
+        const [r, g, b] = heatColor(heat);
+        // Small differences (compression noise) fade into the background
+        const alpha = diff > CHANGE_THRESHOLD ? Math.max(0.5, heat) : heat * 0.5;
+        data[p] = grey + (r - grey) * alpha;
+        data[p + 1] = grey + (g - grey) * alpha;
+        data[p + 2] = grey + (b - grey) * alpha;
+        data[p + 3] = 255;
+    }
+
+    const canvas = createMaskCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get canvas context for comparison.');
+    }
+    ctx.putImageData(output, 0, 0);
+    return { imageUrl: canvas.toDataURL('image/png'), changedFraction: changed / (width * height) };
+};
@@ -0,0 +1,82 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { detectImageFormat, readExifSummary } from './imageIngestion';
+
+const ascii = (text: string) => Array.from(text, char => char.charCodeAt(0));
+
+// A big-endian TIFF block with the given 12-byte entries in its first directory, and an
+// optional GPS directory with the given number of entries right after it
+const createTiffBlock = (entries: { tag: number; value: number }[], gpsEntryCount?: number): number[] => {
+    const bytes = [...ascii('MM'), 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08];
+    bytes.push(0x00, entries.length);
+    entries.forEach(({ tag, value }) => {
+        bytes.push(tag >> 8, tag & 0xff, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01);
+        bytes.push((value >> 24) & 0xff, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff);
+    });
+    bytes.push(0x00, 0x00, 0x00, 0x00);
+    if (gpsEntryCount !== undefined) {
+        bytes.push(0x00, gpsEntryCount, ...new Array(gpsEntryCount * 12).fill(0));
+    }
+    return bytes;
+};
+
+// A JPEG whose APP1 segment holds the given TIFF block
+const createJpeg = (tiff: number[]): Uint8Array => {
+    const length = 2 + 6 + tiff.length;
+    return new Uint8Array([0xff, 0xd8, 0xff, 0xe1, length >> 8, length & 0xff, ...ascii('Exif\0\0'), ...tiff, 0xff, 0xda, 0x00, 0x02]);
+};
+
+const ORIENTATION = 0x0112;
+const GPS_IFD = 0x8825;
+
+describe('detectImageFormat', () => {
+    it('recognizes formats by their signature, not their name or MIME type', () => {
+        const padded = (bytes: number[]) => new Uint8Array([...bytes, ...new Array(16).fill(0)]);
+        expect(detectImageFormat(padded([0xff, 0xd8, 0xff, 0xe0]))).toBe('jpeg');
+        expect(detectImageFormat(padded([0x89, ...ascii('PNG\r\n\x1a\n')]))).toBe('png');
+        expect(detectImageFormat(padded([...ascii('RIFF'), 0, 0, 0, 0, ...ascii('WEBP')]))).toBe('webp');
+        expect(detectImageFormat(padded(ascii('GIF89a')))).toBe('gif');
+        expect(detectImageFormat(padded(ascii('II*\0')))).toBe('tiff');
+        expect(detectImageFormat(padded(ascii('%PDF-1.7')))).toBeNull();
+        expect(detectImageFormat(new Uint8Array([0xff, 0xd8]))).toBeNull();
+    });
+
+    it('tells HEIC and AVIF apart by their brands', () => {
+        const ftyp = (major: string, compatible: string[]) => {
+            const size = 16 + compatible.length * 4;
+            return new Uint8Array([0, 0, 0, size, ...ascii('ftyp'), ...ascii(major), 0, 0, 0, 0, ...compatible.flatMap(ascii)]);
+        };
+        expect(detectImageFormat(ftyp('heic', ['mif1', 'heic']))).toBe('heic');
+        expect(detectImageFormat(ftyp('mif1', ['mif1', 'heix']))).toBe('heic');
+        // AVIF files list the generic 'mif1' brand as well
+        expect(detectImageFormat(ftyp('mif1', ['mif1', 'avif']))).toBe('avif');
+        expect(detectImageFormat(ftyp('isom', ['isom', 'mp41']))).toBeNull();
+    });
+});
+
+describe('readExifSummary', () => {
+    it('reads the orientation from a JPEG', () => {
+        expect(readExifSummary(createJpeg(createTiffBlock([{ tag: ORIENTATION, value: 6 << 16 }])), 'jpeg'))
+            .toEqual({ orientation: 6, hasLocation: false });
+    });
+
+    it('reports location data only when the GPS directory has entries', () => {
+        // The GPS directory starts after the header (8), the count (2), two entries (24) and the next pointer (4)
+        const gpsOffset = 8 + 2 + 24 + 4;
+        const withFix = createTiffBlock([{ tag: ORIENTATION, value: 1 << 16 }, { tag: GPS_IFD, value: gpsOffset }], 1);
+        const withoutFix = createTiffBlock([{ tag: ORIENTATION, value: 1 << 16 }, { tag: GPS_IFD, value: gpsOffset }], 0);
+        expect(readExifSummary(createJpeg(withFix), 'jpeg').hasLocation).toBe(true);
+        expect(readExifSummary(createJpeg(withoutFix), 'jpeg').hasLocation).toBe(false);
+    });
+
+    it('treats a missing, invalid or truncated block as upright without location', () => {
+        expect(readExifSummary(new Uint8Array([0xff, 0xd8, 0xff, 0xda, 0x00, 0x02]), 'jpeg')).toEqual({ orientation: 1, hasLocation: false });
+        expect(readExifSummary(createJpeg(createTiffBlock([{ tag: ORIENTATION, value: 9 << 16 }])), 'jpeg').orientation).toBe(1);
+        expect(readExifSummary(new Uint8Array([...ascii('MM'), 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08, 0x00, 0x05]), 'tiff'))
+            .toEqual({ orientation: 1, hasLocation: false });
+    });
+});
@@ -0,0 +1,235 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { DecodableFormat, decodeWithLibrary } from './imageDecoders';
+import { normalizeImage } from './imagePipeline';
+
+// Every uploaded photo passes through here before it becomes a scene or a
+// product. Files the rest of the app can use as they are (JPEG, PNG or WebP,
+// upright, without location data and within the size limit) are kept
+// byte-for-byte; anything else is redrawn by the image worker, which applies
+// the EXIF orientation, converts the format and drops all metadata. HEIC and
+// TIFF files the browser can't decode are converted by imageDecoders.ts first.
+
+export type SourceFormat = 'jpeg' | 'png' | 'webp' | 'gif' | 'bmp' | 'heic' | 'avif' | 'tiff';
+
+const FORMAT_LABELS: Record<SourceFormat, string> = {
+    jpeg: 'JPEG',
+    png: 'PNG',
+    webp: 'WebP',
+    gif: 'GIF',
+    bmp: 'BMP',
+    heic: 'HEIC',
+    avif: 'AVIF',
+    tiff: 'TIFF',
+};
+
+// Formats kept as they are; everything else is converted to JPEG (or PNG when transparent)
+const SUPPORTED_FORMATS: SourceFormat[] = ['jpeg', 'png', 'webp'];
+
+// Formats with a bundled decoder, for browsers that can't read them
+const LIBRARY_FORMATS: SourceFormat[] = ['heic', 'tiff'];
+
+const isLibraryFormat = (format: SourceFormat): format is DecodableFormat => LIBRARY_FORMATS.includes(format);
+
+// Formats that can carry transparency, e.g. a product photo that is already cut out
+const TRANSPARENT_FORMATS: SourceFormat[] = ['png', 'webp', 'gif', 'heic', 'avif', 'tiff'];
+
+// Longest side an upload is kept at. Edits are blended back into the scene at full
+// resolution, so this is generous; it keeps very large photos from exhausting memory.
+export const MAX_INGEST_DIMENSION = 4096;
+
+// The format signature and the EXIF block sit near the start of the file
+const HEADER_BYTES = 256 * 1024;
+
+// EXIF tags read from the first image directory
+const ORIENTATION_TAG = 0x0112;
+const GPS_IFD_TAG = 0x8825;
+
+const readAscii = (bytes: Uint8Array, start: number, length: number): string =>
+    String.fromCharCode(...bytes.subarray(start, start + length));
+
+// HEIC and AVIF are both ISO-BMFF files; their brands tell them apart
+const AVIF_BRANDS = ['avif', 'avis'];
+const HEIC_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1'];
+
+/**
+ * Identifies the image format from its first bytes. The browser's MIME type is
+ * not used: it is often empty for HEIC, and wrong for renamed files.
+ */
+export const detectImageFormat = (bytes: Uint8Array): SourceFormat | null => {
+    if (bytes.length < 12) return null;
+    if (bytes[0] === 0xFF && bytes[1] === 0xD8 && bytes[2] === 0xFF) return 'jpeg';
+    if (readAscii(bytes, 0, 8) === '\x89PNG\r\n\x1a\n') return 'png';
+    if (readAscii(bytes, 0, 4) === 'RIFF' && readAscii(bytes, 8, 4) === 'WEBP') return 'webp';
+    if (readAscii(bytes, 0, 4) === 'GIF8') return 'gif';
+    if (readAscii(bytes, 0, 2) === 'BM') return 'bmp';
+    if (readAscii(bytes, 0, 4) === 'II*\0' || readAscii(bytes, 0, 4) === 'MM\0*') return 'tiff';
+    if (readAscii(bytes, 4, 4) === 'ftyp') {
+        // The major brand, then the compatible brands after the minor version
+        const boxSize = Math.min(new DataView(bytes.buffer, bytes.byteOffset).getUint32(0), bytes.length);
+        const brands = [readAscii(bytes, 8, 4)];
+        for (let offset = 16; offset + 4 <= boxSize; offset += 4) {
+            brands.push(readAscii(bytes, offset, 4));
+        }
+        // AVIF files list the generic 'mif1' brand too, so check for AVIF first
+        if (brands.some(brand => AVIF_BRANDS.includes(brand))) return 'avif';
+        if (brands.some(brand => HEIC_BRANDS.includes(brand))) return 'heic';
+    }
+    return null;
+};
+
+// Finds the TIFF-structured EXIF block: a JPEG APP1 segment, a PNG eXIf chunk or a WebP EXIF chunk
+const findExifBlock = (bytes: Uint8Array, format: SourceFormat): DataView | null => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const block = (start: number, length: number) => start + length <= bytes.length
+        ? new DataView(bytes.buffer, bytes.byteOffset + start, length)
+        : null;
+
+    if (format === 'jpeg') {
+        let offset = 2;
+        while (offset + 4 <= bytes.length && bytes[offset] === 0xFF) {
+            const marker = bytes[offset + 1];
+            // Metadata segments all come before the image data
+            if (marker === 0xDA || marker === 0xD9) break;
+            const length = view.getUint16(offset + 2);
+            if (marker === 0xE1 && readAscii(bytes, offset + 4, 6) === 'Exif\0\0') {
+                return block(offset + 10, length - 8);
+            }
+            offset += 2 + length;
+        }
+    } else if (format === 'png') {
+        let offset = 8;
+        while (offset + 8 <= bytes.length) {
+            const length = view.getUint32(offset);
+            const type = readAscii(bytes, offset + 4, 4);
+            if (type === 'eXIf') return block(offset + 8, length);
+            if (type === 'IDAT' || type === 'IEND') break;
+            offset += 12 + length;
+        }
+    } else if (format === 'webp') {
+        let offset = 12;
+        while (offset + 8 <= bytes.length) {
+            const type = readAscii(bytes, offset, 4);
+            const size = view.getUint32(offset + 4, true);
+            if (type === 'EXIF') {
+                // Some writers keep the JPEG-style "Exif" prefix
+                const prefix = readAscii(bytes, offset + 8, 6) === 'Exif\0\0' ? 6 : 0;
+                return block(offset + 8 + prefix, size - prefix);
+            }
+            // Chunks are padded to an even size
+            offset += 8 + size + (size % 2);
+        }
+    } else if (format === 'tiff') {
+        return view;
+    }
+    return null;
+};
+
+export interface ExifSummary {
+    // 1 is upright; 2-8 are the mirrored and rotated variants
+    orientation: number;
+    hasLocation: boolean;
+}
+
+/**
+ * Reads the orientation and whether GPS data is present from an image's first bytes.
+ * Images without (readable) EXIF count as upright and without location.
+ */
+export const readExifSummary = (bytes: Uint8Array, format: SourceFormat): ExifSummary => {
+    const summary: ExifSummary = { orientation: 1, hasLocation: false };
+    const tiff = findExifBlock(bytes, format);
+    if (!tiff) return summary;
+    try {
+        const littleEndian = tiff.getUint16(0) === 0x4949;
+        const firstDirectory = tiff.getUint32(4, littleEndian);
+        const entryCount = tiff.getUint16(firstDirectory, littleEndian);
+        for (let i = 0; i < entryCount; i++) {
+            const entry = firstDirectory + 2 + i * 12;
+            const tag = tiff.getUint16(entry, littleEndian);
+            if (tag === ORIENTATION_TAG) {
+                const orientation = tiff.getUint16(entry + 8, littleEndian);
+                if (orientation >= 1 && orientation <= 8) summary.orientation = orientation;
+            } else if (tag === GPS_IFD_TAG) {
+                // Cameras sometimes write an empty GPS directory when there was no fix
+                const gpsDirectory = tiff.getUint32(entry + 8, littleEndian);
+                summary.hasLocation = gpsDirectory + 2 > tiff.byteLength || tiff.getUint16(gpsDirectory, littleEndian) > 0;
+            }
+        }
+    } catch (error) {
+        // A truncated or malformed block; keep what was read
+        console.warn('Could not read the EXIF data:', error);
+    }
+    return summary;
+};
+
+export interface IngestedImage {
+    file: File;
+    // What was done to the upload, for telling the user; empty when it was kept as it was
+    changes: string[];
+}
+
+const replaceExtension = (name: string, extension: string): string => {
+    const base = name.replace(/\.[^./\\]+$/, '') || 'image';
+    return `${base}.${extension}`;
+};
+
+/**
+ * Prepares an uploaded image for use as a scene or product: turns it upright,
+ * converts formats other than JPEG, PNG and WebP, removes location data and
+ * scales it down to `MAX_INGEST_DIMENSION`.
+ * @param file The file as picked or dropped by the user.
+ * @returns The file to use, with a list of the changes made to it.
+ */
+export const ingestImage = async (file: File): Promise<IngestedImage> => {
+    const header = new Uint8Array(await file.slice(0, HEADER_BYTES).arrayBuffer());
+    const format = detectImageFormat(header);
+    if (!format) {
+        throw new Error('This file is not an image Home Canvas can read. Please use a JPG, PNG, WebP or HEIC photo.');
+    }
+    const { orientation, hasLocation } = readExifSummary(header, format);
+    const needsConversion = !SUPPORTED_FORMATS.includes(format);
+    const needsRotation = orientation !== 1;
+
+    let normalized;
+    try {
+        normalized = await normalizeImage(file, MAX_INGEST_DIMENSION, {
+            force: needsConversion || needsRotation || hasLocation,
+            keepTransparency: TRANSPARENT_FORMATS.includes(format),
+        });
+    } catch (error) {
+        if (!isLibraryFormat(format)) {
+            console.error('Could not decode the uploaded image:', error);
+            throw new Error(needsConversion
+                ? `This browser can't read ${FORMAT_LABELS[format]} images. Please convert the photo to JPG or PNG, or try another browser.`
+                : 'The image could not be read. It may be damaged or incomplete.');
+        }
+        // Only Safari decodes HEIC and TIFF itself; elsewhere the bundled decoder converts the file first
+        try {
+            const decoded = await decodeWithLibrary(file, format, orientation);
+            normalized = await normalizeImage(decoded, MAX_INGEST_DIMENSION, { force: true, keepTransparency: true });
+        } catch (decodeError) {
+            console.error('Could not decode the uploaded image:', decodeError);
+            // e.g. an unusual HEIC variant or a TIFF compression the decoder doesn't support
+            const hint = format === 'heic' ? ' On an iPhone, Settings > Camera > Formats > Most Compatible saves new photos as JPG.' : '';
+            throw new Error(`This ${FORMAT_LABELS[format]} image could not be read. It may be damaged or use an unsupported variant; please convert it to JPG or PNG.${hint}`);
+        }
+    }
+    if (!normalized) {
+        return { file, changes: [] };
+    }
+
+    const changes: string[] = [];
+    if (needsConversion) changes.push(`Converted from ${FORMAT_LABELS[format]}`);
+    if (needsRotation) changes.push('Turned upright');
+    if (hasLocation) changes.push('Removed location data');
+    if (normalized.downsampled) changes.push(`Scaled down to ${normalized.width}×${normalized.height}`);
+
+    const extension = normalized.image.type === 'image/png' ? 'png' : 'jpeg';
+    return {
+        file: new File([normalized.image], replaceExtension(file.name, extension), { type: normalized.image.type, lastModified: file.lastModified }),
+        changes,
+    };
+};
@@ -0,0 +1,71 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { crc32 } from './crc32';
+import { buildXmpPacket, embedMetadata, ExportMetadata } from './imageMetadata';
+
+const METADATA: ExportMetadata = {
+    title: 'Living room <draft>',
+    createdAt: Date.UTC(2024, 0, 1),
+    exportedAt: Date.UTC(2024, 0, 2),
+    products: ['Sofa & cushions'],
+    prompts: ['Place the sofa "by the window"'],
+};
+
+const decode = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+// The smallest PNG layout the writer needs: signature and IHDR
+const createPng = (): Uint8Array => {
+    const bytes = new Uint8Array(8 + 25 + 12);
+    bytes.set([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+    bytes.set(new TextEncoder().encode('IHDR'), 12);
+    bytes.set(new TextEncoder().encode('IEND'), 8 + 25 + 4);
+    return bytes;
+};
+
+describe('buildXmpPacket', () => {
+    it('escapes the values and can leave the prompts out', () => {
+        const packet = buildXmpPacket(METADATA);
+        expect(packet).toContain('Living room &lt;draft&gt;');
+        expect(packet).toContain('<rdf:li>Sofa &amp; cushions</rdf:li>');
+        expect(packet).toContain('&quot;by the window&quot;');
+        expect(packet).toContain('<xmp:CreateDate>2024-01-01T00:00:00.000Z</xmp:CreateDate>');
+        expect(buildXmpPacket(METADATA, false)).not.toContain('homecanvas:prompts');
+    });
+});
+
+describe('embedMetadata', () => {
+    it('adds an iTXt chunk with a valid CRC after the PNG header', async () => {
+        const png = createPng();
+        const output = new Uint8Array(await (await embedMetadata(new Blob([png], { type: 'image/png' }), METADATA, { width: 1, height: 1 })).arrayBuffer());
+        const view = new DataView(output.buffer);
+        const length = view.getUint32(33);
+        expect(decode(output.subarray(37, 41))).toBe('iTXt');
+        const data = output.subarray(41, 41 + length);
+        expect(decode(data)).toContain('XML:com.adobe.xmp');
+        expect(view.getUint32(41 + length)).toBe(crc32(output.subarray(37, 41 + length)));
+        // The rest of the file follows unchanged
+        expect(output.subarray(45 + length)).toEqual(png.subarray(33));
+    });
+
+    it('adds an APP1 segment after the JPEG JFIF header, without the prompts when they are too long', async () => {
+        const jfif = [0xff, 0xd8, 0xff, 0xe0, 0x00, 0x04, 0x00, 0x00, 0xff, 0xd9];
+        const metadata = { ...METADATA, prompts: ['x'.repeat(70_000)] };
+        const output = new Uint8Array(await (await embedMetadata(new Blob([new Uint8Array(jfif)], { type: 'image/jpeg' }), metadata, { width: 1, height: 1 })).arrayBuffer());
+        // SOI and the 6-byte APP0 segment come first
+        expect([output[8], output[9]]).toEqual([0xff, 0xe1]);
+        const segmentLength = (output[10] << 8) | output[11];
+        const segment = decode(output.subarray(12, 10 + segmentLength));
+        expect(segment.startsWith('http://ns.adobe.com/xap/1.0/\0')).toBe(true);
+        expect(segment).not.toContain('homecanvas:prompts');
+        expect([...output.subarray(10 + segmentLength)]).toEqual([0xff, 0xd9]);
+    });
+
+    it('leaves other types unchanged', async () => {
+        const gif = new Blob(['GIF89a'], { type: 'image/gif' });
+        expect(await embedMetadata(gif, METADATA, { width: 1, height: 1 })).toBe(gif);
+    });
+});
@@ -0,0 +1,183 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { crc32 } from './crc32';
+
+// Embeds an XMP packet into PNG, JPEG and WebP files produced by the canvas.
+// The canvas encoders never write metadata themselves, so the packet is
+// spliced into the encoded bytes directly.
+
+export interface ExportMetadata {
+    title: string;
+    createdAt: number;
+    exportedAt: number;
+    products: string[];
+    prompts: string[];
+}
+
+const XMP_NAMESPACE_JPEG = 'http://ns.adobe.com/xap/1.0/\0';
+// A JPEG APP1 segment is limited to 64 KB including its header
+const MAX_JPEG_XMP_BYTES = 65533 - XMP_NAMESPACE_JPEG.length;
+
+const textEncoder = new TextEncoder();
+
+const escapeXml = (value: string): string => value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const toRdfList = (tag: 'rdf:Bag' | 'rdf:Seq', items: string[]): string => {
+    const entries = items.map(item => `<rdf:li>${escapeXml(item)}</rdf:li>`).join('');
+    return `<${tag}>${entries}</${tag}>`;
+};
+
+export const buildXmpPacket = (metadata: ExportMetadata, includePrompts = true): string => {
+    return [
+        '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+        '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+        '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+        '<rdf:Description rdf:about=""',
+        ' xmlns:dc="http://purl.org/dc/elements/1.1/"',
+        ' xmlns:xmp="http://ns.adobe.com/xap/1.0/"',
+        ' xmlns:homecanvas="https://github.com/Nikhil-Joson/HomeCanvas/ns/1.0/">',
+        `<dc:title><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(metadata.title)}</rdf:li></rdf:Alt></dc:title>`,
+        '<xmp:CreatorTool>Home Canvas</xmp:CreatorTool>',
+        `<xmp:CreateDate>${new Date(metadata.createdAt).toISOString()}</xmp:CreateDate>`,
+        `<xmp:MetadataDate>${new Date(metadata.exportedAt).toISOString()}</xmp:MetadataDate>`,
+        `<homecanvas:products>${toRdfList('rdf:Bag', metadata.products)}</homecanvas:products>`,
+        includePrompts ? `<homecanvas:prompts>${toRdfList('rdf:Seq', metadata.prompts)}</homecanvas:prompts>` : '',
+        '</rdf:Description>',
+        '</rdf:RDF>',
+        '</x:xmpmeta>',
+        '<?xpacket end="w"?>',
+    ].join('');
+};
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+    const total = parts.reduce((sum, part) => sum + part.length, 0);
+    const result = new Uint8Array(total);
+    let offset = 0;
+    parts.forEach(part => {
+        result.set(part, offset);
+        offset += part.length;
+    });
+    return result;
+};
+
+const uint32BE = (value: number): Uint8Array => {
+    const bytes = new Uint8Array(4);
+    new DataView(bytes.buffer).setUint32(0, value, false);
+    return bytes;
+};
+
+const uint32LE = (value: number): Uint8Array => {
+    const bytes = new Uint8Array(4);
+    new DataView(bytes.buffer).setUint32(0, value, true);
+    return bytes;
+};
+
+// Inserts an iTXt chunk carrying the XMP packet right after the IHDR chunk
+const embedInPng = (bytes: Uint8Array, xmp: string): Uint8Array => {
+    const IHDR_END = 8 + 25; // signature + IHDR (length, type, 13 data bytes, CRC)
+    const type = textEncoder.encode('iTXt');
+    const data = concatBytes([
+        textEncoder.encode('XML:com.adobe.xmp'),
+        new Uint8Array([0, 0, 0, 0, 0]), // keyword terminator, no compression, empty language and translated keyword
+        textEncoder.encode(xmp),
+    ]);
+    const chunk = concatBytes([
+        uint32BE(data.length),
+        type,
+        data,
+        uint32BE(crc32(data, crc32(type))),
+    ]);
+    return concatBytes([bytes.subarray(0, IHDR_END), chunk, bytes.subarray(IHDR_END)]);
+};
+
+// Inserts an APP1 XMP segment after the SOI marker (and the JFIF APP0 segment, if present)
+const embedInJpeg = (bytes: Uint8Array, xmp: string): Uint8Array => {
+    let insertAt = 2;
+    if (bytes[2] === 0xff && bytes[3] === 0xe0) {
+        insertAt = 4 + ((bytes[4] << 8) | bytes[5]);
+    }
+    const payload = concatBytes([textEncoder.encode(XMP_NAMESPACE_JPEG), textEncoder.encode(xmp)]);
+    const segmentLength = payload.length + 2;
+    const segment = concatBytes([
+        new Uint8Array([0xff, 0xe1, segmentLength >> 8, segmentLength & 0xff]),
+        payload,
+    ]);
+    return concatBytes([bytes.subarray(0, insertAt), segment, bytes.subarray(insertAt)]);
+};
+
+// Converts a simple WebP into the extended (VP8X) format and appends an XMP chunk
+const embedInWebp = (bytes: Uint8Array, xmp: string, width: number, height: number): Uint8Array => {
+    const XMP_FLAG = 0x04;
+    const firstChunk = new TextDecoder().decode(bytes.subarray(12, 16));
+    let body = bytes.subarray(12);
+
+    if (firstChunk === 'VP8X') {
+        body = new Uint8Array(body);
+        body[8] |= XMP_FLAG;
+    } else {
+        const vp8x = new Uint8Array(18);
+        vp8x.set(textEncoder.encode('VP8X'), 0);
+        vp8x.set(uint32LE(10), 4);
+        vp8x[8] = XMP_FLAG;
+        const view = new DataView(vp8x.buffer);
+        // Canvas width and height minus one, as 24-bit little-endian values
+        view.setUint16(12, (width - 1) & 0xffff, true);
+        vp8x[14] = ((width - 1) >> 16) & 0xff;
+        view.setUint16(15, (height - 1) & 0xffff, true);
+        vp8x[17] = ((height - 1) >> 16) & 0xff;
+        body = concatBytes([vp8x, body]);
+    }
+
+    const xmpBytes = textEncoder.encode(xmp);
+    const xmpChunk = concatBytes([
+        textEncoder.encode('XMP '),
+        uint32LE(xmpBytes.length),
+        xmpBytes,
+        new Uint8Array(xmpBytes.length % 2), // chunks are padded to an even length
+    ]);
+    const riffPayload = concatBytes([textEncoder.encode('WEBP'), body, xmpChunk]);
+    return concatBytes([textEncoder.encode('RIFF'), uint32LE(riffPayload.length), riffPayload]);
+};
+
+/**
+ * Returns a copy of the encoded image with the metadata embedded as XMP.
+ * Unsupported types are returned unchanged.
+ * @param blob A PNG, JPEG or WebP image as produced by `canvas.toBlob`.
+ * @param metadata The details to embed.
+ * @param size The pixel size of the image (needed to build a WebP extended header).
+ */
+export const embedMetadata = async (
+    blob: Blob,
+    metadata: ExportMetadata,
+    size: { width: number; height: number }
+): Promise<Blob> => {
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    let xmp = buildXmpPacket(metadata);
+    let output: Uint8Array;
+
+    switch (blob.type) {
+        case 'image/png':
+            output = embedInPng(bytes, xmp);
+            break;
+        case 'image/jpeg':
+            // Long prompt histories do not fit into a single APP1 segment
+            if (textEncoder.encode(xmp).length > MAX_JPEG_XMP_BYTES) {
+                xmp = buildXmpPacket(metadata, false);
+            }
+            output = embedInJpeg(bytes, xmp);
+            break;
+        case 'image/webp':
+            output = embedInWebp(bytes, xmp, size.width, size.height);
+            break;
+        default:
+            return blob;
+    }
+    return new Blob([output], { type: blob.type });
+};
@@ -0,0 +1,652 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { PlanePoint } from './floorPlane';
+
+// Image preparation for the model calls: padding to a square, drawing the
+// placement markers and the edit region, and cropping results back to the
+// scene's aspect ratio; taking the results back into the full-resolution
+// scene; cutting products out of their photos; plus redrawing uploads upright
+// and within a size limit (see imageIngestion.ts). Everything here uses
+// ImageBitmap and OffscreenCanvas only, so it runs in the image worker (see
+// imagePipeline.ts) as well as on the main thread when no worker is available.
+
+export interface MarkerPosition {
+    xPercent: number;
+    yPercent: number;
+    // Floor footprint to outline beneath the marker, in percent of the scene
+    footprint?: PlanePoint[] | null;
+}
+
+export interface PreparedScene {
+    // The scene's own size, before padding
+    width: number;
+    height: number;
+    // The scene padded to a square, as sent to the model (JPEG)
+    padded: Blob;
+    // The padded scene with numbered markers, when markers were given (JPEG)
+    marked: Blob | null;
+    // The padded scene with the edit region tinted, when a region mask was given (JPEG)
+    highlighted: Blob | null;
+}
+
+export interface ChangedArea {
+    // Box around the changed pixels, in percent of the image; null when nothing changed
+    bounds: { x: number; y: number; width: number; height: number } | null;
+    changedFraction: number;
+}
+
+export interface ProductSegmentation {
+    // [y0, x0, y1, x1], normalized to 0-1000
+    box: [number, number, number, number];
+    // Greyscale probability map covering the box
+    probabilityMap: Blob;
+}
+
+export type ImageJob =
+    | { type: 'prepare-scene'; scene: Blob; targetDimension: number; markers: MarkerPosition[] | null; regionMask: Blob | null }
+    | { type: 'pad'; image: Blob; targetDimension: number; transparentPadding: boolean }
+    | { type: 'crop'; image: Blob; sceneWidth: number; sceneHeight: number; targetDimension: number }
+    | { type: 'normalize'; image: Blob; maxDimension: number; force: boolean; keepTransparency: boolean }
+    | { type: 'detect-changes'; image: Blob; paddedScene: Blob; sceneWidth: number; sceneHeight: number; targetDimension: number }
+    | { type: 'blend'; scene: Blob; images: Blob[] }
+    | { type: 'composite-region'; scene: Blob; images: Blob[]; regionMask: Blob }
+    | { type: 'cutout'; image: Blob; segmentation: ProductSegmentation | null };
+
+export interface NormalizedImage {
+    // JPEG, or PNG when transparency was kept and the image uses it
+    image: Blob;
+    width: number;
+    height: number;
+    downsampled: boolean;
+}
+
+export interface ImageJobResults {
+    'prepare-scene': PreparedScene;
+    pad: Blob;
+    crop: Blob;
+    // Null when the image was within the size limit and redrawing wasn't forced
+    normalize: NormalizedImage | null;
+    'detect-changes': ChangedArea;
+    // Null for a result that left the scene unchanged, so the scene can be kept as it is
+    blend: (Blob | null)[];
+    'composite-region': Blob[];
+    cutout: Blob;
+}
+
+// Distinct marker colors so each staged product can be told apart in the marked image.
+const MARKER_COLORS = [
+    { name: 'red', value: '#dc2626' },
+    { name: 'blue', value: '#2563eb' },
+    { name: 'green', value: '#16a34a' },
+    { name: 'orange', value: '#ea580c' },
+    { name: 'purple', value: '#9333ea' },
+    { name: 'pink', value: '#db2777' },
+];
+
+export const getMarkerColor = (index: number) => MARKER_COLORS[index % MARKER_COLORS.length];
+
+interface ContentRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+// Where an image of the given size sits inside a padded square, centered and scaled to fit
+const getContentRect = (width: number, height: number, targetDimension: number): ContentRect => {
+    const aspectRatio = width / height;
+    let contentWidth, contentHeight;
+    if (aspectRatio > 1) { // Landscape
+        contentWidth = targetDimension;
+        contentHeight = targetDimension / aspectRatio;
+    } else { // Portrait or square
+        contentHeight = targetDimension;
+        contentWidth = targetDimension * aspectRatio;
+    }
+    return {
+        x: (targetDimension - contentWidth) / 2,
+        y: (targetDimension - contentHeight) / 2,
+        width: contentWidth,
+        height: contentHeight,
+    };
+};
+
+const createCanvas = (width: number, height: number) => {
+    const canvas = new OffscreenCanvas(Math.max(1, Math.round(width)), Math.max(1, Math.round(height)));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get canvas context for image processing.');
+    }
+    return { canvas, ctx };
+};
+
+const copyCanvas = (source: OffscreenCanvas) => {
+    const copy = createCanvas(source.width, source.height);
+    copy.ctx.drawImage(source, 0, 0);
+    return copy;
+};
+
+const encodeJpeg = (canvas: OffscreenCanvas) => canvas.convertToBlob({ type: 'image/jpeg', quality: 0.95 });
+
+// Fits the image inside a square and pads the rest, so the model always gets the same input size.
+// Padding is black, or transparent for product cut-outs, where black would blend into dark products.
+const padToSquare = (image: ImageBitmap, targetDimension: number, transparentPadding: boolean): OffscreenCanvas => {
+    const { canvas, ctx } = createCanvas(targetDimension, targetDimension);
+    if (!transparentPadding) {
+        ctx.fillStyle = 'black';
+        ctx.fillRect(0, 0, targetDimension, targetDimension);
+    }
+    const content = getContentRect(image.width, image.height, targetDimension);
+    ctx.drawImage(image, content.x, content.y, content.width, content.height);
+    return canvas;
+};
+
+// Draws numbered markers (and any floor footprints) at content-relative positions on a padded scene
+const drawMarkers = (padded: OffscreenCanvas, markers: MarkerPosition[], content: ContentRect): OffscreenCanvas => {
+    const { canvas, ctx } = copyCanvas(padded);
+    const toX = (percent: number) => content.x + (percent / 100) * content.width;
+    const toY = (percent: number) => content.y + (percent / 100) * content.height;
+
+    // Make radius proportional to image size, but with a minimum. Numbered markers need
+    // a little more room than a plain dot so the digit stays legible.
+    const markerRadius = Math.max(8, Math.min(canvas.width, canvas.height) * 0.02);
+
+    // Outline each footprint on the floor beneath its marker
+    markers.forEach((marker, index) => {
+        if (!marker.footprint) return;
+        ctx.beginPath();
+        marker.footprint.forEach((point, pointIndex) => {
+            if (pointIndex === 0) ctx.moveTo(toX(point.x), toY(point.y)); else ctx.lineTo(toX(point.x), toY(point.y));
+        });
+        ctx.closePath();
+        ctx.lineWidth = Math.max(2, markerRadius * 0.3);
+        ctx.strokeStyle = getMarkerColor(index).value;
+        ctx.stroke();
+    });
+
+    markers.forEach((marker, index) => {
+        const x = toX(marker.xPercent);
+        const y = toY(marker.yPercent);
+        ctx.beginPath();
+        ctx.arc(x, y, markerRadius, 0, 2 * Math.PI, false);
+        ctx.fillStyle = getMarkerColor(index).value;
+        ctx.fill();
+        ctx.lineWidth = markerRadius * 0.2;
+        ctx.strokeStyle = 'white';
+        ctx.stroke();
+
+        ctx.fillStyle = 'white';
+        ctx.font = `bold ${Math.round(markerRadius * 1.2)}px sans-serif`;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(String(index + 1), x, y);
+    });
+    return canvas;
+};
+
+// Tints the masked region of a padded scene, so the model can see which area it may change
+const drawRegionHighlight = (padded: OffscreenCanvas, mask: ImageBitmap, content: ContentRect): OffscreenCanvas => {
+    const { canvas, ctx } = copyCanvas(padded);
+    const tint = createCanvas(canvas.width, canvas.height);
+    tint.ctx.drawImage(mask, content.x, content.y, content.width, content.height);
+    tint.ctx.globalCompositeOperation = 'source-in';
+    tint.ctx.fillStyle = 'rgba(255, 0, 0, 0.5)';
+    tint.ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(tint.canvas, 0, 0);
+    return canvas;
+};
+
+// Decodes the scene once and derives every model input from that one bitmap
+const prepareScene = async (job: Extract<ImageJob, { type: 'prepare-scene' }>): Promise<PreparedScene> => {
+    const scene = await createImageBitmap(job.scene);
+    try {
+        const { width, height } = scene;
+        const content = getContentRect(width, height, job.targetDimension);
+        const padded = padToSquare(scene, job.targetDimension, false);
+        const marked = job.markers ? drawMarkers(padded, job.markers, content) : null;
+        let highlighted: OffscreenCanvas | null = null;
+        if (job.regionMask) {
+            const mask = await createImageBitmap(job.regionMask);
+            highlighted = drawRegionHighlight(padded, mask, content);
+            mask.close();
+        }
+        const [paddedBlob, markedBlob, highlightedBlob] = await Promise.all([
+            encodeJpeg(padded),
+            marked ? encodeJpeg(marked) : null,
+            highlighted ? encodeJpeg(highlighted) : null,
+        ]);
+        return { width, height, padded: paddedBlob, marked: markedBlob, highlighted: highlightedBlob };
+    } finally {
+        scene.close();
+    }
+};
+
+const padImage = async (job: Extract<ImageJob, { type: 'pad' }>): Promise<Blob> => {
+    const image = await createImageBitmap(job.image);
+    try {
+        const canvas = padToSquare(image, job.targetDimension, job.transparentPadding);
+        // Transparent padding needs PNG; everything else is sent as JPEG
+        return canvas.convertToBlob(job.transparentPadding ? { type: 'image/png' } : { type: 'image/jpeg', quality: 0.95 });
+    } finally {
+        image.close();
+    }
+};
+
+// Crops a square model output back to the scene's aspect ratio, removing the padding
+const cropToScene = async (job: Extract<ImageJob, { type: 'crop' }>): Promise<Blob> => {
+    const image = await createImageBitmap(job.image);
+    try {
+        const content = getContentRect(job.sceneWidth, job.sceneHeight, job.targetDimension);
+        const { canvas, ctx } = createCanvas(content.width, content.height);
+        ctx.drawImage(image, content.x, content.y, content.width, content.height, 0, 0, canvas.width, canvas.height);
+        return encodeJpeg(canvas);
+    } finally {
+        image.close();
+    }
+};
+
+// Whether any pixel is less than fully opaque
+const hasTransparency = (canvas: OffscreenCanvas, ctx: OffscreenCanvasRenderingContext2D): boolean => {
+    const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    for (let i = 3; i < data.length; i += 4) {
+        if (data[i] < 255) return true;
+    }
+    return false;
+};
+
+// Redraws an upload upright and no larger than the limit. Drawing drops all of the file's metadata.
+const normalizeImage = async (job: Extract<ImageJob, { type: 'normalize' }>): Promise<NormalizedImage | null> => {
+    // 'from-image' applies the EXIF orientation while decoding, so the redrawn pixels are upright
+    const image = await createImageBitmap(job.image, { imageOrientation: 'from-image' });
+    try {
+        const ratio = Math.min(1, job.maxDimension / Math.max(image.width, image.height));
+        if (ratio === 1 && !job.force) {
+            return null;
+        }
+        const { canvas, ctx } = createCanvas(image.width * ratio, image.height * ratio);
+        ctx.imageSmoothingQuality = 'high';
+        ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+        const blob = job.keepTransparency && hasTransparency(canvas, ctx)
+            ? await canvas.convertToBlob({ type: 'image/png' })
+            : await encodeJpeg(canvas);
+        return { image: blob, width: canvas.width, height: canvas.height, downsampled: ratio < 1 };
+    } finally {
+        image.close();
+    }
+};
+
+// The model works on (and returns) images of about 1024px, which would throw
+// away most of a phone photo's resolution after a single edit. Instead of
+// using its output directly, the output is diffed against the input and only
+// the region that actually changed is upscaled and blended into the original
+// full-resolution scene.
+
+// Per-channel difference (0-255) above which a pixel counts as changed
+const CHANGE_THRESHOLD = 28;
+// Grows the changed area so soft shadows and reflections around an edit are carried over too
+const DILATE_RADIUS = 12;
+// Width of the blend between generated and original pixels, in generated-image pixels
+const FEATHER_RADIUS = 6;
+// Above this the edit is global (e.g. relighting) and the whole generated image is used
+const MAX_CHANGED_FRACTION = 0.6;
+// Width of the feathered edge of a painted edit region, in scene pixels
+const REGION_FEATHER_RADIUS = 4;
+
+// Reads an image's pixels (or those of part of it) at the given size, slightly blurred to suppress compression noise
+const readPixels = (image: ImageBitmap, width: number, height: number, source?: ContentRect): Uint8ClampedArray => {
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) {
+        throw new Error('Could not get canvas context for change detection.');
+    }
+    ctx.filter = 'blur(1px)';
+    if (source) {
+        ctx.drawImage(image, source.x, source.y, source.width, source.height, 0, 0, width, height);
+    } else {
+        ctx.drawImage(image, 0, 0, width, height);
+    }
+    return ctx.getImageData(0, 0, width, height).data;
+};
+
+// One pass of a binary max filter along rows or columns, using a running count
+const dilateLine = (source: Uint8Array, width: number, height: number, radius: number, horizontal: boolean): Uint8Array => {
+    const result = new Uint8Array(source.length);
+    const lines = horizontal ? height : width;
+    const length = horizontal ? width : height;
+    const indexOf = (line: number, i: number) => horizontal ? line * width + i : i * width + line;
+
+    for (let line = 0; line < lines; line++) {
+        let count = 0;
+        for (let i = 0; i < Math.min(radius, length); i++) {
+            count += source[indexOf(line, i)];
+        }
+        for (let i = 0; i < length; i++) {
+            const enter = i + radius;
+            const leave = i - radius - 1;
+            if (enter < length) count += source[indexOf(line, enter)];
+            if (leave >= 0) count -= source[indexOf(line, leave)];
+            result[indexOf(line, i)] = count > 0 ? 1 : 0;
+        }
+    }
+    return result;
+};
+
+interface ChangedRegion {
+    // Opaque where the pixels differ
+    mask: OffscreenCanvas;
+    bounds: ContentRect | null;
+    changedFraction: number;
+}
+
+// Finds where `after` differs from `before`; both are pixels of an image of the given size
+const detectChangedRegion = (before: Uint8ClampedArray, after: Uint8ClampedArray, width: number, height: number): ChangedRegion => {
+    let changed = new Uint8Array(width * height);
+    for (let i = 0; i < changed.length; i++) {
+        const p = i * 4;
+        const diff = Math.max(
+            Math.abs(before[p] - after[p]),
+            Math.abs(before[p + 1] - after[p + 1]),
+            Math.abs(before[p + 2] - after[p + 2])
+        );
+        changed[i] = diff > CHANGE_THRESHOLD ? 1 : 0;
+    }
+    changed = dilateLine(changed, width, height, DILATE_RADIUS, true);
+    changed = dilateLine(changed, width, height, DILATE_RADIUS, false);
+
+    const { canvas: mask, ctx } = createCanvas(width, height);
+    const maskData = ctx.createImageData(width, height);
+    let minX = width, minY = height, maxX = -1, maxY = -1, count = 0;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (!changed[y * width + x]) continue;
+            count++;
+            maskData.data[(y * width + x) * 4 + 3] = 255;
+            if (x < minX) minX = x;
+            if (x > maxX) maxX = x;
+            if (y < minY) minY = y;
+            if (y > maxY) maxY = y;
+        }
+    }
+    ctx.putImageData(maskData, 0, 0);
+
+    return {
+        mask,
+        bounds: count > 0 ? { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 } : null,
+        changedFraction: count / (width * height),
+    };
+};
+
+// Compares a cropped result with the padded scene it was made from, so the full-resolution scene isn't decoded
+const detectChanges = async (job: Extract<ImageJob, { type: 'detect-changes' }>): Promise<ChangedArea> => {
+    const [image, padded] = await Promise.all([createImageBitmap(job.image), createImageBitmap(job.paddedScene)]);
+    try {
+        const { width, height } = image;
+        const content = getContentRect(job.sceneWidth, job.sceneHeight, job.targetDimension);
+        const { bounds, changedFraction } = detectChangedRegion(readPixels(padded, width, height, content), readPixels(image, width, height), width, height);
+        const toX = (pixels: number) => (pixels / width) * 100;
+        const toY = (pixels: number) => (pixels / height) * 100;
+        return {
+            bounds: bounds && { x: toX(bounds.x), y: toY(bounds.y), width: toX(bounds.width), height: toY(bounds.height) },
+            changedFraction,
+        };
+    } finally {
+        image.close();
+        padded.close();
+    }
+};
+
+// Blends the changed part of one result into the scene; `before` is the scene read at the result's size.
+// Returns null when nothing changed.
+const blendChangedRegion = async (scene: ImageBitmap, generated: ImageBitmap, before: Uint8ClampedArray): Promise<Blob | null> => {
+    const { mask, bounds, changedFraction } = detectChangedRegion(before, readPixels(generated, generated.width, generated.height), generated.width, generated.height);
+    console.log(`Detected changes in ${(changedFraction * 100).toFixed(1)}% of the image.`);
+
+    const { canvas, ctx } = createCanvas(scene.width, scene.height);
+    ctx.imageSmoothingQuality = 'high';
+
+    if (changedFraction > MAX_CHANGED_FRACTION) {
+        console.log('Edit affects most of the image; upscaling the whole result.');
+        ctx.drawImage(generated, 0, 0, canvas.width, canvas.height);
+        // No original pixels are kept, so a lossy encoding costs nothing extra
+        return encodeJpeg(canvas);
+    }
+
+    if (!bounds) {
+        return null;
+    }
+    ctx.drawImage(scene, 0, 0);
+
+    // Upscale only the changed region (plus room for the feathered edge)
+    const scaleX = canvas.width / generated.width;
+    const scaleY = canvas.height / generated.height;
+    const sx = Math.max(0, bounds.x - FEATHER_RADIUS * 2);
+    const sy = Math.max(0, bounds.y - FEATHER_RADIUS * 2);
+    const sw = Math.min(generated.width, bounds.x + bounds.width + FEATHER_RADIUS * 2) - sx;
+    const sh = Math.min(generated.height, bounds.y + bounds.height + FEATHER_RADIUS * 2) - sy;
+    const dx = Math.round(sx * scaleX);
+    const dy = Math.round(sy * scaleY);
+
+    const region = createCanvas(sw * scaleX, sh * scaleY);
+    region.ctx.imageSmoothingQuality = 'high';
+    region.ctx.drawImage(generated, sx, sy, sw, sh, 0, 0, region.canvas.width, region.canvas.height);
+    region.ctx.globalCompositeOperation = 'destination-in';
+    region.ctx.filter = `blur(${FEATHER_RADIUS * scaleX}px)`;
+    region.ctx.drawImage(mask, sx, sy, sw, sh, 0, 0, region.canvas.width, region.canvas.height);
+
+    ctx.drawImage(region.canvas, dx, dy);
+    // Lossless, so the pixels outside the changed region stay exactly as they were
+    return canvas.convertToBlob({ type: 'image/png' });
+};
+
+// Decodes the scene once and blends every result into it
+const blendResults = async (job: Extract<ImageJob, { type: 'blend' }>): Promise<(Blob | null)[]> => {
+    const scene = await createImageBitmap(job.scene);
+    try {
+        // Results are usually all the same size, so the scene is read at that size only once
+        const scenePixels = new Map<string, Uint8ClampedArray>();
+        const blended: (Blob | null)[] = [];
+        for (const image of job.images) {
+            const generated = await createImageBitmap(image);
+            try {
+                const size = `${generated.width}x${generated.height}`;
+                const before = scenePixels.get(size) ?? readPixels(scene, generated.width, generated.height);
+                scenePixels.set(size, before);
+                blended.push(await blendChangedRegion(scene, generated, before));
+            } finally {
+                generated.close();
+            }
+        }
+        return blended;
+    } finally {
+        scene.close();
+    }
+};
+
+// Takes each edited result into the scene only where the region mask is opaque, at the scene's full
+// resolution. The edge is feathered on the inside of the mask only, so pixels outside it are kept unchanged.
+const compositeRegion = async (job: Extract<ImageJob, { type: 'composite-region' }>): Promise<Blob[]> => {
+    const [scene, mask] = await Promise.all([createImageBitmap(job.scene), createImageBitmap(job.regionMask)]);
+    try {
+        const composited: Blob[] = [];
+        for (const image of job.images) {
+            const edited = await createImageBitmap(image);
+            try {
+                const { canvas, ctx } = createCanvas(scene.width, scene.height);
+                ctx.drawImage(scene, 0, 0);
+
+                const region = createCanvas(canvas.width, canvas.height);
+                region.ctx.drawImage(edited, 0, 0, canvas.width, canvas.height);
+                region.ctx.globalCompositeOperation = 'destination-in';
+                // A blurred mask also reaches past the edge, so it is applied on top of the sharp one below
+                region.ctx.filter = `blur(${REGION_FEATHER_RADIUS}px)`;
+                region.ctx.drawImage(mask, 0, 0, canvas.width, canvas.height);
+                region.ctx.filter = 'none';
+                // Clears everything outside the painted region
+                region.ctx.drawImage(mask, 0, 0, canvas.width, canvas.height);
+
+                ctx.drawImage(region.canvas, 0, 0);
+                composited.push(await canvas.convertToBlob({ type: 'image/png' }));
+            } finally {
+                edited.close();
+            }
+        }
+        return composited;
+    } finally {
+        scene.close();
+        mask.close();
+    }
+};
+
+// Builds a mask from a segmentation result: the probability map thresholded into the alpha channel, placed at its box
+const maskFromSegmentation = (image: ImageBitmap, box: ProductSegmentation['box'], probabilityMap: ImageBitmap): OffscreenCanvas => {
+    const [y0, x0, y1, x1] = box;
+    const left = Math.round((x0 / 1000) * image.width);
+    const top = Math.round((y0 / 1000) * image.height);
+    const region = createCanvas(((x1 - x0) / 1000) * image.width, ((y1 - y0) / 1000) * image.height);
+    region.ctx.drawImage(probabilityMap, 0, 0, region.canvas.width, region.canvas.height);
+    const pixels = region.ctx.getImageData(0, 0, region.canvas.width, region.canvas.height);
+    const data = pixels.data;
+    for (let i = 0; i < data.length; i += 4) {
+        const keep = data[i] > 127;
+        data[i] = data[i + 1] = data[i + 2] = 255;
+        data[i + 3] = keep ? 255 : 0;
+    }
+    region.ctx.putImageData(pixels, 0, 0);
+
+    const { canvas: mask, ctx } = createCanvas(image.width, image.height);
+    ctx.drawImage(region.canvas, left, top);
+    return mask;
+};
+
+// Fraction of the mask that is kept; used to reject empty or all-background results
+const maskCoverage = (mask: OffscreenCanvas): number => {
+    const ctx = mask.getContext('2d');
+    if (!ctx) return 0;
+    const { data } = ctx.getImageData(0, 0, mask.width, mask.height);
+    let kept = 0;
+    for (let i = 3; i < data.length; i += 4) {
+        if (data[i] > 127) kept++;
+    }
+    return kept / (mask.width * mask.height);
+};
+
+// Estimates a foreground mask without any model: the colour along the image border is treated
+// as background and flood-filled inward. Works well for studio shots on plain backdrops; busy
+// backgrounds need the model or a manual touch-up.
+const estimateForegroundMask = (image: ImageBitmap, tolerance = 40): OffscreenCanvas => {
+    // Work on a reduced copy; the mask is scaled back up with smoothing which also softens its edge
+    const WORK_DIMENSION = 384;
+    const ratio = Math.min(1, WORK_DIMENSION / Math.max(image.width, image.height));
+    const work = createCanvas(image.width * ratio, image.height * ratio);
+    const { width, height } = work.canvas;
+    work.ctx.drawImage(image, 0, 0, width, height);
+    const pixels = work.ctx.getImageData(0, 0, width, height);
+    const data = pixels.data;
+
+    // Average the border colour to use as the background reference
+    let r = 0, g = 0, b = 0, count = 0;
+    const sample = (x: number, y: number) => {
+        const i = (y * width + x) * 4;
+        r += data[i]; g += data[i + 1]; b += data[i + 2]; count++;
+    };
+    for (let x = 0; x < width; x++) { sample(x, 0); sample(x, height - 1); }
+    for (let y = 0; y < height; y++) { sample(0, y); sample(width - 1, y); }
+    r /= count; g /= count; b /= count;
+
+    const isBackgroundColor = (i: number) => {
+        const dr = data[i] - r, dg = data[i + 1] - g, db = data[i + 2] - b;
+        return Math.sqrt(dr * dr + dg * dg + db * db) <= tolerance;
+    };
+
+    // Flood fill from every border pixel that matches the background colour
+    const background = new Uint8Array(width * height);
+    const stack: number[] = [];
+    const push = (x: number, y: number) => {
+        const index = y * width + x;
+        if (!background[index] && isBackgroundColor(index * 4)) {
+            background[index] = 1;
+            stack.push(index);
+        }
+    };
+    for (let x = 0; x < width; x++) { push(x, 0); push(x, height - 1); }
+    for (let y = 0; y < height; y++) { push(0, y); push(width - 1, y); }
+    while (stack.length > 0) {
+        const index = stack.pop()!;
+        const x = index % width;
+        const y = (index - x) / width;
+        if (x > 0) push(x - 1, y);
+        if (x < width - 1) push(x + 1, y);
+        if (y > 0) push(x, y - 1);
+        if (y < height - 1) push(x, y + 1);
+    }
+
+    for (let index = 0; index < background.length; index++) {
+        const i = index * 4;
+        data[i] = data[i + 1] = data[i + 2] = 255;
+        data[i + 3] = background[index] ? 0 : 255;
+    }
+    work.ctx.putImageData(pixels, 0, 0);
+
+    const { canvas: mask, ctx } = createCanvas(image.width, image.height);
+    ctx.drawImage(work.canvas, 0, 0, mask.width, mask.height);
+    return mask;
+};
+
+// Cuts the product out using the model's segmentation, or the local estimate when that is missing or unusable
+const cutOutProduct = async (job: Extract<ImageJob, { type: 'cutout' }>): Promise<Blob> => {
+    const image = await createImageBitmap(job.image);
+    try {
+        let mask: OffscreenCanvas | null = null;
+        if (job.segmentation) {
+            try {
+                const probabilityMap = await createImageBitmap(job.segmentation.probabilityMap);
+                mask = maskFromSegmentation(image, job.segmentation.box, probabilityMap);
+                probabilityMap.close();
+            } catch (error) {
+                console.warn('Could not read the segmentation mask:', error);
+            }
+        }
+        // A mask that keeps almost nothing or almost everything is not a real cut-out
+        const coverage = mask ? maskCoverage(mask) : 0;
+        if (!mask || coverage < 0.01 || coverage > 0.99) {
+            console.log('Using local background estimate for cut-out.');
+            mask = estimateForegroundMask(image);
+        }
+
+        const { canvas, ctx } = createCanvas(image.width, image.height);
+        ctx.drawImage(image, 0, 0);
+        ctx.globalCompositeOperation = 'destination-in';
+        ctx.drawImage(mask, 0, 0);
+        return canvas.convertToBlob({ type: 'image/png' });
+    } finally {
+        image.close();
+    }
+};
+
+/**
+ * Runs one image job in the current thread.
+ */
+export const runImageJob = <T extends ImageJob>(job: T): Promise<ImageJobResults[T['type']]> => {
+    switch (job.type) {
+        case 'prepare-scene':
+            return prepareScene(job) as Promise<ImageJobResults[T['type']]>;
+        case 'pad':
+            return padImage(job) as Promise<ImageJobResults[T['type']]>;
+        case 'crop':
+            return cropToScene(job) as Promise<ImageJobResults[T['type']]>;
+        case 'normalize':
+            return normalizeImage(job) as Promise<ImageJobResults[T['type']]>;
+        case 'detect-changes':
+            return detectChanges(job) as Promise<ImageJobResults[T['type']]>;
+        case 'blend':
+            return blendResults(job) as Promise<ImageJobResults[T['type']]>;
+        case 'composite-region':
+            return compositeRegion(job) as Promise<ImageJobResults[T['type']]>;
+        case 'cutout':
+            return cutOutProduct(job) as Promise<ImageJobResults[T['type']]>;
+    }
+    throw new Error('Unknown image job.');
+};
@@ -0,0 +1,208 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { InlineImage } from './providers';
+import {
+    ChangedArea,
+    ImageJob,
+    ImageJobResults,
+    MarkerPosition,
+    NormalizedImage,
+    PreparedScene,
+    ProductSegmentation,
+    runImageJob,
+} from './imageOps';
+import type { ImageWorkerResponse } from './imageWorker';
+
+// Runs the image work around model calls (imageOps.ts) in a Web Worker, so
+// decoding and re-encoding large photos doesn't freeze the UI. Images move
+// between the threads as Blobs; base64 is only produced for the model request
+// itself. Without worker support the jobs run on the main thread instead.
+
+interface PendingJob {
+    job: ImageJob;
+    resolve: (result: unknown) => void;
+    reject: (error: Error) => void;
+}
+
+// undefined until first use; null when no worker could be started
+let worker: Worker | null | undefined;
+let nextJobId = 1;
+const pendingJobs = new Map<number, PendingJob>();
+
+const startWorker = (): Worker | null => {
+    if (typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined') {
+        return null;
+    }
+    try {
+        const started = new Worker(new URL('./imageWorker.ts', import.meta.url), { type: 'module' });
+        started.onmessage = ({ data }: MessageEvent<ImageWorkerResponse>) => {
+            const pending = pendingJobs.get(data.id);
+            if (!pending) return;
+            pendingJobs.delete(data.id);
+            if ('error' in data) {
+                pending.reject(new Error(data.error));
+            } else {
+                pending.resolve(data.result);
+            }
+        };
+        // A worker that fails to load (e.g. blocked by a content security policy) is
+        // dropped, and the jobs it was given are finished on the main thread
+        started.onerror = (event) => {
+            console.warn('Image worker failed; processing images on the main thread.', event.message);
+            started.terminate();
+            worker = null;
+            pendingJobs.forEach(({ job, resolve, reject }) => runImageJob(job).then(resolve, reject));
+            pendingJobs.clear();
+        };
+        return started;
+    } catch (error) {
+        console.warn('Could not start the image worker; processing images on the main thread.', error);
+        return null;
+    }
+};
+
+const runJob = <T extends ImageJob>(job: T): Promise<ImageJobResults[T['type']]> => {
+    if (worker === undefined) {
+        worker = startWorker();
+    }
+    const active = worker;
+    if (!active) {
+        return runImageJob(job);
+    }
+    return new Promise((resolve, reject) => {
+        const id = nextJobId++;
+        pendingJobs.set(id, { job, resolve: resolve as (result: unknown) => void, reject });
+        active.postMessage({ id, job });
+    });
+};
+
+/**
+ * Decodes the scene once and prepares everything the model is sent from it.
+ * @param scene The full-resolution scene.
+ * @param targetDimension Side of the padded square.
+ * @param options Markers to draw for a placement, or a region mask (opaque = editable) to highlight for an edit.
+ */
+export const prepareSceneImages = (
+    scene: Blob,
+    targetDimension: number,
+    options: { markers?: MarkerPosition[] | null; regionMask?: Blob | null } = {}
+): Promise<PreparedScene> => runJob({
+    type: 'prepare-scene',
+    scene,
+    targetDimension,
+    markers: options.markers ?? null,
+    regionMask: options.regionMask ?? null,
+});
+
+/**
+ * Pads an image to a square. Transparent padding (kept as PNG) is for product cut-outs.
+ */
+export const padImageToSquare = (image: Blob, targetDimension: number, options: { transparentPadding?: boolean } = {}): Promise<Blob> =>
+    runJob({ type: 'pad', image, targetDimension, transparentPadding: options.transparentPadding ?? false });
+
+/**
+ * Crops a padded square model output back to the scene's aspect ratio.
+ */
+export const cropImageToScene = (image: Blob, scene: { width: number; height: number }, targetDimension: number): Promise<Blob> =>
+    runJob({ type: 'crop', image, sceneWidth: scene.width, sceneHeight: scene.height, targetDimension });
+
+/**
+ * Redraws an image upright (applying its EXIF orientation) and scaled down to fit the limit.
+ * @param options `force` redraws even an image within the limit, e.g. to convert it or drop its metadata;
+ * `keepTransparency` keeps transparent images as PNG instead of JPEG.
+ * @returns The redrawn image, or null when the image was within the limit and nothing was forced.
+ */
+export const normalizeImage = (
+    image: Blob,
+    maxDimension: number,
+    options: { force?: boolean; keepTransparency?: boolean } = {}
+): Promise<NormalizedImage | null> => runJob({
+    type: 'normalize',
+    image,
+    maxDimension,
+    force: options.force ?? false,
+    keepTransparency: options.keepTransparency ?? false,
+});
+
+/**
+ * Scales an image down to fit the limit as a JPEG, keeping its aspect ratio, e.g. for requests
+ * whose answers are coordinates relative to the image sent.
+ */
+export const scaleImageToFit = async (image: Blob, maxDimension: number): Promise<Blob> => {
+    // A forced redraw always returns an image
+    const normalized = await normalizeImage(image, maxDimension, { force: true });
+    return normalized!.image;
+};
+
+/**
+ * Finds where a cropped model result differs from the scene it was made from. It is compared with
+ * the padded scene that was sent to the model, so the full-resolution scene isn't decoded again.
+ * @param image A model result, cropped to the scene's aspect ratio.
+ * @param scene The prepared scene the request was made from.
+ * @param targetDimension Side of the padded square.
+ */
+export const detectSceneChanges = (image: Blob, scene: PreparedScene, targetDimension: number): Promise<ChangedArea> => runJob({
+    type: 'detect-changes',
+    image,
+    paddedScene: scene.padded,
+    sceneWidth: scene.width,
+    sceneHeight: scene.height,
+    targetDimension,
+});
+
+/**
+ * Blends the changed part of each model result into the full-resolution scene, decoding the scene once for all of them.
+ * @param scene The scene that was sent to the model.
+ * @param images The model's results, cropped to the scene's aspect ratio.
+ * @returns One image per result at the scene's resolution: the scene itself when nothing changed,
+ * a JPEG when the whole image was regenerated, and otherwise a PNG so the kept pixels don't lose quality.
+ */
+export const blendIntoScene = async (scene: Blob, images: Blob[]): Promise<Blob[]> => {
+    if (images.length === 0) return [];
+    const blended = await runJob({ type: 'blend', scene, images });
+    return blended.map(image => image ?? scene);
+};
+
+/**
+ * Takes each edited result into the full-resolution scene inside the painted region only, as PNGs.
+ * @param regionMask The region mask at the scene's size (opaque = editable).
+ */
+export const compositeRegionIntoScene = async (scene: Blob, images: Blob[], regionMask: Blob): Promise<Blob[]> =>
+    images.length === 0 ? [] : runJob({ type: 'composite-region', scene, images, regionMask });
+
+/**
+ * Cuts a product out of its photo, using the model's segmentation when it is usable and a local
+ * background estimate otherwise.
+ * @returns A PNG of the product on a transparent background, at the photo's size.
+ */
+export const cutOutProduct = (image: Blob, segmentation: ProductSegmentation | null): Promise<Blob> =>
+    runJob({ type: 'cutout', image, segmentation });
+
+/**
+ * Encodes a Blob as the base64 payload model providers take.
+ */
+export const blobToInlineImage = async (blob: Blob): Promise<InlineImage> => {
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    // Spreading the whole array at once would overflow the call stack on large images
+    const CHUNK_SIZE = 0x8000;
+    let binary = '';
+    for (let offset = 0; offset < bytes.length; offset += CHUNK_SIZE) {
+        binary += String.fromCharCode(...bytes.subarray(offset, offset + CHUNK_SIZE));
+    }
+    return { mimeType: blob.type || 'image/jpeg', data: btoa(binary) };
+};
+
+/**
+ * Decodes a model's base64 image into a Blob.
+ */
+export const inlineImageToBlob = ({ mimeType, data }: InlineImage): Blob => {
+    const binary = atob(data);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return new Blob([bytes], { type: mimeType });
+};
@@ -0,0 +1,31 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ImageJob, runImageJob } from './imageOps';
+
+// Entry point of the image worker. Each message carries one job and its id;
+// the reply carries the same id with the result or an error message.
+
+export type ImageWorkerRequest = { id: number; job: ImageJob };
+
+export type ImageWorkerResponse =
+    | { id: number; result: unknown }
+    | { id: number; error: string };
+
+// The project's TypeScript config uses the DOM library, so describe the worker scope directly
+interface WorkerScope {
+    onmessage: ((event: MessageEvent<ImageWorkerRequest>) => void) | null;
+    postMessage(message: ImageWorkerResponse): void;
+}
+
+const scope = self as unknown as WorkerScope;
+
+scope.onmessage = async ({ data: { id, job } }) => {
+    try {
+        scope.postMessage({ id, result: await runImageJob(job) });
+    } catch (error) {
+        scope.postMessage({ id, error: error instanceof Error ? error.message : 'Image processing failed.' });
+    }
+};
@@ -0,0 +1,121 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Canvas helpers for product cut-outs and regional scene edits. A mask is a
+// canvas (or PNG) the size of its image whose alpha channel marks the pixels
+// to keep or edit (opaque) and the rest (transparent).
+
+// Helper to load a Blob into an HTMLImageElement
+export const loadImageFromBlob = (blob: Blob): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+        const url = URL.createObjectURL(blob);
+        const img = new Image();
+        img.onload = () => {
+            URL.revokeObjectURL(url);
+            resolve(img);
+        };
+        img.onerror = (err) => {
+            URL.revokeObjectURL(url);
+            reject(new Error(`Image load error: ${err}`));
+        };
+        img.src = url;
+    });
+};
+
+export const createMaskCanvas = (width: number, height: number): HTMLCanvasElement => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return canvas;
+};
+
+const get2dContext = (canvas: HTMLCanvasElement): CanvasRenderingContext2D => {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get canvas context for masking.');
+    }
+    return ctx;
+};
+
+export const canvasToFile = (canvas: HTMLCanvasElement, fileName: string, type = 'image/png', quality?: number): Promise<File> => {
+    return new Promise((resolve, reject) => {
+        canvas.toBlob((blob) => {
+            if (blob) {
+                resolve(new File([blob], fileName, { type, lastModified: Date.now() }));
+            } else {
+                reject(new Error('Canvas to Blob conversion failed.'));
+            }
+        }, type, quality);
+    });
+};
+
+// Recovers the editable mask from an existing cut-out's alpha channel.
+export const maskFromCutout = (cutout: HTMLImageElement): HTMLCanvasElement => {
+    const mask = createMaskCanvas(cutout.naturalWidth, cutout.naturalHeight);
+    const ctx = get2dContext(mask);
+    ctx.drawImage(cutout, 0, 0);
+    ctx.globalCompositeOperation = 'source-in';
+    ctx.fillStyle = 'white';
+    ctx.fillRect(0, 0, mask.width, mask.height);
+    ctx.globalCompositeOperation = 'source-over';
+    return mask;
+};
+
+// Draws the image with everything outside the mask made transparent.
+export const renderCutout = (image: HTMLImageElement, mask: HTMLCanvasElement, target: HTMLCanvasElement) => {
+    const ctx = get2dContext(target);
+    ctx.clearRect(0, 0, target.width, target.height);
+    ctx.drawImage(image, 0, 0, target.width, target.height);
+    ctx.globalCompositeOperation = 'destination-in';
+    ctx.drawImage(mask, 0, 0, target.width, target.height);
+    ctx.globalCompositeOperation = 'source-over';
+};
+
+export const createCutoutFile = async (image: HTMLImageElement, mask: HTMLCanvasElement, fileName: string): Promise<File> => {
+    const canvas = createMaskCanvas(image.naturalWidth, image.naturalHeight);
+    renderCutout(image, mask, canvas);
+    return canvasToFile(canvas, fileName.replace(/\.[^.]+$/, '') + '-cutout.png');
+};
+
+// Fraction of the mask that is kept; used to reject empty or all-background results.
+export const maskCoverage = (mask: HTMLCanvasElement): number => {
+    const ctx = get2dContext(mask);
+    const { data } = ctx.getImageData(0, 0, mask.width, mask.height);
+    let kept = 0;
+    for (let i = 3; i < data.length; i += 4) {
+        if (data[i] > 127) kept++;
+    }
+    return kept / (mask.width * mask.height);
+};
+
+// Helper to load an image from a data URL
+export const loadImageFromUrl = (src: string): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = (err) => reject(new Error(`Image load error: ${err}`));
+        img.src = src;
+    });
+};
+
+// Fraction of the image's width covered by opaque pixels, so a padded cut-out can be sized by the product itself.
+export const opaqueWidthFraction = (image: HTMLImageElement): number => {
+    const WORK_DIMENSION = 256;
+    const ratio = Math.min(1, WORK_DIMENSION / Math.max(image.naturalWidth, image.naturalHeight));
+    const canvas = createMaskCanvas(Math.max(1, Math.round(image.naturalWidth * ratio)), Math.max(1, Math.round(image.naturalHeight * ratio)));
+    const ctx = get2dContext(canvas);
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    let left = canvas.width;
+    let right = -1;
+    for (let i = 3; i < data.length; i += 4) {
+        if (data[i] > 127) {
+            const x = ((i - 3) / 4) % canvas.width;
+            left = Math.min(left, x);
+            right = Math.max(right, x);
+        }
+    }
+    return right < left ? 1 : (right - left + 1) / canvas.width;
+};
@@ -0,0 +1,38 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { ModelError, toModelError } from './modelErrors';
+
+const withStatus = (message: string, status: number) => Object.assign(new Error(message), { status });
+
+describe('toModelError', () => {
+    it('classifies by HTTP status first', () => {
+        expect(toModelError(withStatus('Too many', 429)).kind).toBe('quota');
+        expect(toModelError(withStatus('Bad', 400)).kind).toBe('invalid-input');
+        expect(toModelError(withStatus('Down', 503))).toMatchObject({ kind: 'network', status: 503 });
+    });
+
+    it('falls back to the message', () => {
+        expect(toModelError(new Error('RESOURCE_EXHAUSTED: quota exceeded')).kind).toBe('quota');
+        expect(toModelError(new Error('Response was blocked due to SAFETY')).kind).toBe('safety');
+        expect(toModelError(new Error('DEADLINE_EXCEEDED')).kind).toBe('network');
+        expect(toModelError('something odd').kind).toBe('unknown');
+    });
+
+    it('treats only fetch failures among TypeErrors as network errors', () => {
+        expect(toModelError(new TypeError('Failed to fetch')).kind).toBe('network');
+        expect(toModelError(new TypeError('fetch failed')).kind).toBe('network');
+        expect(toModelError(new TypeError("Cannot read properties of undefined (reading 'parts')")).kind).toBe('unknown');
+    });
+
+    it('keeps existing model errors and marks only quota and network errors as retryable', () => {
+        const error = new ModelError('safety', 'Blocked');
+        expect(toModelError(error)).toBe(error);
+        expect(error.retryable).toBe(false);
+        expect(new ModelError('quota', 'Slow down').retryable).toBe(true);
+        expect(new ModelError('network', 'Offline').retryable).toBe(true);
+    });
+});
@@ -0,0 +1,95 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Typed failures for model calls, so callers can decide whether to retry
+// and the UI can explain what went wrong instead of showing a raw message.
+
+export type ModelErrorKind = 'quota' | 'safety' | 'no-image' | 'invalid-input' | 'network' | 'unknown';
+
+// Transient failures that are worth retrying automatically
+const RETRYABLE_KINDS: ModelErrorKind[] = ['quota', 'network'];
+
+export class ModelError extends Error {
+    readonly kind: ModelErrorKind;
+    readonly status: number | null;
+
+    constructor(kind: ModelErrorKind, message: string, options: { status?: number | null; cause?: unknown } = {}) {
+        super(message, { cause: options.cause });
+        this.name = 'ModelError';
+        this.kind = kind;
+        this.status = options.status ?? null;
+    }
+
+    get retryable(): boolean {
+        return RETRYABLE_KINDS.includes(this.kind);
+    }
+}
+
+export const MODEL_ERROR_DETAILS: Record<ModelErrorKind, { title: string; hint: string }> = {
+    quota: {
+        title: 'Usage limit reached',
+        hint: 'The model is rate limited or out of quota. Wait a minute and try again.',
+    },
+    safety: {
+        title: 'Blocked by safety filters',
+        hint: 'The request or the images were flagged. Try rephrasing or using different images.',
+    },
+    'no-image': {
+        title: 'No image returned',
+        hint: 'The model answered without an image. Trying again usually helps.',
+    },
+    'invalid-input': {
+        title: 'Request not accepted',
+        hint: 'The model rejected the input. Check the image format and size, or simplify the request.',
+    },
+    network: {
+        title: 'Connection problem',
+        hint: 'The model service could not be reached. Check your connection and try again.',
+    },
+    unknown: {
+        title: 'Something went wrong',
+        hint: 'Your scene and history are unchanged. You can try again.',
+    },
+};
+
+const classifyStatus = (status: number): ModelErrorKind => {
+    if (status === 429) return 'quota';
+    if (status === 400 || status === 413 || status === 422) return 'invalid-input';
+    if (status === 408 || status >= 500) return 'network';
+    return 'unknown';
+};
+
+// How fetch reports a failed request as a TypeError in Chrome, Firefox, Safari and Node respectively
+const FETCH_FAILURE_PATTERN = /failed to fetch|NetworkError when attempting to fetch|load failed|fetch failed/i;
+
+const classifyMessage = (message: string): ModelErrorKind => {
+    if (/RESOURCE_EXHAUSTED|quota|rate.?limit/i.test(message)) return 'quota';
+    if (/SAFETY|PROHIBITED_CONTENT|BLOCKLIST|blocked/i.test(message)) return 'safety';
+    if (/INVALID_ARGUMENT|unsupported|invalid (image|input|argument)/i.test(message)) return 'invalid-input';
+    if (/UNAVAILABLE|DEADLINE_EXCEEDED|failed to fetch|network|load failed|timed? ?out/i.test(message)) return 'network';
+    return 'unknown';
+};
+
+/**
+ * Converts anything thrown by a provider into a `ModelError`. Errors from the
+ * Gemini SDK carry an HTTP `status`; fetch failures surface as a TypeError.
+ * Other TypeErrors are bugs rather than network trouble, so they stay 'unknown'
+ * and are not retried.
+ */
+export const toModelError = (error: unknown): ModelError => {
+    if (error instanceof ModelError) return error;
+    const message = error instanceof Error ? error.message : 'An unknown error occurred.';
+    const status = typeof (error as { status?: unknown })?.status === 'number' ? (error as { status: number }).status : null;
+
+    let kind = status !== null ? classifyStatus(status) : 'unknown';
+    if (kind === 'unknown') {
+        if (error instanceof TypeError) {
+            kind = FETCH_FAILURE_PATTERN.test(message) ? 'network' : 'unknown';
+        } else {
+            kind = classifyMessage(message);
+        }
+    }
+    return new ModelError(kind, message, { status, cause: error });
+};
@@ -0,0 +1,103 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Typed progress reporting for the generation pipelines. The services emit
+// events as they move between stages; the UI folds them into a
+// `PipelineProgress` snapshot with `applyProgressEvent`.
+
+export type PipelineStage =
+    | 'resizing'
+    | 'marking'
+    | 'describing'
+    | 'composing'
+    | 'editing'
+    | 'cropping'
+    | 'verifying'
+    | 'blending';
+
+export type PipelineProgressEvent =
+    | { type: 'stage-start'; stage: PipelineStage; at: number }
+    | { type: 'stage-end'; stage: PipelineStage; at: number; durationMs: number }
+    | { type: 'location-description'; descriptions: string[] }
+    | { type: 'variant-received'; received: number; total: number }
+    // A stage's model results were found in the response cache instead of being requested
+    | { type: 'cache-hit'; stage: PipelineStage };
+
+export type ProgressListener = (event: PipelineProgressEvent) => void;
+
+export const STAGE_LABELS: Record<PipelineStage, string> = {
+    resizing: 'Preparing images',
+    marking: 'Marking placement locations',
+    describing: 'Describing placement locations',
+    composing: 'Composing the scene',
+    editing: 'Editing the scene',
+    cropping: 'Cropping to the scene’s aspect ratio',
+    verifying: 'Checking product placement',
+    blending: 'Blending into the full-resolution scene',
+};
+
+/**
+ * Wraps a listener so a pipeline can simply announce each new stage; the
+ * previous stage is closed with its duration automatically.
+ */
+export const createProgressTracker = (onProgress?: ProgressListener) => {
+    let current: { stage: PipelineStage; startedAt: number } | null = null;
+
+    const endCurrent = () => {
+        if (!current) return;
+        const at = Date.now();
+        onProgress?.({ type: 'stage-end', stage: current.stage, at, durationMs: at - current.startedAt });
+        current = null;
+    };
+
+    return {
+        stage: (stage: PipelineStage) => {
+            endCurrent();
+            current = { stage, startedAt: Date.now() };
+            onProgress?.({ type: 'stage-start', stage, at: current.startedAt });
+        },
+        emit: (event: PipelineProgressEvent) => onProgress?.(event),
+        finish: endCurrent,
+    };
+};
+
+export interface PipelineProgress {
+    startedAt: number;
+    stage: PipelineStage | null;
+    stageStartedAt: number | null;
+    completedStages: { stage: PipelineStage; durationMs: number }[];
+    locationDescriptions: string[];
+    variants: { received: number; total: number } | null;
+    cachedStages: PipelineStage[];
+}
+
+export const createPipelineProgress = (): PipelineProgress => ({
+    startedAt: Date.now(),
+    stage: null,
+    stageStartedAt: null,
+    completedStages: [],
+    locationDescriptions: [],
+    variants: null,
+    cachedStages: [],
+});
+
+export const applyProgressEvent = (progress: PipelineProgress, event: PipelineProgressEvent): PipelineProgress => {
+    switch (event.type) {
+        case 'stage-start':
+            return { ...progress, stage: event.stage, stageStartedAt: event.at };
+        case 'stage-end':
+            return {
+                ...progress,
+                stage: progress.stage === event.stage ? null : progress.stage,
+                completedStages: [...progress.completedStages, { stage: event.stage, durationMs: event.durationMs }],
+            };
+        case 'location-description':
+            return { ...progress, locationDescriptions: event.descriptions };
+        case 'variant-received':
+            return { ...progress, variants: { received: event.received, total: event.total } };
+        case 'cache-hit':
+            return { ...progress, cachedStages: [...progress.cachedStages, event.stage] };
+    }
+};
@@ -0,0 +1,222 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createMaskCanvas, loadImageFromBlob } from './maskUtils';
+
+// Checks where each product actually landed in a generated composite. The
+// products are located in the output (by the model, or from the changed
+// region for a single product), then compared with the requested point and
+// on-screen size. All coordinates are in percent of the image.
+
+export interface PlacementTarget {
+    description: string;
+    xPercent: number;
+    yPercent: number;
+    // Expected on-image width in percent of the image width, when known
+    expectedWidthPercent?: number | null;
+}
+
+export interface FoundBox {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface ProductCheck {
+    description: string;
+    requested: { x: number; y: number };
+    found: FoundBox | null;
+    // Distance between the requested point and the product's centre, in percent of the image width
+    offsetPercent: number | null;
+    // Found width divided by the expected width
+    sizeRatio: number | null;
+    withinTolerance: boolean;
+}
+
+export interface PlacementReport {
+    checks: ProductCheck[];
+    passed: boolean;
+    // How the products were located
+    method: 'model' | 'changed-region';
+    // Number of compositions generated for this variant, including the first
+    attempts: number;
+    // The checked image with requested points and found boxes drawn on it
+    annotatedImageUrl: string;
+}
+
+export const PLACEMENT_TOLERANCE = {
+    maxOffsetPercent: 8,
+    minSizeRatio: 0.67,
+    maxSizeRatio: 1.5,
+};
+
+/**
+ * Reads `[{"product": 1, "box_2d": [y0, x0, y1, x1]}, ...]` (0-1000
+ * normalized) into one box per product, null for products not found.
+ */
+export const parseProductBoxes = (text: string, productCount: number): (FoundBox | null)[] | null => {
+    try {
+        const cleaned = text.replace(/^```(?:json)?\s*|\s*```$/g, '').trim();
+        const items = JSON.parse(cleaned || '[]') as { product?: number; box_2d?: number[] }[];
+        if (!Array.isArray(items)) return null;
+        const boxes: (FoundBox | null)[] = new Array(productCount).fill(null);
+        items.forEach((item, position) => {
+            const index = typeof item.product === 'number' ? item.product - 1 : position;
+            const box = item.box_2d;
+            if (index < 0 || index >= productCount || !Array.isArray(box) || box.length !== 4) return;
+            const [y0, x0, y1, x1] = box;
+            boxes[index] = { x: x0 / 10, y: y0 / 10, width: (x1 - x0) / 10, height: (y1 - y0) / 10 };
+        });
+        return boxes;
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Compares found boxes with the requested placements.
+ * @param aspectRatio The image's width divided by its height, so vertical offsets are measured like horizontal ones.
+ */
+export const measurePlacement = (
+    targets: PlacementTarget[],
+    boxes: (FoundBox | null)[],
+    aspectRatio: number
+): ProductCheck[] => {
+    return targets.map((target, index) => {
+        const found = boxes[index] ?? null;
+        if (!found) {
+            return { description: target.description, requested: { x: target.xPercent, y: target.yPercent }, found, offsetPercent: null, sizeRatio: null, withinTolerance: false };
+        }
+        const centerX = found.x + found.width / 2;
+        const centerY = found.y + found.height / 2;
+        const offsetPercent = Math.hypot(centerX - target.xPercent, (centerY - target.yPercent) / aspectRatio);
+        const sizeRatio = target.expectedWidthPercent ? found.width / target.expectedWidthPercent : null;
+        const withinTolerance = offsetPercent <= PLACEMENT_TOLERANCE.maxOffsetPercent
+            && (sizeRatio === null || (sizeRatio >= PLACEMENT_TOLERANCE.minSizeRatio && sizeRatio <= PLACEMENT_TOLERANCE.maxSizeRatio));
+        return { description: target.description, requested: { x: target.xPercent, y: target.yPercent }, found, offsetPercent, sizeRatio, withinTolerance };
+    });
+};
+
+// How far the worst product is outside the tolerance; 1 is exactly at the limit. Used to keep the better of two attempts.
+export const getPlacementError = (report: PlacementReport): number => {
+    return Math.max(...report.checks.map(check => {
+        if (!check.found || check.offsetPercent === null) return Infinity;
+        const offsetError = check.offsetPercent / PLACEMENT_TOLERANCE.maxOffsetPercent;
+        const sizeError = check.sizeRatio ? Math.abs(Math.log(check.sizeRatio)) / Math.log(PLACEMENT_TOLERANCE.maxSizeRatio) : 0;
+        return Math.max(offsetError, sizeError);
+    }));
+};
+
+// Feedback for a retry, describing how each drifting product missed its target.
+export const buildCorrectionNote = (report: PlacementReport): string => {
+    const lines = report.checks.flatMap((check, index) => {
+        if (check.withinTolerance) return [];
+        if (!check.found) {
+            return [`- Product ${index + 1} was missing from the result. It MUST be clearly visible at its location.`];
+        }
+        const notes: string[] = [];
+        const dx = check.found.x + check.found.width / 2 - check.requested.x;
+        const dy = check.found.y + check.found.height / 2 - check.requested.y;
+        if (check.offsetPercent !== null && check.offsetPercent > PLACEMENT_TOLERANCE.maxOffsetPercent) {
+            const horizontal = Math.abs(dx) >= 1 ? `${Math.round(Math.abs(dx))}% too far ${dx > 0 ? 'right' : 'left'}` : null;
+            const vertical = Math.abs(dy) >= 1 ? `${Math.round(Math.abs(dy))}% too far ${dy > 0 ? 'down' : 'up'}` : null;
+            notes.push(`was placed ${[horizontal, vertical].filter(Boolean).join(' and ')}`);
+        }
+        if (check.sizeRatio !== null && (check.sizeRatio < PLACEMENT_TOLERANCE.minSizeRatio || check.sizeRatio > PLACEMENT_TOLERANCE.maxSizeRatio)) {
+            notes.push(`came out ${check.sizeRatio > 1 ? 'about ' + Math.round((check.sizeRatio - 1) * 100) + '% too large' : 'about ' + Math.round((1 - check.sizeRatio) * 100) + '% too small'}`);
+        }
+        return [`- Product ${index + 1} ${notes.join(', and ')}.`];
+    });
+    return `**CORRECTION FROM A PREVIOUS ATTEMPT:**\nA previous attempt did not follow the placement. Fix the following while keeping everything else:\n${lines.join('\n')}`;
+};
+
+/**
+ * Draws the requested points (crosses) and found boxes on the checked image:
+ * green within tolerance, red otherwise.
+ */
+export const renderVerificationImage = async (checkedImage: Blob, checks: ProductCheck[]): Promise<string> => {
+    const image = await loadImageFromBlob(checkedImage);
+    // Keep the annotated copy small; it is stored with the project's debug data
+    const ratio = Math.min(1, 768 / Math.max(image.naturalWidth, image.naturalHeight));
+    const canvas = createMaskCanvas(Math.round(image.naturalWidth * ratio), Math.round(image.naturalHeight * ratio));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get canvas context for verification.');
+    }
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    const toX = (percent: number) => (percent / 100) * canvas.width;
+    const toY = (percent: number) => (percent / 100) * canvas.height;
+    const lineWidth = Math.max(2, canvas.width / 300);
+    const crossSize = Math.max(8, canvas.width / 60);
+
+    checks.forEach((check, index) => {
+        const color = check.withinTolerance ? '#16a34a' : '#dc2626';
+        ctx.strokeStyle = color;
+        ctx.fillStyle = color;
+        ctx.lineWidth = lineWidth;
+        const x = toX(check.requested.x);
+        const y = toY(check.requested.y);
+        ctx.beginPath();
+        ctx.moveTo(x - crossSize, y);
+        ctx.lineTo(x + crossSize, y);
+        ctx.moveTo(x, y - crossSize);
+        ctx.lineTo(x, y + crossSize);
+        ctx.stroke();
+        if (check.found) {
+            const { x: left, y: top, width, height } = check.found;
+            ctx.strokeRect(toX(left), toY(top), toX(width), toY(height));
+            // Line from the requested point to the found centre shows the drift
+            ctx.setLineDash([lineWidth * 2, lineWidth * 2]);
+            ctx.beginPath();
+            ctx.moveTo(x, y);
+            ctx.lineTo(toX(left + width / 2), toY(top + height / 2));
+            ctx.stroke();
+            ctx.setLineDash([]);
+        }
+        ctx.font = `bold ${Math.round(crossSize * 1.4)}px sans-serif`;
+        ctx.fillText(String(index + 1), x + crossSize, y - crossSize);
+    });
+    return canvas.toDataURL('image/jpeg', 0.85);
+};
+
+// Placement check settings are per browser, like the prompt settings.
+const PLACEMENT_CHECK_SETTINGS_KEY = 'home-canvas:placement-check-settings';
+
+export const MAX_PLACEMENT_RETRIES = 3;
+
+export interface PlacementCheckSettings {
+    // Locate the products in each result; costs one text-model call per variant and attempt
+    verifyPlacement: boolean;
+    // How many times a variant is regenerated when its products drift out of tolerance
+    maxPlacementRetries: number;
+}
+
+const DEFAULT_PLACEMENT_CHECK_SETTINGS: PlacementCheckSettings = { verifyPlacement: true, maxPlacementRetries: 1 };
+
+export const loadPlacementCheckSettings = (): PlacementCheckSettings => {
+    try {
+        const stored = localStorage.getItem(PLACEMENT_CHECK_SETTINGS_KEY);
+        const parsed = stored ? JSON.parse(stored) as Partial<PlacementCheckSettings> : {};
+        const retries = parsed.maxPlacementRetries;
+        return {
+            verifyPlacement: typeof parsed.verifyPlacement === 'boolean' ? parsed.verifyPlacement : DEFAULT_PLACEMENT_CHECK_SETTINGS.verifyPlacement,
+            maxPlacementRetries: typeof retries === 'number' && Number.isInteger(retries) && retries >= 0 && retries <= MAX_PLACEMENT_RETRIES
+                ? retries
+                : DEFAULT_PLACEMENT_CHECK_SETTINGS.maxPlacementRetries,
+        };
+    } catch {
+        return DEFAULT_PLACEMENT_CHECK_SETTINGS;
+    }
+};
+
+export const savePlacementCheckSettings = (settings: PlacementCheckSettings) => {
+    try {
+        localStorage.setItem(PLACEMENT_CHECK_SETTINGS_KEY, JSON.stringify(settings));
+    } catch (err) {
+        // Storage can be unavailable (e.g. private mode); the settings then last for the session only.
+        console.error('Could not save placement check settings:', err);
+    }
+};
@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Product } from '../components/types';
+import { getStore, PRODUCTS_STORE, requestToPromise } from './db';
+import { StoredProduct } from './projectStore';
+
+// The product library is shared by all projects so a catalog is always at hand.
+
+const getProductsStore = (mode: IDBTransactionMode) => getStore(PRODUCTS_STORE, mode);
+
+/**
+ * Lists every product in the library, oldest first.
+ */
+export const listLibraryProducts = async (): Promise<StoredProduct[]> => {
+    const store = await getProductsStore('readonly');
+    const records = await requestToPromise(store.getAll() as IDBRequest<StoredProduct[]>);
+    return records
+        .map(record => ({ ...record, tags: record.tags ?? [] }))
+        .sort((a, b) => a.id - b.id);
+};
+
+export const saveLibraryProduct = async (product: StoredProduct): Promise<void> => {
+    const store = await getProductsStore('readwrite');
+    await requestToPromise(store.put(product));
+};
+
+export const deleteLibraryProduct = async (id: number): Promise<void> => {
+    const store = await getProductsStore('readwrite');
+    await requestToPromise(store.delete(id));
+};
+
+// Normalizes free-form tag input ("Sofa, living room") into a de-duplicated list.
+export const parseTags = (input: string): string[] => {
+    const tags = input
+        .split(',')
+        .map(tag => tag.trim().toLowerCase())
+        .filter(Boolean);
+    return Array.from(new Set(tags));
+};
+
+// Turns a stored record into an in-memory product with object URLs for display.
+export const toLibraryProduct = (stored: StoredProduct): Product => ({
+    id: stored.id,
+    name: stored.name,
+    tags: stored.tags ?? [],
+    file: stored.file,
+    imageUrl: URL.createObjectURL(stored.file),
+    cutoutFile: stored.cutout ?? null,
+    cutoutUrl: stored.cutout ? URL.createObjectURL(stored.cutout) : null,
+    dimensions: stored.dimensions ?? null,
+});
+
+export const toStoredProduct = ({ id, name, tags, file, cutoutFile, dimensions }: Product): StoredProduct => ({
+    id,
+    name,
+    tags,
+    file,
+    cutout: cutoutFile,
+    dimensions,
+});
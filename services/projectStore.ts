@@ -0,0 +1,127 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ProductDimensions, SceneVersion } from '../components/types';
+import { getStore, PROJECTS_STORE, requestToPromise } from './db';
+import { PlacementReport } from './placementVerification';
+import { PromptTemplateOverrides } from './promptTemplates';
+import { UsageRecord } from './usage';
+
+// Persists named projects (scene history, chat transcript, staged placements and
+// products) to IndexedDB so work survives a page refresh.
+
+const LAST_PROJECT_KEY = 'home-canvas:last-project-id';
+
+export interface StoredChatMessage {
+    role: 'user' | 'model';
+    text: string;
+    image?: Blob;
+    versionId?: string;
+}
+
+export interface StoredProduct {
+    id: number;
+    name: string;
+    tags: string[];
+    file: File;
+    cutout?: File | null;
+    dimensions?: ProductDimensions | null;
+}
+
+export interface StoredStagedProduct {
+    id: number;
+    productId: number;
+    x: number;
+    y: number;
+    xPercent: number;
+    yPercent: number;
+    scale: number;
+    rotation: number;
+    flipHorizontal: boolean;
+    width: number;
+}
+
+export interface ProjectSummary {
+    id: string;
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+    thumbnail: Blob | null;
+}
+
+export interface ProjectRecord extends ProjectSummary {
+    sceneVersions: SceneVersion[];
+    currentVersionId: string | null;
+    branchTipId: string | null;
+    chatHistory: StoredChatMessage[];
+    products: StoredProduct[];
+    selectedProductId: number | null;
+    stagedProducts: StoredStagedProduct[];
+    debug: { imageUrl: string; prompt: string | null; placementReports?: (PlacementReport | null)[] } | null;
+    // Prompt template edits that apply to this project only
+    promptTemplates?: PromptTemplateOverrides;
+    // Model calls made while the project was open
+    usage?: UsageRecord[];
+}
+
+const getProjectsStore = (mode: IDBTransactionMode) => getStore(PROJECTS_STORE, mode);
+
+export const createProjectId = (): string => {
+    if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+        return crypto.randomUUID();
+    }
+    return `project-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+};
+
+/**
+ * Lists saved projects, most recently updated first.
+ */
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+    const store = await getProjectsStore('readonly');
+    const records = await requestToPromise(store.getAll() as IDBRequest<ProjectRecord[]>);
+    return records
+        .map(({ id, name, createdAt, updatedAt, thumbnail }) => ({ id, name, createdAt, updatedAt, thumbnail }))
+        .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadProject = async (id: string): Promise<ProjectRecord | null> => {
+    const store = await getProjectsStore('readonly');
+    const record = await requestToPromise(store.get(id) as IDBRequest<ProjectRecord | undefined>);
+    return record ?? null;
+};
+
+export const saveProject = async (record: ProjectRecord): Promise<void> => {
+    const store = await getProjectsStore('readwrite');
+    await requestToPromise(store.put(record));
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+    const store = await getProjectsStore('readwrite');
+    await requestToPromise(store.delete(id));
+    if (getLastProjectId() === id) {
+        setLastProjectId(null);
+    }
+};
+
+// The last opened project is remembered so the app can resume where the user left off.
+export const getLastProjectId = (): string | null => {
+    try {
+        return localStorage.getItem(LAST_PROJECT_KEY);
+    } catch {
+        return null;
+    }
+};
+
+export const setLastProjectId = (id: string | null) => {
+    try {
+        if (id) {
+            localStorage.setItem(LAST_PROJECT_KEY, id);
+        } else {
+            localStorage.removeItem(LAST_PROJECT_KEY);
+        }
+    } catch {
+        // Storage can be unavailable (e.g. private mode); resuming is best-effort.
+    }
+};
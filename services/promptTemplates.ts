@@ -0,0 +1,328 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// The prompts sent to the model, as editable templates. Built-in templates
+// are versioned; edits are stored as overrides, either for all projects
+// (in localStorage) or for a single project (saved with the project).
+//
+// Template syntax:
+// - `{{name}}` inserts a variable. A line holding only an empty variable is left out.
+// - `{{#name}}...{{/name}}` is only kept when the variable is not empty.
+
+export type PromptTemplateId =
+    | 'location-description'
+    | 'placement'
+    | 'placement-product'
+    | 'chat-edit'
+    | 'chat-edit-with-content';
+
+export interface PromptTemplateDefinition {
+    id: PromptTemplateId;
+    name: string;
+    description: string;
+    // Bumped whenever the built-in text changes, so overrides made from an older text can be flagged
+    version: number;
+    // Variable names with what they hold
+    variables: Record<string, string>;
+    text: string;
+}
+
+const LOCATION_DESCRIPTION_TEMPLATE = `
+You are an expert scene analyst. I will provide you with an image that has {{markerCount}} numbered, colored marker(s) on it:
+{{markerList}}
+
+Your task is to provide a very dense, semantic description of what is at the exact location of each marker.
+Be specific about surfaces, objects, and spatial relationships. These descriptions will be used to guide another AI in placing new objects.
+
+Example semantic descriptions:
+- "The product location is on the dark grey fabric of the sofa cushion, in the middle section, slightly to the left of the white throw pillow."
+- "The product location is on the light-colored wooden floor, in the patch of sunlight coming from the window, about a foot away from the leg of the brown leather armchair."
+- "The product location is on the white marble countertop, just to the right of the stainless steel sink and behind the green potted plant."
+
+On top of the semantic description above, give a rough relative-to-image description.
+
+Example relative-to-image descriptions:
+- "The product location is about 10% away from the bottom-left of the image."
+- "The product location is about 20% away from the right of the image."
+
+For each marker, output exactly one line in the form "Marker <number>: <description>", where the description is the two descriptions concatenated in a few sentences.
+`;
+
+const PLACEMENT_TEMPLATE = `
+**TASK:**
+You are a master photo editor. Your task is to perfectly integrate every 'product' image into the 'scene' image in a single, coherent composition.
+
+**IMAGE ROLES:**
+{{productRoles}}
+- **Image {{sceneImageNumber}} (Scene):** This is the environment for the product(s).
+
+**CRITICAL EXECUTION ORDER (Follow these steps exactly):**
+
+1.  **TRANSFORMATION (APPLY FIRST):** Before placing each product, you MUST apply every transformation listed for it below (scale, and any flip or rotation).
+
+2.  **PLACEMENT (APPLY SECOND):** Place each fully transformed product at its precise location in the scene. Do not deviate from these locations, and do not swap products between locations.
+{{productSteps}}
+
+3.  **INTEGRATION (APPLY LAST):**
+    - The final image's style, lighting, shadows, reflections, and camera perspective MUST perfectly match the original scene.
+    - You must re-render each product to fit the context, casting realistic shadows and receiving scene lighting.
+    - Products placed near each other must occlude and shadow each other consistently.
+    - Ensure every final product size is proportional and realistic for the environment.
+    - Every product MUST be clearly visible in the final image.
+
+**FINAL OUTPUT RULES:**
+- The output MUST be the final, composed image ONLY.
+- DO NOT output any text, descriptions, explanations, or analysis.
+`;
+
+const PLACEMENT_PRODUCT_TEMPLATE = `    - **Product {{productNumber}}:**
+        - **Scale:** {{scaleInstruction}}
+{{#dimensions}}
+        - **Real-world size:** {{dimensions}}. Keep these proportions.
+{{/dimensions}}
+{{#flipInstruction}}
+        - **Flip:** {{flipInstruction}}
+{{/flipInstruction}}
+{{#rotationInstruction}}
+        - **Rotation:** {{rotationInstruction}}
+{{/rotationInstruction}}
+        - **Location:** "{{locationDescription}}"
+{{#footprint}}
+        - **Footprint:** The product's base MUST rest on the floor inside the quadrilateral with corners at {{footprint}} (percent of the scene's width and height; front-left, front-right, back-right, back-left).
+{{/footprint}}`;
+
+const CHAT_EDIT_OUTPUT_RULES = `**Output Requirements:**
+1.  **MUST** return the final, edited image.
+2.  **MUST** also return a short, friendly text response confirming the exact change you made.
+If you are unable to fulfill the request, you must explain why in the text response and do not return an edited image.
+`;
+
+const CHAT_CONTEXT_SECTION = `{{#conversationContext}}
+
+**Conversation So Far:**
+{{conversationContext}}
+
+Interpret the user's request in light of this conversation. References like "that", "it", "a bit more" or "undo X" refer to the earlier requests and edits listed above; only change what the new request asks for.
+{{/conversationContext}}`;
+
+const CHAT_REGION_INSTRUCTION = `{{#regionImageNumber}}
+
+**Edit Region:** Apply the change ONLY inside the red-tinted area shown in Image {{regionImageNumber}}. Everything outside that area MUST remain exactly as it is in the scene image.
+{{/regionImageNumber}}`;
+
+const CHAT_REGION_ROLE = `{{#regionImageNumber}}
+- **Image {{regionImageNumber}} (Region):** The same scene with the area you are allowed to change tinted red. This is for reference only; do not reproduce the red tint.
+{{/regionImageNumber}}`;
+
+const CHAT_EDIT_TEMPLATE = `
+**Role:** You are a helpful and expert AI photo editor.
+**Task:** Your ONLY task is to edit the scene image (Image 1), based on the user's request. Do not add any new objects unless explicitly asked.
+${CHAT_REGION_ROLE}
+${CHAT_CONTEXT_SECTION}
+
+**User's Request:** "{{userRequest}}"
+${CHAT_REGION_INSTRUCTION}
+
+${CHAT_EDIT_OUTPUT_RULES}`;
+
+const CHAT_EDIT_WITH_CONTENT_TEMPLATE = `
+**Role:** You are a helpful and expert AI photo editor.
+**Task:** Your ONLY task is to edit the 'scene' image based on the user's request, using content from the 'content' image.
+**IMAGE ROLES:**
+- **Image 1 (Scene):** This is the main image that you MUST edit.
+- **Image 2 (Content):** This image provides the texture, pattern, or object to be used in the edit. For example, it could be a wallpaper pattern or a new painting.
+${CHAT_REGION_ROLE}
+${CHAT_CONTEXT_SECTION}
+
+**User's Request:** "{{userRequest}}"
+${CHAT_REGION_INSTRUCTION}
+
+**Instructions:**
+- Analyze the user's request to understand how to apply the 'content' image to the 'scene' image.
+- For example, if the user says "change the wallpaper on the right wall", use the pattern from the 'content' image and apply it as wallpaper to the right wall in the 'scene' image.
+- The integration MUST be photorealistic, matching the scene's lighting, perspective, and shadows.
+
+${CHAT_EDIT_OUTPUT_RULES}`;
+
+const CHAT_VARIABLES = {
+    userRequest: "The user's chat message.",
+    conversationContext: 'Summary of earlier requests and the edits that led to the image. Empty for the first request.',
+    regionImageNumber: 'Number of the image showing the painted edit region. Empty when no region is painted.',
+};
+
+export const PROMPT_TEMPLATES: Record<PromptTemplateId, PromptTemplateDefinition> = {
+    'location-description': {
+        id: 'location-description',
+        name: 'Location description',
+        description: 'Asks the model to describe what is at each numbered marker before compositing.',
+        version: 1,
+        variables: {
+            markerCount: 'Number of markers (one per staged product).',
+            markerList: 'One line per marker with its number and color.',
+        },
+        text: LOCATION_DESCRIPTION_TEMPLATE,
+    },
+    placement: {
+        id: 'placement',
+        name: 'Placement',
+        description: 'Composites the staged products into the scene.',
+        version: 1,
+        variables: {
+            productRoles: 'One line per product image describing what it shows.',
+            sceneImageNumber: 'Number of the scene image (after the product images).',
+            productSteps: 'The "Product" template, rendered for each product.',
+        },
+        text: PLACEMENT_TEMPLATE,
+    },
+    'placement-product': {
+        id: 'placement-product',
+        name: 'Placement: per product',
+        description: 'The transformations and location for one product, inserted into the Placement template.',
+        version: 1,
+        variables: {
+            productNumber: 'The product\'s number, matching its image and marker.',
+            scaleInstruction: 'How large the product should appear, from the gizmo scale, floor footprint or true-to-size calibration.',
+            dimensions: 'Real-world width, depth and height. Empty when unknown.',
+            flipInstruction: 'Mirroring instruction. Empty when not flipped.',
+            rotationInstruction: 'Turning instruction. Empty when not rotated.',
+            locationDescription: 'What is at the product\'s marker, from the Location description step.',
+            footprint: 'Corners of the product\'s floor footprint. Empty without a floor plane.',
+        },
+        text: PLACEMENT_PRODUCT_TEMPLATE,
+    },
+    'chat-edit': {
+        id: 'chat-edit',
+        name: 'Chat edit',
+        description: 'Edits the scene from a chat message.',
+        version: 1,
+        variables: CHAT_VARIABLES,
+        text: CHAT_EDIT_TEMPLATE,
+    },
+    'chat-edit-with-content': {
+        id: 'chat-edit-with-content',
+        name: 'Chat edit with an image',
+        description: 'Edits the scene from a chat message with an attached texture or object image.',
+        version: 1,
+        variables: CHAT_VARIABLES,
+        text: CHAT_EDIT_WITH_CONTENT_TEMPLATE,
+    },
+};
+
+export const PROMPT_TEMPLATE_IDS = Object.keys(PROMPT_TEMPLATES) as PromptTemplateId[];
+
+// An edited template. `baseVersion` is the built-in version it was edited from.
+export interface PromptTemplateOverride {
+    text: string;
+    baseVersion: number;
+    // Counts saves of this override
+    revision: number;
+    updatedAt: number;
+}
+
+export type PromptTemplateOverrides = Partial<Record<PromptTemplateId, PromptTemplateOverride>>;
+
+// The template texts used for a request, with overrides applied
+export type PromptTemplateSet = Record<PromptTemplateId, string>;
+
+/**
+ * Resolves the text of every template. Later override layers win, so pass
+ * the user's templates before the project's.
+ */
+export const resolvePromptTemplates = (...layers: (PromptTemplateOverrides | null | undefined)[]): PromptTemplateSet => {
+    return PROMPT_TEMPLATE_IDS.reduce((set, id) => {
+        const override = layers.reduce<PromptTemplateOverride | undefined>((current, layer) => layer?.[id] ?? current, undefined);
+        set[id] = override?.text ?? PROMPT_TEMPLATES[id].text;
+        return set;
+    }, {} as PromptTemplateSet);
+};
+
+/**
+ * Fills in a template's variables. Unknown variables are left in place so
+ * they stand out in the prompt preview.
+ */
+export const renderPromptTemplate = (text: string, variables: Record<string, string | number | null | undefined>): string => {
+    const valueOf = (name: string) => {
+        const value = variables[name];
+        return value === null || value === undefined ? '' : String(value);
+    };
+    const isKnown = (name: string) => name in variables;
+
+    // Sections on lines of their own take their line breaks with them when dropped
+    const withSections = text
+        .replace(/^\{\{#(\w+)\}\}\n([\s\S]*?)^\{\{\/\1\}\}(\n|$)/gm, (match, name: string, body: string) => {
+            if (!isKnown(name)) return match;
+            return valueOf(name) ? body : '';
+        })
+        .replace(/\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g, (match, name: string, body: string) => {
+            if (!isKnown(name)) return match;
+            return valueOf(name) ? body : '';
+        });
+
+    return withSections
+        .split('\n')
+        .filter(line => {
+            const only = line.trim().match(/^\{\{\s*(\w+)\s*\}\}$/);
+            return !only || !isKnown(only[1]) || valueOf(only[1]) !== '';
+        })
+        .join('\n')
+        .replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => isKnown(name) ? valueOf(name) : match);
+};
+
+// Variables a template text uses that the template does not provide, e.g. typos in an edit
+export const findUnknownVariables = (id: PromptTemplateId, text: string): string[] => {
+    const known = PROMPT_TEMPLATES[id].variables;
+    const used = Array.from(text.matchAll(/\{\{\s*[#/]?(\w+)\s*\}\}/g), match => match[1]);
+    return used.filter((name, index) => !(name in known) && used.indexOf(name) === index);
+};
+
+// Saves an edit as a new revision of the override, or removes the override when the text matches the built-in one
+export const updatePromptTemplateOverride = (
+    overrides: PromptTemplateOverrides,
+    id: PromptTemplateId,
+    text: string | null
+): PromptTemplateOverrides => {
+    const { [id]: previous, ...rest } = overrides;
+    const definition = PROMPT_TEMPLATES[id];
+    if (text === null || text === definition.text) {
+        return rest;
+    }
+    return {
+        ...rest,
+        [id]: { text, baseVersion: definition.version, revision: (previous?.revision ?? 0) + 1, updatedAt: Date.now() },
+    };
+};
+
+// True when the built-in template has changed since the override was made
+export const isOverrideOutdated = (id: PromptTemplateId, override: PromptTemplateOverride): boolean => {
+    return override.baseVersion < PROMPT_TEMPLATES[id].version;
+};
+
+const USER_PROMPT_SETTINGS_KEY = 'home-canvas:prompt-settings';
+
+export interface UserPromptSettings {
+    // Template edits that apply to every project
+    overrides: PromptTemplateOverrides;
+    // Show the rendered prompt and wait for confirmation before each request
+    reviewBeforeSending: boolean;
+}
+
+export const loadUserPromptSettings = (): UserPromptSettings => {
+    try {
+        const stored = localStorage.getItem(USER_PROMPT_SETTINGS_KEY);
+        const parsed = stored ? JSON.parse(stored) as Partial<UserPromptSettings> : {};
+        return { overrides: parsed.overrides ?? {}, reviewBeforeSending: parsed.reviewBeforeSending ?? false };
+    } catch {
+        return { overrides: {}, reviewBeforeSending: false };
+    }
+};
+
+export const saveUserPromptSettings = (settings: UserPromptSettings) => {
+    try {
+        localStorage.setItem(USER_PROMPT_SETTINGS_KEY, JSON.stringify(settings));
+    } catch (err) {
+        // Storage can be unavailable (e.g. private mode); the settings then last for the session only.
+        console.error('Could not save prompt settings:', err);
+    }
+};
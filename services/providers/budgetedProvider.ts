@@ -0,0 +1,35 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ImageModelProvider } from './types';
+
+// Throws (e.g. a 'quota' ModelError) when no more model calls may be made
+export type BudgetCheck = () => void;
+
+/**
+ * Wraps a provider so the budget is checked before every call, whichever
+ * operation makes it. Retries happen inside the wrapped provider and are not
+ * checked again.
+ */
+export const withBudgetCheck = (provider: ImageModelProvider, check: BudgetCheck): ImageModelProvider => ({
+    name: provider.name,
+    models: provider.models,
+    describeLocation: async (prompt, markedScene, signal) => {
+        check();
+        return provider.describeLocation(prompt, markedScene, signal);
+    },
+    compose: async (prompt, images, signal) => {
+        check();
+        return provider.compose(prompt, images, signal);
+    },
+    edit: async (prompt, images, signal) => {
+        check();
+        return provider.edit(prompt, images, signal);
+    },
+    segmentProduct: async (prompt, image, signal) => {
+        check();
+        return provider.segmentProduct(prompt, image, signal);
+    },
+});
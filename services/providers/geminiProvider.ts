@@ -0,0 +1,120 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { FinishReason, GoogleGenAI, GenerateContentResponse, Modality, Part } from "@google/genai";
+import { ImageModelProvider, InlineImage, ModelImageResult, ModelUsage } from './types';
+import { ModelError } from '../modelErrors';
+import { GEMINI_IMAGE_MODEL, GEMINI_TEXT_MODEL } from './models';
+
+const toPart = (image: InlineImage): Part => ({ inlineData: { mimeType: image.mimeType, data: image.data } });
+
+const SAFETY_FINISH_REASONS: (FinishReason | undefined)[] = [
+    FinishReason.SAFETY,
+    FinishReason.IMAGE_SAFETY,
+    FinishReason.PROHIBITED_CONTENT,
+    FinishReason.BLOCKLIST,
+    FinishReason.SPII,
+];
+
+// Blocked requests come back as a successful response without content; turn them into errors.
+const assertNotBlocked = (response: GenerateContentResponse) => {
+    const blockReason = response.promptFeedback?.blockReason;
+    if (blockReason) {
+        throw new ModelError('safety', response.promptFeedback?.blockReasonMessage || `The request was blocked (${blockReason}).`);
+    }
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (SAFETY_FINISH_REASONS.includes(finishReason)) {
+        throw new ModelError('safety', `The response was blocked by safety filters (${finishReason}).`);
+    }
+};
+
+// Reads the billed tokens of a response, when reported.
+const readUsage = (response: GenerateContentResponse, model: string): ModelUsage | null => {
+    const metadata = response.usageMetadata;
+    if (!metadata) {
+        return null;
+    }
+    return {
+        model,
+        inputTokens: metadata.promptTokenCount ?? 0,
+        outputTokens: (metadata.candidatesTokenCount ?? 0) + (metadata.thoughtsTokenCount ?? 0),
+    };
+};
+
+// Collects the first text and the first image part from a response.
+const readImageResult = (response: GenerateContentResponse, model: string): ModelImageResult => {
+    assertNotBlocked(response);
+    let text: string | null = null;
+    let image: InlineImage | null = null;
+    const parts = response.candidates?.[0]?.content?.parts ?? [];
+    for (const part of parts) {
+        if (part.text && text === null) {
+            text = part.text;
+        } else if (part.inlineData?.data && image === null) {
+            image = { mimeType: part.inlineData.mimeType ?? 'image/png', data: part.inlineData.data };
+        }
+    }
+    return { text, image, usage: readUsage(response, model) };
+};
+
+export const createGeminiProvider = (apiKey: string): ImageModelProvider => {
+    let client: GoogleGenAI | null = null;
+    const getClient = () => {
+        if (!client) {
+            client = new GoogleGenAI({ apiKey });
+        }
+        return client;
+    };
+
+    return {
+        name: 'gemini',
+        models: { text: GEMINI_TEXT_MODEL, image: GEMINI_IMAGE_MODEL },
+
+        async describeLocation(prompt, markedScene, signal) {
+            const response = await getClient().models.generateContent({
+                model: GEMINI_TEXT_MODEL,
+                contents: { parts: [{ text: prompt }, toPart(markedScene)] },
+                config: { abortSignal: signal },
+            });
+            assertNotBlocked(response);
+            return { text: response.text ?? '', usage: readUsage(response, GEMINI_TEXT_MODEL) };
+        },
+
+        async compose(prompt, images, signal) {
+            const response = await getClient().models.generateContent({
+                model: GEMINI_IMAGE_MODEL,
+                contents: { parts: [...images.map(toPart), { text: prompt }] },
+                config: { abortSignal: signal },
+            });
+            return readImageResult(response, GEMINI_IMAGE_MODEL);
+        },
+
+        async edit(prompt, images, signal) {
+            const response = await getClient().models.generateContent({
+                model: GEMINI_IMAGE_MODEL,
+                contents: { parts: [...images.map(toPart), { text: prompt }] },
+                config: {
+                    responseModalities: [Modality.IMAGE, Modality.TEXT],
+                    abortSignal: signal,
+                },
+            });
+            return readImageResult(response, GEMINI_IMAGE_MODEL);
+        },
+
+        async segmentProduct(prompt, image, signal) {
+            const response = await getClient().models.generateContent({
+                model: GEMINI_TEXT_MODEL,
+                contents: { parts: [toPart(image), { text: prompt }] },
+                config: {
+                    responseMimeType: 'application/json',
+                    // Segmentation works better without thinking
+                    thinkingConfig: { thinkingBudget: 0 },
+                    abortSignal: signal,
+                },
+            });
+            return { text: response.text ?? '', usage: readUsage(response, GEMINI_TEXT_MODEL) };
+        },
+    };
+};
@@ -0,0 +1,50 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { afterEach, describe, expect, it } from 'vitest';
+import { createImageModelProvider, getImageModelProvider, setBudgetCheck, setImageModelProvider } from './index';
+import { ModelError } from '../modelErrors';
+
+const SCENE = { mimeType: 'image/jpeg', data: 'c2NlbmU=' };
+const PRODUCT = { mimeType: 'image/png', data: 'cHJvZHVjdA==' };
+
+describe('createImageModelProvider', () => {
+    afterEach(() => {
+        setBudgetCheck(null);
+        setImageModelProvider(null);
+    });
+
+    it('creates the offline mock, which hands the scene back', async () => {
+        const provider = createImageModelProvider('mock');
+        expect(provider.name).toBe('mock');
+        expect(provider.models).toEqual({ text: 'mock', image: 'mock' });
+        expect((await provider.compose('Place it', [PRODUCT, SCENE])).image).toEqual(SCENE);
+        expect((await provider.edit('Paint it', [SCENE])).image).toEqual(SCENE);
+        expect((await provider.segmentProduct('Segment it', PRODUCT)).text).toBe('[]');
+    });
+
+    it('checks the budget before every call', async () => {
+        const provider = createImageModelProvider('mock');
+        setBudgetCheck(() => {
+            throw new ModelError('quota', 'Over budget');
+        });
+        await expect(provider.compose('Place it', [PRODUCT, SCENE])).rejects.toMatchObject({ kind: 'quota', message: 'Over budget' });
+        await expect(provider.describeLocation('Where?', SCENE)).rejects.toMatchObject({ kind: 'quota' });
+        setBudgetCheck(null);
+        await expect(provider.describeLocation('Where?', SCENE)).resolves.toMatchObject({ usage: null });
+    });
+
+    it('rejects cancelled calls', async () => {
+        const controller = new AbortController();
+        controller.abort();
+        await expect(createImageModelProvider('mock').edit('Paint it', [SCENE], controller.signal)).rejects.toMatchObject({ name: 'AbortError' });
+    });
+
+    it('lets a harness replace the active provider', () => {
+        const mock = createImageModelProvider('mock');
+        setImageModelProvider(mock);
+        expect(getImageModelProvider()).toBe(mock);
+    });
+});
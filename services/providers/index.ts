@@ -0,0 +1,54 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createMockProvider } from './mockProvider';
+import { createProxyProvider } from './proxyProvider';
+import { withRetries } from './retryingProvider';
+import { BudgetCheck, withBudgetCheck } from './budgetedProvider';
+import { ImageModelProvider } from './types';
+
+export type { ImageModelProvider, InlineImage, ModelImageResult, ModelTextResult, ModelUsage, ProviderModels } from './types';
+
+export type ImageProviderName = 'gemini' | 'mock';
+
+let activeProvider: ImageModelProvider | null = null;
+let budgetCheck: BudgetCheck | null = null;
+
+// Reads the configured provider name. `IMAGE_PROVIDER` is injected by vite.config.ts.
+const getConfiguredProviderName = (): ImageProviderName => {
+    const configured = (process.env.IMAGE_PROVIDER || 'gemini').toLowerCase();
+    if (configured !== 'gemini' && configured !== 'mock') {
+        console.warn(`Unknown IMAGE_PROVIDER "${configured}", falling back to gemini.`);
+        return 'gemini';
+    }
+    return configured;
+};
+
+// Providers are wrapped so transient failures are retried, errors are typed and
+// the budget (see setBudgetCheck) is checked before every call.
+// Gemini is reached through the API server (server/index.ts), which holds the API key.
+export const createImageModelProvider = (name: ImageProviderName): ImageModelProvider => {
+    const provider = withRetries(name === 'mock' ? createMockProvider() : createProxyProvider());
+    return withBudgetCheck(provider, () => budgetCheck?.());
+};
+
+// Returns the provider selected by configuration, creating it on first use.
+export const getImageModelProvider = (): ImageModelProvider => {
+    if (!activeProvider) {
+        activeProvider = createImageModelProvider(getConfiguredProviderName());
+        console.log(`Using image model provider: ${activeProvider.name}`);
+    }
+    return activeProvider;
+};
+
+// Overrides the active provider, e.g. to force the mock adapter in a test harness.
+export const setImageModelProvider = (provider: ImageModelProvider | null) => {
+    activeProvider = provider;
+};
+
+// Sets the check that runs before every model call, e.g. the app's spending budget; null removes it.
+export const setBudgetCheck = (check: BudgetCheck | null) => {
+    budgetCheck = check;
+};
@@ -0,0 +1,45 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ImageModelProvider } from './types';
+import { throwIfAborted } from '../abort';
+
+// A deterministic, offline stand-in for a real model. It never touches the
+// network: descriptions are fixed strings and "generated" images are the
+// input scene handed straight back, so the full app flow can be exercised
+// without an API key.
+export const createMockProvider = (): ImageModelProvider => ({
+    name: 'mock',
+    models: { text: 'mock', image: 'mock' },
+
+    async describeLocation(prompt, markedScene, signal) {
+        throwIfAborted(signal);
+        return { text: 'The product location is at the red marker in the scene (mock description).', usage: null };
+    },
+
+    async compose(prompt, images, signal) {
+        throwIfAborted(signal);
+        const scene = images[images.length - 1];
+        if (!scene) {
+            throw new Error('Mock provider received no scene image to compose.');
+        }
+        return { text: null, image: { ...scene }, usage: null };
+    },
+
+    async edit(prompt, images, signal) {
+        throwIfAborted(signal);
+        const scene = images[0];
+        if (!scene) {
+            throw new Error('Mock provider received no image to edit.');
+        }
+        return { text: 'Mock edit applied. The scene is returned unchanged.', image: { ...scene }, usage: null };
+    },
+
+    async segmentProduct(prompt, image, signal) {
+        throwIfAborted(signal);
+        // No segmentation offline; callers fall back to their local mask estimate.
+        return { text: '[]', usage: null };
+    },
+});
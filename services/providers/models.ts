@@ -0,0 +1,10 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Model ids, kept apart from the Gemini adapter so the browser can name the
+// models behind the API server without bundling the SDK.
+
+export const GEMINI_TEXT_MODEL = 'gemini-2.5-flash';
+export const GEMINI_IMAGE_MODEL = 'gemini-2.5-flash-image-preview';
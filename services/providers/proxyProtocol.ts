@@ -0,0 +1,41 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ModelErrorKind } from '../modelErrors';
+import { InlineImage } from './types';
+
+// Request and response shapes shared by the browser's proxy provider and the
+// API server (server/index.ts). Each route maps to one provider operation.
+
+export const PROXY_BASE_PATH = '/api';
+
+export const PROXY_ROUTES = {
+    describeLocation: 'describe-location',
+    compose: 'compose',
+    edit: 'edit',
+    segmentProduct: 'segment-product',
+} as const;
+
+export type ProxyRoute = typeof PROXY_ROUTES[keyof typeof PROXY_ROUTES];
+
+// Identifies a browser in the server's request logs. The client picks it, so it is not used for rate limiting
+export const CLIENT_ID_HEADER = 'X-Client-Id';
+
+export interface SingleImageRequest {
+    prompt: string;
+    image: InlineImage;
+}
+
+export interface MultiImageRequest {
+    prompt: string;
+    images: InlineImage[];
+}
+
+export interface ProxyErrorBody {
+    error: {
+        kind: ModelErrorKind;
+        message: string;
+    };
+}
@@ -0,0 +1,89 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ImageModelProvider, ModelImageResult, ModelTextResult } from './types';
+import { ModelError, toModelError } from '../modelErrors';
+import {
+    CLIENT_ID_HEADER,
+    MultiImageRequest,
+    PROXY_BASE_PATH,
+    PROXY_ROUTES,
+    ProxyErrorBody,
+    ProxyRoute,
+    SingleImageRequest,
+} from './proxyProtocol';
+import { GEMINI_IMAGE_MODEL, GEMINI_TEXT_MODEL } from './models';
+
+// Calls the model through the HomeCanvas API server, which holds the API key.
+// The browser never sees the key; it only sends prompts and images.
+
+const CLIENT_ID_KEY = 'home-canvas:client-id';
+
+let sessionClientId: string | null = null;
+
+// A random id per browser, so the server logs can tell browsers sharing an address apart
+const getClientId = (): string => {
+    try {
+        const stored = localStorage.getItem(CLIENT_ID_KEY);
+        if (stored) return stored;
+        const id = crypto.randomUUID();
+        localStorage.setItem(CLIENT_ID_KEY, id);
+        return id;
+    } catch {
+        // Storage can be unavailable (e.g. private mode); keep one id for the session.
+        sessionClientId = sessionClientId ?? `session-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+        return sessionClientId;
+    }
+};
+
+// Rebuilds the server's typed error, or classifies the status when the body is not ours (e.g. a gateway error)
+const readProxyError = async (response: Response): Promise<ModelError> => {
+    const body = await response.json().catch(() => null) as ProxyErrorBody | null;
+    const message = body?.error?.message || `The server responded with ${response.status} ${response.statusText}.`.trim();
+    if (body?.error?.kind) {
+        return new ModelError(body.error.kind, message, { status: response.status });
+    }
+    return toModelError(Object.assign(new Error(message), { status: response.status }));
+};
+
+export const createProxyProvider = (basePath: string = PROXY_BASE_PATH): ImageModelProvider => {
+    const post = async <T>(route: ProxyRoute, body: SingleImageRequest | MultiImageRequest, signal?: AbortSignal): Promise<T> => {
+        const response = await fetch(`${basePath}/${route}`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                [CLIENT_ID_HEADER]: getClientId(),
+            },
+            body: JSON.stringify(body),
+            signal,
+        });
+        if (!response.ok) {
+            throw await readProxyError(response);
+        }
+        return response.json() as Promise<T>;
+    };
+
+    return {
+        name: 'gemini-proxy',
+        // The server is built from the same source, so it calls the same models
+        models: { text: GEMINI_TEXT_MODEL, image: GEMINI_IMAGE_MODEL },
+
+        async describeLocation(prompt, markedScene, signal) {
+            return post<ModelTextResult>(PROXY_ROUTES.describeLocation, { prompt, image: markedScene }, signal);
+        },
+
+        async compose(prompt, images, signal) {
+            return post<ModelImageResult>(PROXY_ROUTES.compose, { prompt, images }, signal);
+        },
+
+        async edit(prompt, images, signal) {
+            return post<ModelImageResult>(PROXY_ROUTES.edit, { prompt, images }, signal);
+        },
+
+        async segmentProduct(prompt, image, signal) {
+            return post<ModelTextResult>(PROXY_ROUTES.segmentProduct, { prompt, image }, signal);
+        },
+    };
+};
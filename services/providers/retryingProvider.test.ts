@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createMockProvider } from './mockProvider';
+import { withRetries } from './retryingProvider';
+import { ModelError } from '../modelErrors';
+
+const IMAGE = { mimeType: 'image/png', data: 'AAAA' };
+
+// The mock provider, with describeLocation failing with each of the given errors first
+const createFlakyProvider = (...failures: unknown[]) => {
+    const provider = createMockProvider();
+    const describeLocation = vi.fn(provider.describeLocation);
+    failures.forEach(failure => describeLocation.mockRejectedValueOnce(failure));
+    return { provider: { ...provider, describeLocation }, describeLocation };
+};
+
+describe('withRetries', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('retries quota and network errors', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const { provider, describeLocation } = createFlakyProvider(
+            Object.assign(new Error('Too many requests'), { status: 429 }),
+            new TypeError('Failed to fetch'),
+        );
+        const result = await withRetries(provider, { baseDelayMs: 0 }).describeLocation('Where?', IMAGE);
+        expect(result.text).toContain('mock description');
+        expect(describeLocation).toHaveBeenCalledTimes(3);
+    });
+
+    it('does not retry other errors, and rethrows them as model errors', async () => {
+        const { provider, describeLocation } = createFlakyProvider(new TypeError("Cannot read properties of undefined (reading 'parts')"));
+        const call = withRetries(provider, { baseDelayMs: 0 }).describeLocation('Where?', IMAGE);
+        await expect(call).rejects.toBeInstanceOf(ModelError);
+        await expect(call).rejects.toMatchObject({ kind: 'unknown' });
+        expect(describeLocation).toHaveBeenCalledTimes(1);
+    });
+
+    it('gives up after the configured retries', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const quota = Object.assign(new Error('Too many requests'), { status: 429 });
+        const { provider, describeLocation } = createFlakyProvider(quota, quota, quota);
+        await expect(withRetries(provider, { retries: 1, baseDelayMs: 0 }).describeLocation('Where?', IMAGE)).rejects.toMatchObject({ kind: 'quota' });
+        expect(describeLocation).toHaveBeenCalledTimes(2);
+    });
+
+    it('passes cancellations through without retrying', async () => {
+        const { provider, describeLocation } = createFlakyProvider(new DOMException('Aborted', 'AbortError'));
+        await expect(withRetries(provider, { baseDelayMs: 0 }).describeLocation('Where?', IMAGE)).rejects.toMatchObject({ name: 'AbortError' });
+        expect(describeLocation).toHaveBeenCalledTimes(1);
+    });
+});
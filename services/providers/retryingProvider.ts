@@ -0,0 +1,57 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ImageModelProvider } from './types';
+import { abortable, isAbortError } from '../abort';
+import { toModelError } from '../modelErrors';
+
+export interface RetryOptions {
+    // Attempts after the first one
+    retries?: number;
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+}
+
+const sleep = (ms: number, signal?: AbortSignal) => abortable(new Promise<void>(resolve => setTimeout(resolve, ms)), signal);
+
+// Runs a model call, retrying transient failures with exponential backoff and jitter
+const callWithRetries = async <T>(
+    label: string,
+    call: () => Promise<T>,
+    signal: AbortSignal | undefined,
+    { retries = 3, baseDelayMs = 1000, maxDelayMs = 16000 }: RetryOptions
+): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await call();
+        } catch (error) {
+            if (isAbortError(error)) throw error;
+            const modelError = toModelError(error);
+            if (!modelError.retryable || attempt >= retries) {
+                throw modelError;
+            }
+            const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt) * (0.5 + Math.random() / 2);
+            console.warn(`${label} failed (${modelError.kind}), retrying in ${Math.round(delay)}ms...`, modelError);
+            await sleep(delay, signal);
+        }
+    }
+};
+
+/**
+ * Wraps a provider so every call is retried on quota and network errors, and
+ * every failure is rethrown as a typed `ModelError`.
+ */
+export const withRetries = (provider: ImageModelProvider, options: RetryOptions = {}): ImageModelProvider => ({
+    name: provider.name,
+    models: provider.models,
+    describeLocation: (prompt, markedScene, signal) =>
+        callWithRetries('describeLocation', () => provider.describeLocation(prompt, markedScene, signal), signal, options),
+    compose: (prompt, images, signal) =>
+        callWithRetries('compose', () => provider.compose(prompt, images, signal), signal, options),
+    edit: (prompt, images, signal) =>
+        callWithRetries('edit', () => provider.edit(prompt, images, signal), signal, options),
+    segmentProduct: (prompt, image, signal) =>
+        callWithRetries('segmentProduct', () => provider.segmentProduct(prompt, image, signal), signal, options),
+});
@@ -0,0 +1,57 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Base64-encoded image payload exchanged with model providers.
+export interface InlineImage {
+    mimeType: string;
+    data: string;
+}
+
+// Billed tokens of one model call.
+export interface ModelUsage {
+    model: string;
+    inputTokens: number;
+    // Includes any thinking tokens, which are billed as output
+    outputTokens: number;
+}
+
+// What an image-producing model call may return: some text, an image, or both.
+export interface ModelImageResult {
+    text: string | null;
+    image: InlineImage | null;
+    // Null when the provider does not report usage (e.g. the mock)
+    usage: ModelUsage | null;
+}
+
+// What a text-only model call returns.
+export interface ModelTextResult {
+    text: string;
+    usage: ModelUsage | null;
+}
+
+export interface ProviderModels {
+    text: string;
+    image: string;
+}
+
+/**
+ * The operations HomeCanvas needs from an image model. Each adapter
+ * (Gemini, the local mock, ...) implements these calls; everything
+ * else in the pipeline (resizing, marking, cropping) stays provider-agnostic.
+ */
+// Every call takes an optional AbortSignal; aborting rejects the call with an 'AbortError'.
+export interface ImageModelProvider {
+    readonly name: string;
+    // The models behind the text calls (describeLocation, segmentProduct) and the image calls (compose, edit).
+    readonly models: ProviderModels;
+    // Returns a semantic description of the marked location in the scene.
+    describeLocation(prompt: string, markedScene: InlineImage, signal?: AbortSignal): Promise<ModelTextResult>;
+    // Composes product image(s) into the scene. The scene is always the last image.
+    compose(prompt: string, images: InlineImage[], signal?: AbortSignal): Promise<ModelImageResult>;
+    // Edits the first image according to the prompt, optionally using further content images.
+    edit(prompt: string, images: InlineImage[], signal?: AbortSignal): Promise<ModelImageResult>;
+    // Returns the raw JSON text of a segmentation request for the main object in the image.
+    segmentProduct(prompt: string, image: InlineImage, signal?: AbortSignal): Promise<ModelTextResult>;
+}
@@ -0,0 +1,135 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { getStore, requestToPromise, RESPONSES_STORE } from './db';
+
+// A content-addressed store of model results, so running the same operation
+// on the same inputs again is answered locally. Keys are SHA-256 hashes of
+// everything that shapes a result: the image bytes, the placement settings,
+// the rendered prompt and the model. The cache is best-effort; any storage
+// failure simply means the model is called.
+
+export type CachedResponseKind = 'location-description' | 'composite' | 'edit';
+
+interface CachedResponseRecord<T> {
+    key: string;
+    kind: CachedResponseKind;
+    createdAt: number;
+    value: T;
+}
+
+// Results are mostly images of about a megabyte (Blobs, or the base64 of raw edit replies), so only the newest ones are kept
+const MAX_ENTRIES = 100;
+
+// Blobs are immutable, so each is hashed at most once per page load
+const blobHashes = new WeakMap<Blob, Promise<string>>();
+
+const getResponsesStore = (mode: IDBTransactionMode) => getStore(RESPONSES_STORE, mode);
+
+const toHex = (buffer: ArrayBuffer): string => Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+const sha256 = async (data: BufferSource): Promise<string> => toHex(await crypto.subtle.digest('SHA-256', data));
+
+// Hashing needs a secure context (https or localhost); without it nothing is cached
+const canHash = (): boolean => typeof crypto !== 'undefined' && !!crypto.subtle;
+
+/**
+ * Hashes a file's bytes, e.g. a scene or product image.
+ */
+export const hashBlob = (blob: Blob): Promise<string> => {
+    let hash = blobHashes.get(blob);
+    if (!hash) {
+        hash = blob.arrayBuffer().then(sha256);
+        blobHashes.set(blob, hash);
+        hash.catch(() => blobHashes.delete(blob));
+    }
+    return hash;
+};
+
+/**
+ * Builds the cache key for one model result.
+ * @param kind What is being cached, so different operations never share a key.
+ * @param input Everything the result depends on. Blobs are replaced by the hash of their bytes.
+ * @returns The key, or null when hashing is unavailable and the cache should be skipped.
+ */
+export const createCacheKey = async (kind: CachedResponseKind, input: Record<string, unknown>): Promise<string | null> => {
+    if (!canHash()) {
+        return null;
+    }
+    try {
+        const entries = await Promise.all(Object.entries(input).map(async ([name, value]): Promise<[string, unknown]> => {
+            if (value instanceof Blob) return [name, await hashBlob(value)];
+            if (Array.isArray(value) && value.some(item => item instanceof Blob)) {
+                return [name, await Promise.all(value.map(item => item instanceof Blob ? hashBlob(item) : item))];
+            }
+            return [name, value];
+        }));
+        return await sha256(new TextEncoder().encode(JSON.stringify([kind, ...entries])));
+    } catch (error) {
+        console.warn('Could not hash the request for the response cache:', error);
+        return null;
+    }
+};
+
+/**
+ * Looks up a stored result.
+ * @returns The result, or null when there is none (or the key is null).
+ */
+export const readCachedResponse = async <T>(key: string | null): Promise<T | null> => {
+    if (!key) {
+        return null;
+    }
+    try {
+        const store = await getResponsesStore('readonly');
+        const record = await requestToPromise(store.get(key) as IDBRequest<CachedResponseRecord<T> | undefined>);
+        return record?.value ?? null;
+    } catch (error) {
+        console.warn('Could not read the response cache:', error);
+        return null;
+    }
+};
+
+// Deletes the oldest entries beyond MAX_ENTRIES
+const pruneCache = async () => {
+    const store = await getResponsesStore('readwrite');
+    let excess = (await requestToPromise(store.count())) - MAX_ENTRIES;
+    if (excess <= 0) return;
+    await new Promise<void>((resolve, reject) => {
+        const request = store.index('createdAt').openCursor();
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor || excess <= 0) return resolve();
+            cursor.delete();
+            excess--;
+            cursor.continue();
+        };
+        request.onerror = () => reject(request.error ?? new Error('Could not prune the response cache.'));
+    });
+};
+
+/**
+ * Stores a result under its key, replacing any earlier one. Does nothing when the key is null.
+ */
+export const writeCachedResponse = async <T>(key: string | null, kind: CachedResponseKind, value: T): Promise<void> => {
+    if (!key) {
+        return;
+    }
+    try {
+        const store = await getResponsesStore('readwrite');
+        const record: CachedResponseRecord<T> = { key, kind, createdAt: Date.now(), value };
+        await requestToPromise(store.put(record));
+        await pruneCache();
+    } catch (error) {
+        console.warn('Could not write to the response cache:', error);
+    }
+};
+
+/**
+ * Removes every stored result.
+ */
+export const clearResponseCache = async (): Promise<void> => {
+    const store = await getResponsesStore('readwrite');
+    await requestToPromise(store.clear());
+};
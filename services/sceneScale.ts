@@ -0,0 +1,49 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ProductDimensions } from '../components/types';
+import { FloorQuad, getDepthScale, PlanePoint } from './floorPlane';
+
+// Real-world scale for a scene, calibrated by drawing a line over an object of
+// known length (a door, a table edge). Points are in percent of the image.
+export interface SceneScale {
+    start: PlanePoint;
+    end: PlanePoint;
+    lengthCm: number;
+}
+
+// Length of a line in units of percent of the image width, so horizontal and vertical lines compare.
+const lengthInWidthPercent = (start: PlanePoint, end: PlanePoint, aspectRatio: number) => {
+    return Math.hypot(end.x - start.x, (end.y - start.y) / aspectRatio);
+};
+
+/**
+ * How wide (in percent of the image width) something `lengthCm` long appears
+ * when standing at `yPercent`. The reference line is assumed to stand where its
+ * lower end is; with a floor plane the result follows the floor's perspective.
+ * @param aspectRatio The image's width divided by its height.
+ */
+export const getWidthPercentForLength = (
+    scale: SceneScale,
+    lengthCm: number,
+    yPercent: number,
+    aspectRatio: number,
+    floorPlane: FloorQuad | null
+): number | null => {
+    const referenceLength = lengthInWidthPercent(scale.start, scale.end, aspectRatio);
+    if (referenceLength === 0 || scale.lengthCm <= 0) {
+        return null;
+    }
+    const percentPerCm = referenceLength / scale.lengthCm;
+    const referenceY = Math.max(scale.start.y, scale.end.y);
+    const depthFactor = floorPlane ? getDepthScale(floorPlane, yPercent) / getDepthScale(floorPlane, referenceY) : 1;
+    return lengthCm * percentPerCm * depthFactor;
+};
+
+// "80 × 45 × 120 cm (W × D × H)" for prompts and labels.
+export const formatDimensions = ({ width, depth, height }: ProductDimensions): string => {
+    const format = (value: number) => String(Math.round(value * 10) / 10);
+    return `${format(width)} × ${format(depth)} × ${format(height)} cm (W × D × H)`;
+};
@@ -0,0 +1,177 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ModelUsage } from './providers';
+
+// Token and cost accounting. The services report the usage of every model
+// call; the app turns each report into a `UsageRecord` tied to the operation
+// and scene version it belongs to, and sums them up for the usage panel per
+// session and per project. Every record is also kept in a per-browser ledger
+// that survives reloads, which the budget is checked against.
+
+export type UsageOperation = 'placement' | 'chat-edit' | 'cutout' | 'floor-plane';
+
+export type UsageCall = 'describe-location' | 'compose' | 'locate-products' | 'edit' | 'segment-product' | 'estimate-floor';
+
+export type UsageListener = (call: UsageCall, usage: ModelUsage) => void;
+
+export interface UsageRecord extends ModelUsage {
+    id: string;
+    at: number;
+    operation: UsageOperation;
+    call: UsageCall;
+    // The scene version the operation started from; null when it isn't tied to one (e.g. a product cut-out)
+    versionId: string | null;
+    // Null when the model has no known price
+    costUsd: number | null;
+}
+
+export const OPERATION_LABELS: Record<UsageOperation, string> = {
+    placement: 'Product placement',
+    'chat-edit': 'Chat edit',
+    cutout: 'Product cut-out',
+    'floor-plane': 'Floor detection',
+};
+
+export const CALL_LABELS: Record<UsageCall, string> = {
+    'describe-location': 'Location description',
+    compose: 'Composition',
+    'locate-products': 'Placement check',
+    edit: 'Edit',
+    'segment-product': 'Segmentation',
+    'estimate-floor': 'Floor estimate',
+};
+
+interface ModelPricing {
+    inputPerMillion: number;
+    outputPerMillion: number;
+}
+
+// List prices in USD per million tokens. Output of the image model is priced as
+// image tokens, which slightly overstates the occasional text reply. Costs shown
+// in the app are estimates; the billing console is authoritative.
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+    'gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+    'gemini-2.5-flash-image-preview': { inputPerMillion: 0.3, outputPerMillion: 30 },
+};
+
+export const estimateCost = ({ model, inputTokens, outputTokens }: ModelUsage): number | null => {
+    const pricing = MODEL_PRICING[model];
+    if (!pricing) {
+        return null;
+    }
+    return (inputTokens * pricing.inputPerMillion + outputTokens * pricing.outputPerMillion) / 1_000_000;
+};
+
+export const createUsageRecord = (
+    usage: ModelUsage,
+    call: UsageCall,
+    operation: UsageOperation,
+    versionId: string | null
+): UsageRecord => ({
+    ...usage,
+    id: `usage-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    at: Date.now(),
+    operation,
+    call,
+    versionId,
+    costUsd: estimateCost(usage),
+});
+
+export interface UsageTotals {
+    calls: number;
+    inputTokens: number;
+    outputTokens: number;
+    costUsd: number;
+    // Calls whose cost is missing from `costUsd` because their model has no price
+    unpricedCalls: number;
+}
+
+export const summarizeUsage = (records: UsageRecord[]): UsageTotals => records.reduce<UsageTotals>((totals, record) => ({
+    calls: totals.calls + 1,
+    inputTokens: totals.inputTokens + record.inputTokens,
+    outputTokens: totals.outputTokens + record.outputTokens,
+    costUsd: totals.costUsd + (record.costUsd ?? 0),
+    unpricedCalls: totals.unpricedCalls + (record.costUsd === null ? 1 : 0),
+}), { calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0, unpricedCalls: 0 });
+
+/**
+ * Totals the records per group, in the order each group first appears.
+ * @param keyOf Picks the group of a record, e.g. its model or operation.
+ */
+export const groupUsage = <K extends string>(records: UsageRecord[], keyOf: (record: UsageRecord) => K): { key: K; totals: UsageTotals }[] => {
+    const groups = new Map<K, UsageRecord[]>();
+    records.forEach(record => {
+        const key = keyOf(record);
+        groups.set(key, [...(groups.get(key) ?? []), record]);
+    });
+    return Array.from(groups, ([key, group]) => ({ key, totals: summarizeUsage(group) }));
+};
+
+export const formatCost = (usd: number): string => `$${usd.toFixed(usd < 1 ? 3 : 2)}`;
+
+export const formatTokens = (tokens: number): string => tokens.toLocaleString();
+
+// Budget settings are per browser, like the prompt settings.
+const USAGE_SETTINGS_KEY = 'home-canvas:usage-settings';
+
+export interface UsageSettings {
+    // Model calls are blocked once the ledger's estimated cost reaches this; null for no limit
+    budgetUsd: number | null;
+}
+
+export const loadUsageSettings = (): UsageSettings => {
+    try {
+        const stored = localStorage.getItem(USAGE_SETTINGS_KEY);
+        const parsed = stored ? JSON.parse(stored) as Partial<UsageSettings> : {};
+        const budgetUsd = typeof parsed.budgetUsd === 'number' && parsed.budgetUsd > 0 ? parsed.budgetUsd : null;
+        return { budgetUsd };
+    } catch {
+        return { budgetUsd: null };
+    }
+};
+
+export const saveUsageSettings = (settings: UsageSettings) => {
+    try {
+        localStorage.setItem(USAGE_SETTINGS_KEY, JSON.stringify(settings));
+    } catch (err) {
+        // Storage can be unavailable (e.g. private mode); the budget then lasts for the session only.
+        console.error('Could not save usage settings:', err);
+    }
+};
+
+export const isOverBudget = (totals: UsageTotals, settings: UsageSettings): boolean =>
+    settings.budgetUsd !== null && totals.costUsd >= settings.budgetUsd;
+
+export const describeBudgetStop = (totals: UsageTotals, budgetUsd: number): string =>
+    `An estimated ${formatCost(totals.costUsd)} of the ${formatCost(budgetUsd)} budget has been used. Raise or remove the budget, or reset the usage, under Usage to keep generating.`;
+
+// Every model call made in this browser since the usage was last reset
+const USAGE_LEDGER_KEY = 'home-canvas:usage-ledger';
+
+const isUsageRecord = (value: unknown): value is UsageRecord => {
+    const record = value as Partial<UsageRecord> | null;
+    return !!record && typeof record.id === 'string' && typeof record.at === 'number' && typeof record.model === 'string'
+        && typeof record.inputTokens === 'number' && typeof record.outputTokens === 'number';
+};
+
+export const loadUsageLedger = (): UsageRecord[] => {
+    try {
+        const stored = localStorage.getItem(USAGE_LEDGER_KEY);
+        const parsed: unknown = stored ? JSON.parse(stored) : [];
+        return Array.isArray(parsed) ? parsed.filter(isUsageRecord) : [];
+    } catch {
+        return [];
+    }
+};
+
+export const saveUsageLedger = (records: UsageRecord[]) => {
+    try {
+        localStorage.setItem(USAGE_LEDGER_KEY, JSON.stringify(records));
+    } catch (err) {
+        // Storage can be unavailable (e.g. private mode); the ledger then lasts for the session only.
+        console.error('Could not save the usage ledger:', err);
+    }
+};
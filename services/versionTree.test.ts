@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { SceneVersion } from '../components/types';
+import { flattenVersionTree, getChildVersions, getRedoTarget, getVersionPath } from './versionTree';
+
+const version = (id: string, parentId: string | null, createdAt: number): SceneVersion => ({
+    id,
+    parentId,
+    image: new File([], `${id}.png`),
+    operation: parentId ? 'placement' : 'upload',
+    prompt: null,
+    label: id,
+    createdAt,
+});
+
+// root ─ a ─ a1
+//      └ b
+const VERSIONS = [
+    version('root', null, 1),
+    version('b', 'root', 4),
+    version('a', 'root', 2),
+    version('a1', 'a', 3),
+];
+
+const ids = (versions: SceneVersion[]) => versions.map(({ id }) => id);
+
+describe('versionTree', () => {
+    it('lists children oldest first', () => {
+        expect(ids(getChildVersions(VERSIONS, 'root'))).toEqual(['a', 'b']);
+    });
+
+    it('returns the path from the root', () => {
+        expect(ids(getVersionPath(VERSIONS, 'a1'))).toEqual(['root', 'a', 'a1']);
+        expect(getVersionPath(VERSIONS, 'missing')).toEqual([]);
+    });
+
+    it('redoes along the branch tip, or else to the newest child', () => {
+        expect(getRedoTarget(VERSIONS, 'root', 'a1')?.id).toBe('a');
+        expect(getRedoTarget(VERSIONS, 'a', 'a1')?.id).toBe('a1');
+        expect(getRedoTarget(VERSIONS, 'root', 'b')?.id).toBe('b');
+        expect(getRedoTarget(VERSIONS, 'root', null)?.id).toBe('b');
+        expect(getRedoTarget(VERSIONS, 'a1', 'a1')).toBeNull();
+    });
+
+    it('flattens depth-first with depths', () => {
+        expect(flattenVersionTree(VERSIONS).map(({ version, depth }) => `${version.id}:${depth}`)).toEqual(['root:0', 'a:1', 'a1:2', 'b:1']);
+    });
+});
@@ -0,0 +1,78 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { SceneOperation, SceneVersion } from '../components/types';
+
+// Helpers for the scene version tree. Versions are kept as a flat list where
+// each node points at its parent; nothing is ever discarded, so editing after
+// an undo simply starts a new branch.
+
+let versionCounter = 0;
+
+export const createSceneVersion = (
+    image: File,
+    parentId: string | null,
+    details: { operation: SceneOperation; prompt?: string | null; label: string; products?: string[] }
+): SceneVersion => ({
+    id: `v-${Date.now().toString(36)}-${(versionCounter++).toString(36)}`,
+    parentId,
+    image,
+    operation: details.operation,
+    prompt: details.prompt ?? null,
+    label: details.label,
+    products: details.products ?? [],
+    createdAt: Date.now(),
+});
+
+export const findVersion = (versions: SceneVersion[], id: string | null): SceneVersion | null => {
+    if (!id) return null;
+    return versions.find(version => version.id === id) ?? null;
+};
+
+export const getChildVersions = (versions: SceneVersion[], parentId: string | null): SceneVersion[] => {
+    return versions
+        .filter(version => version.parentId === parentId)
+        .sort((a, b) => a.createdAt - b.createdAt);
+};
+
+// Returns the chain of versions from the root down to (and including) the given version.
+export const getVersionPath = (versions: SceneVersion[], id: string | null): SceneVersion[] => {
+    const path: SceneVersion[] = [];
+    let current = findVersion(versions, id);
+    while (current) {
+        path.unshift(current);
+        current = findVersion(versions, current.parentId);
+    }
+    return path;
+};
+
+/**
+ * Picks the version "redo" should move to. If the current version is an
+ * ancestor of the branch tip (the last version created or jumped to), redo
+ * follows that branch; otherwise it takes the newest child.
+ */
+export const getRedoTarget = (versions: SceneVersion[], currentId: string | null, branchTipId: string | null): SceneVersion | null => {
+    if (!currentId) return null;
+    const tipPath = getVersionPath(versions, branchTipId);
+    const currentIndex = tipPath.findIndex(version => version.id === currentId);
+    if (currentIndex >= 0 && currentIndex < tipPath.length - 1) {
+        return tipPath[currentIndex + 1];
+    }
+    const children = getChildVersions(versions, currentId);
+    return children[children.length - 1] ?? null;
+};
+
+// Flattens the tree depth-first for display, pairing each version with its depth.
+export const flattenVersionTree = (versions: SceneVersion[]): { version: SceneVersion; depth: number }[] => {
+    const rows: { version: SceneVersion; depth: number }[] = [];
+    const visit = (parentId: string | null, depth: number) => {
+        getChildVersions(versions, parentId).forEach(version => {
+            rows.push({ version, depth });
+            visit(version.id, depth + 1);
+        });
+    };
+    visit(null, 0);
+    return rows;
+};
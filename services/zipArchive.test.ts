@@ -0,0 +1,55 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { crc32 } from './crc32';
+import { createZip } from './zipArchive';
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+describe('crc32', () => {
+    it('matches the standard check value', () => {
+        expect(crc32(encode('123456789'))).toBe(0xcbf43926);
+        expect(crc32(new Uint8Array())).toBe(0);
+    });
+
+    it('continues from an earlier checksum', () => {
+        expect(crc32(encode('56789'), crc32(encode('1234')))).toBe(0xcbf43926);
+    });
+});
+
+describe('createZip', () => {
+    it('stores each entry uncompressed with its name, size and checksum', async () => {
+        const zip = await createZip([
+            { name: 'project.json', data: '{"a":1}', modifiedAt: Date.UTC(2024, 0, 1) },
+            { name: 'images/scene.png', data: new Blob([new Uint8Array([1, 2, 3])]) },
+        ]);
+        expect(zip.type).toBe('application/zip');
+        const bytes = new Uint8Array(await zip.arrayBuffer());
+        const view = new DataView(bytes.buffer);
+
+        // First local header, followed by the name and the stored data
+        expect(view.getUint32(0, true)).toBe(0x04034b50);
+        expect(view.getUint16(8, true)).toBe(0);
+        expect(view.getUint32(14, true)).toBe(crc32(encode('{"a":1}')));
+        expect(view.getUint32(18, true)).toBe(7);
+        expect(new TextDecoder().decode(bytes.subarray(30, 42))).toBe('project.json');
+        expect(new TextDecoder().decode(bytes.subarray(42, 49))).toBe('{"a":1}');
+
+        // The end record points at a central directory holding both entries
+        const end = bytes.length - 22;
+        expect(view.getUint32(end, true)).toBe(0x06054b50);
+        expect(view.getUint16(end + 10, true)).toBe(2);
+        const centralOffset = view.getUint32(end + 16, true);
+        expect(view.getUint32(centralOffset, true)).toBe(0x02014b50);
+        expect(centralOffset + view.getUint32(end + 12, true)).toBe(end);
+
+        // The second entry's central record points back at its local header
+        const secondCentral = centralOffset + 46 + 'project.json'.length;
+        const secondLocal = view.getUint32(secondCentral + 42, true);
+        expect(view.getUint32(secondLocal, true)).toBe(0x04034b50);
+        expect(new TextDecoder().decode(bytes.subarray(secondLocal + 30, secondLocal + 46))).toBe('images/scene.png');
+    });
+});
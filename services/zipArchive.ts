@@ -0,0 +1,92 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { crc32 } from './crc32';
+
+// Minimal ZIP writer. Entries are stored uncompressed: the images are already
+// compressed, so deflating them would cost time for almost no gain.
+
+export interface ZipEntry {
+    name: string;
+    data: Blob | string;
+    modifiedAt?: number;
+}
+
+const textEncoder = new TextEncoder();
+
+// Packs a timestamp into the MS-DOS time and date fields used by ZIP headers
+const toDosDateTime = (timestamp: number): { time: number; date: number } => {
+    const d = new Date(timestamp);
+    return {
+        time: (d.getHours() << 11) | (d.getMinutes() << 5) | Math.floor(d.getSeconds() / 2),
+        date: (Math.max(d.getFullYear() - 1980, 0) << 9) | ((d.getMonth() + 1) << 5) | d.getDate(),
+    };
+};
+
+/**
+ * Builds a ZIP archive from the given entries.
+ * @param entries Files to include; names may contain '/' for folders.
+ * @returns The archive as an `application/zip` Blob.
+ */
+export const createZip = async (entries: ZipEntry[]): Promise<Blob> => {
+    const localParts: Uint8Array[] = [];
+    const centralParts: Uint8Array[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const nameBytes = textEncoder.encode(entry.name);
+        const data = typeof entry.data === 'string'
+            ? textEncoder.encode(entry.data)
+            : new Uint8Array(await entry.data.arrayBuffer());
+        const crc = crc32(data);
+        const { time, date } = toDosDateTime(entry.modifiedAt ?? Date.now());
+
+        const local = new Uint8Array(30 + nameBytes.length);
+        const localView = new DataView(local.buffer);
+        localView.setUint32(0, 0x04034b50, true);
+        localView.setUint16(4, 20, true); // version needed
+        localView.setUint16(6, 0x0800, true); // UTF-8 file names
+        localView.setUint16(8, 0, true); // stored
+        localView.setUint16(10, time, true);
+        localView.setUint16(12, date, true);
+        localView.setUint32(14, crc, true);
+        localView.setUint32(18, data.length, true);
+        localView.setUint32(22, data.length, true);
+        localView.setUint16(26, nameBytes.length, true);
+        localView.setUint16(28, 0, true);
+        local.set(nameBytes, 30);
+
+        const central = new Uint8Array(46 + nameBytes.length);
+        const centralView = new DataView(central.buffer);
+        centralView.setUint32(0, 0x02014b50, true);
+        centralView.setUint16(4, 20, true); // version made by
+        centralView.setUint16(6, 20, true); // version needed
+        centralView.setUint16(8, 0x0800, true);
+        centralView.setUint16(10, 0, true);
+        centralView.setUint16(12, time, true);
+        centralView.setUint16(14, date, true);
+        centralView.setUint32(16, crc, true);
+        centralView.setUint32(20, data.length, true);
+        centralView.setUint32(24, data.length, true);
+        centralView.setUint16(28, nameBytes.length, true);
+        centralView.setUint32(42, offset, true); // local header offset
+        central.set(nameBytes, 46);
+
+        localParts.push(local, data);
+        centralParts.push(central);
+        offset += local.length + data.length;
+    }
+
+    const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+    const end = new Uint8Array(22);
+    const endView = new DataView(end.buffer);
+    endView.setUint32(0, 0x06054b50, true);
+    endView.setUint16(8, entries.length, true);
+    endView.setUint16(10, entries.length, true);
+    endView.setUint32(12, centralSize, true);
+    endView.setUint32(16, offset, true);
+
+    return new Blob([...localParts, ...centralParts, end], { type: 'application/zip' });
+};